@@ -0,0 +1,40 @@
+import { writeFileSync } from 'fs'
+import { join } from 'path'
+
+// Saves a live page as an extraction fixture: npx tsx scripts/capture-fixture.ts <url> <fixture-name>
+// Scripts, styles, SVGs and comments are dropped; the markup the recipes select on is kept as served.
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'extraction')
+
+const trim = (html: string): string =>
+  ['script', 'style', 'noscript', 'svg', 'iframe']
+    .reduce((trimmed, tag) => trimmed.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}>`, 'gi'), ''), html)
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\n\s*\n+/g, '\n')
+
+const capture = async (url: string, name: string) => {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': 'Mozilla/5.0 (compatible; BlogHubBot/1.0)' },
+    signal: AbortSignal.timeout(30000)
+  })
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`)
+  }
+
+  const capturedOn = new Date().toISOString().slice(0, 10)
+  const html = `<!-- Snapshot of ${url} (captured ${capturedOn}). Scripts, styles and SVGs removed. -->\n${trim(await response.text())}`
+  const file = join(FIXTURES_DIR, name.endsWith('.html') ? name : `${name}.html`)
+  writeFileSync(file, html)
+  console.log(`💾 Saved ${url} to ${file} (${html.length} bytes)`)
+}
+
+const [url, name] = process.argv.slice(2)
+if (!url || !name) {
+  console.error('Usage: npx tsx scripts/capture-fixture.ts <url> <fixture-name>')
+  process.exit(1)
+}
+
+capture(url, name).catch(error => {
+  console.error('❌ Capture failed:', error)
+  process.exit(1)
+})
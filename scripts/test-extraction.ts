@@ -0,0 +1,146 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { ContentExtractor } from '../src/lib/content-extractor'
+
+// Checks ContentExtractor.extract against saved pages, one per built-in recipe. Run with `npm test`.
+// Each fixture's first line says where it came from; capture-fixture.ts saves new ones.
+
+interface ExtractionCase {
+  fixture: string // File in fixtures/extraction
+  url: string // Custom domains exercise the recipe's platform marker instead of its domain list
+  recipe: string
+  title: string
+  byline: string
+  date?: string // YYYY-MM-DD
+  nextPageUrl?: string
+  includes: string[] // Text the extracted content must keep
+  excludes: string[] // Text the recipe removes
+}
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'extraction')
+
+const CASES: ExtractionCase[] = [
+  {
+    fixture: 'naval.html',
+    url: 'https://nav.al/rich',
+    recipe: 'Naval',
+    title: 'How to Get Rich',
+    byline: 'Naval',
+    date: '2019-05-31',
+    includes: ['Seek wealth, not money or status', 'Ignore people playing status games'],
+    excludes: ['Tweet this', 'Share this', 'Previous: Happiness']
+  },
+  {
+    fixture: 'aeon.html',
+    url: 'https://aeon.co/essays/the-quiet-power-of-boredom',
+    recipe: 'Aeon',
+    title: 'The quiet power of boredom',
+    byline: 'Jane Doe',
+    date: '2023-02-14',
+    includes: ['Boredom has a bad reputation', 'what would actually be worth doing next'],
+    excludes: ['Get Aeon straight to your inbox', 'made possible through the support', 'Another essay worth reading']
+  },
+  {
+    fixture: 'posthaven.html',
+    url: 'https://blog.samaltman.com/the-days-are-long-but-the-decades-are-short',
+    recipe: 'Posthaven',
+    title: 'The days are long but the decades are short',
+    byline: 'Sam Altman',
+    date: '2015-04-28',
+    includes: ['I turned 30 last week', 'Life is not a dress rehearsal'],
+    excludes: ['Upvote', 'Tagged: life', 'Comments are closed']
+  },
+  {
+    fixture: 'substack.html',
+    url: 'https://letters.example.com/p/why-we-write',
+    recipe: 'Substack',
+    title: 'Why we write',
+    byline: 'Alex Writer',
+    date: '2024-03-03',
+    includes: ['Writing is thinking made visible', 'The second draft is for the reader'],
+    excludes: ['Thanks for reading Example Letters', 'Subscribe now']
+  },
+  {
+    fixture: 'medium.html',
+    url: 'https://medium.com/@ckirchoff/on-behalf-of-literally-429fab868ca8',
+    recipe: 'Medium',
+    title: 'On Behalf of “Literally”',
+    byline: 'Courtney Kirchoff',
+    date: '2015-02-24',
+    includes: ['You either are a “literally” abuser or know of one', 'Recommend this article to your literally abusers'],
+    excludes: ['Sign in / Sign up', 'Share on Twitter', 'Next story', 'Publish changes']
+  },
+  {
+    fixture: 'ghost.html',
+    url: 'https://calm.example.org/notes-on-calm-software/',
+    recipe: 'Ghost',
+    title: 'Notes on calm software',
+    byline: 'Riley Maker',
+    date: '2022-11-05',
+    includes: ['Calm software does its job', 'mostly a matter of restraint'],
+    excludes: ['Sign up for Calm Notes', 'for paying subscribers only']
+  },
+  {
+    fixture: 'wordpress.html',
+    url: 'https://fieldnotes.example/2021/06/12/a-long-walk/',
+    recipe: 'WordPress',
+    title: 'A long walk through the city',
+    byline: 'Morgan Lee',
+    date: '2021-06-12',
+    nextPageUrl: 'https://fieldnotes.example/2021/06/12/a-long-walk/2/',
+    includes: ['We started at the river before sunrise', 'allotments and quiet lanes'],
+    excludes: ['Share this', 'Another walk by the sea', 'Posted in Walks', 'thoughts on this walk']
+  },
+  {
+    fixture: 'vccircle.html',
+    url: 'https://www.vccircle.com/fintech-startup-raises-series-b',
+    recipe: 'VCCircle',
+    title: 'Fintech startup raises Series B led by global investors',
+    byline: 'Team VCC',
+    date: '2024-08-20',
+    includes: ['Bengaluru-based payments startup', 'three times its previous valuation'],
+    excludes: ['Share on Twitter', 'VCCircle newsletter', 'Another fintech deal']
+  }
+]
+
+// Every mismatch between the extracted article and what the case expects
+const check = (testCase: ExtractionCase): string[] => {
+  const html = readFileSync(join(FIXTURES_DIR, testCase.fixture), 'utf8')
+  const article = ContentExtractor.extract(html, testCase.url)
+  const failures: string[] = []
+
+  const expectEqual = (field: string, actual: unknown, expected: unknown) => {
+    if (actual !== expected) failures.push(`${field}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`)
+  }
+
+  expectEqual('recipe', article.recipe, testCase.recipe)
+  expectEqual('title', article.title, testCase.title)
+  expectEqual('byline', article.byline, testCase.byline)
+  if (testCase.date) expectEqual('date', article.publishedDate?.date.slice(0, 10), testCase.date)
+  expectEqual('nextPageUrl', article.nextPageUrl, testCase.nextPageUrl)
+
+  for (const text of testCase.includes) {
+    if (!article.textContent.includes(text)) failures.push(`content is missing "${text}"`)
+  }
+  for (const text of testCase.excludes) {
+    if (article.textContent.includes(text)) failures.push(`content still has "${text}"`)
+  }
+
+  return failures
+}
+
+let failed = 0
+for (const testCase of CASES) {
+  const failures = check(testCase)
+  if (failures.length === 0) {
+    console.log(`✅ ${testCase.recipe} (${testCase.fixture})`)
+    continue
+  }
+
+  failed++
+  console.log(`❌ ${testCase.recipe} (${testCase.fixture})`)
+  failures.forEach(failure => console.log(`   ${failure}`))
+}
+
+console.log(`\n${CASES.length - failed}/${CASES.length} extraction fixtures passed`)
+if (failed > 0) process.exit(1)
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { CollectionOrchestrator } from '@/lib/agents'
 
+// Long collections belong in a collection job (see /api/collection-jobs/run); this runs inline
+export const maxDuration = 300
+
 export async function POST(request: NextRequest) {
   const startTime = Date.now()
   
@@ -23,15 +26,7 @@ export async function POST(request: NextRequest) {
     console.log('🤖 API: Using CollectionOrchestrator with specialized agents...')
     const orchestrator = new CollectionOrchestrator()
     
-    const result = await Promise.race([
-      orchestrator.collectHistoricalArticles(url),
-      new Promise<never>((_, reject) => 
-        setTimeout(() => {
-          console.error('⏰ Historical collection timed out after 60 seconds')
-          reject(new Error('Historical collection timed out after 60 seconds'))
-        }, 60000)
-      )
-    ])
+    const result = await orchestrator.collectHistoricalArticles(url)
     
     console.log(`📊 API: Agent-based collection completed:`)
     console.log(`   Agent Used: ${result.agentUsed}`)
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DatabaseService } from '@/lib/database'
+import { createRouteSupabaseClient, getRouteUser } from '@/lib/supabase-server'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const POLL_INTERVAL_MS = 1000
+const STREAM_LIMIT_MS = 280 * 1000 // Stop before maxDuration; EventSource reconnects with Last-Event-ID and carries on
+const HEARTBEAT_INTERVAL_MS = 15000
+const EVENT_PAGE_SIZE = 500
+
+/**
+ * Server-Sent Events for one of the signed-in user's collection jobs. Relays the progress events
+ * the worker records ("agent" and "stored", with their row id as the event id) and ends with a
+ * "done" event carrying the finished job. Read-only: jobs are started through POST /run or the cron.
+ */
+export async function GET(request: NextRequest) {
+  const jobIdParam = request.nextUrl.searchParams.get('jobId')
+  const jobId = jobIdParam ? parseInt(jobIdParam, 10) : NaN
+
+  if (!jobId || jobId < 1) {
+    return NextResponse.json({ error: 'jobId must be a positive integer' }, { status: 400 })
+  }
+
+  const supabase = await createRouteSupabaseClient()
+  const user = await getRouteUser(supabase)
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  // The user's own client: RLS hides other users' jobs and events
+  const db = new DatabaseService(supabase)
+  const job = await db.getCollectionJob(jobId).catch(error => {
+    console.error('Error fetching collection job:', error)
+    return null
+  })
+  if (!job || job.user_id !== user.id) {
+    return NextResponse.json({ error: 'Collection job not found' }, { status: 404 })
+  }
+
+  // Sent by EventSource when it reconnects
+  let lastEventId = parseInt(request.headers.get('last-event-id') || '0', 10) || 0
+  const encoder = new TextEncoder()
+  let open = true
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (!open) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          open = false
+        }
+      }
+
+      // Comment lines keep proxies from closing the connection while the worker is quiet
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL_MS)
+
+      try {
+        const deadline = Date.now() + STREAM_LIMIT_MS
+        while (open && Date.now() < deadline) {
+          // Status first: the worker writes all events before finishing, so none can follow a finished status
+          const current = await db.getCollectionJob(jobId)
+          const events = await db.getCollectionJobEvents(jobId, lastEventId, EVENT_PAGE_SIZE)
+
+          for (const record of events) {
+            write(`id: ${record.id}\nevent: ${record.event.type}\ndata: ${JSON.stringify(record.event)}\n\n`)
+            lastEventId = record.id
+          }
+
+          // A full page means more are already waiting
+          if (events.length === EVENT_PAGE_SIZE) continue
+
+          if (!current || (current.status !== 'queued' && current.status !== 'running')) {
+            write(`event: done\ndata: ${JSON.stringify(current)}\n\n`)
+            break
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+        }
+      } catch (error) {
+        console.error('Error streaming collection job events:', error)
+      } finally {
+        clearInterval(heartbeat)
+        if (open) {
+          open = false
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      open = false
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CollectionJobWorker } from '@/lib/collection-jobs'
+import { DatabaseService } from '@/lib/database'
+import { createRouteSupabaseClient, getRouteUser } from '@/lib/supabase-server'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+// Starts one of the signed-in user's queued jobs right away instead of waiting for the cron worker
+export async function POST(request: NextRequest) {
+  try {
+    const { jobId } = await request.json()
+
+    if (!Number.isInteger(jobId) || jobId < 1) {
+      return NextResponse.json({ error: 'jobId must be a positive integer' }, { status: 400 })
+    }
+
+    const supabase = await createRouteSupabaseClient()
+    const user = await getRouteUser(supabase)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Read through the user's own client: RLS hides other users' jobs
+    const job = await new DatabaseService(supabase).getCollectionJob(jobId)
+    if (!job || job.user_id !== user.id) {
+      return NextResponse.json({ error: 'Collection job not found' }, { status: 404 })
+    }
+
+    const result = await CollectionJobWorker.runJob(job.id)
+
+    return NextResponse.json({
+      success: true,
+      started: !!result, // False when the job already finished or another worker holds it
+      ...result
+    })
+  } catch (error) {
+    console.error('Error running collection job:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run collection job' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ArticleEnricher } from '@/lib/article-enricher'
+import { authorizeCronRequest } from '@/lib/cron-auth'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+export async function GET(request: NextRequest) {
+  const unauthorized = authorizeCronRequest(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const limitParam = request.nextUrl.searchParams.get('limit')
+    const limit = limitParam ? parseInt(limitParam, 10) : undefined
+
+    if (limitParam && (!limit || limit < 1)) {
+      return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 })
+    }
+
+    const summary = await ArticleEnricher.enrichPending({ limit })
+
+    return NextResponse.json({
+      success: true,
+      ...summary
+    })
+  } catch (error) {
+    console.error('Error enriching articles:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to enrich articles' },
+      { status: 500 }
+    )
+  }
+}
@@ -19,7 +19,7 @@ export async function GET(request: NextRequest) {
     const response = await fetch(url, {
       headers: {
         'User-Agent': 'BlogHub RSS Reader/1.0',
-        'Accept': 'application/rss+xml, application/xml, text/xml, application/atom+xml',
+        'Accept': 'application/rss+xml, application/xml, text/xml, application/atom+xml, application/feed+json, application/json',
       },
       // Add timeout
       signal: AbortSignal.timeout(10000), // 10 seconds timeout
@@ -57,6 +57,27 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // JSON Feed (https://jsonfeed.org) - pass through as JSON
+    if (xmlContent.trim().startsWith('{')) {
+      try {
+        const jsonFeed = JSON.parse(xmlContent)
+        if (typeof jsonFeed.version === 'string' && jsonFeed.version.startsWith('https://jsonfeed.org/version/')) {
+          return new NextResponse(xmlContent, {
+            status: 200,
+            headers: {
+              'Content-Type': 'application/feed+json',
+              'Cache-Control': 'public, max-age=300', // Cache for 5 minutes
+              'Access-Control-Allow-Origin': '*',
+              'Access-Control-Allow-Methods': 'GET',
+              'Access-Control-Allow-Headers': 'Content-Type',
+            },
+          })
+        }
+      } catch {
+        // Not valid JSON, fall through to XML validation
+      }
+    }
+
     // Basic validation - check if it looks like XML
     if (!xmlContent.trim().startsWith('<')) {
       return NextResponse.json(
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { AGENT_USER_AGENT } from '@/lib/agents/agent-fetcher'
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,7 +21,7 @@ export async function GET(request: NextRequest) {
     // Fetch the webpage with proper headers
     const response = await fetch(url, {
       headers: {
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'User-Agent': AGENT_USER_AGENT,
         'Accept': isSitemap 
           ? 'application/xml, text/xml, */*; q=0.1' 
           : 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
@@ -32,8 +33,20 @@ export async function GET(request: NextRequest) {
       }
     })
 
+    // Pass the upstream status through, so callers can tell a 404 from a 429 and honor Retry-After
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      const retryAfter = response.headers.get('retry-after')
+      return NextResponse.json(
+        { error: `HTTP ${response.status}: ${response.statusText}` },
+        {
+          status: response.status,
+          headers: {
+            ...(retryAfter ? { 'Retry-After': retryAfter } : {}),
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Expose-Headers': 'Retry-After'
+          }
+        }
+      )
     }
 
     const content = await response.text()
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DatabaseService } from '@/lib/database'
+import { createRouteSupabaseClient, getRouteUser } from '@/lib/supabase-server'
+
+const MAX_LIMIT = 100
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createRouteSupabaseClient()
+    const user = await getRouteUser(supabase)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get('q')?.trim()
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Search query (q) is required' },
+        { status: 400 }
+      )
+    }
+
+    const source = searchParams.get('source')
+    const sourceId = source ? Number(source) : undefined
+    if (sourceId !== undefined && !Number.isInteger(sourceId)) {
+      return NextResponse.json(
+        { error: 'source must be a numeric source id' },
+        { status: 400 }
+      )
+    }
+
+    const from = searchParams.get('from') || undefined
+    const to = searchParams.get('to') || undefined
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return NextResponse.json(
+        { error: 'from/to must be valid dates' },
+        { status: 400 }
+      )
+    }
+
+    const limit = Math.min(Number(searchParams.get('limit')) || 50, MAX_LIMIT)
+    const offset = Math.max(Number(searchParams.get('offset')) || 0, 0)
+
+    // The user's own client: search_articles runs as the caller, so RLS limits it to their articles
+    const db = new DatabaseService(supabase)
+    const results = await db.searchArticles(query, {
+      sourceId,
+      author: searchParams.get('author') || undefined,
+      from,
+      to,
+      limit,
+      offset
+    })
+
+    return NextResponse.json({ query, results })
+  } catch (error) {
+    console.error('Error searching articles:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to search articles' },
+      { status: 500 }
+    )
+  }
+}
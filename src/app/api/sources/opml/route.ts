@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DatabaseService } from '@/lib/database'
+import { OPMLService } from '@/lib/opml'
+import { createRouteSupabaseClient, getRouteUser } from '@/lib/supabase-server'
+
+// The signed-in user's database client, or null for anonymous callers
+const getUserDatabase = async (): Promise<DatabaseService | null> => {
+  const supabase = await createRouteSupabaseClient()
+  const user = await getRouteUser(supabase)
+  return user ? new DatabaseService(supabase) : null
+}
+
+export async function GET() {
+  try {
+    const db = await getUserDatabase()
+    if (!db) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const opml = await OPMLService.exportOPML(db)
+
+    return new NextResponse(opml, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/x-opml; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="bloghub-subscriptions.opml"'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting OPML:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export OPML' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const db = await getUserDatabase()
+    if (!db) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { opml } = await request.json()
+
+    if (!opml || typeof opml !== 'string') {
+      return NextResponse.json(
+        { error: 'OPML content is required' },
+        { status: 400 }
+      )
+    }
+
+    const results = await OPMLService.importOPML(opml, undefined, db)
+    const imported = results.filter(result => result.success).length
+
+    return NextResponse.json({
+      success: imported > 0,
+      imported,
+      failed: results.length - imported,
+      results
+    })
+  } catch (error) {
+    console.error('Error importing OPML:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import OPML' },
+      { status: 500 }
+    )
+  }
+}
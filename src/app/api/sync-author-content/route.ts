@@ -48,7 +48,11 @@ export async function POST(request: NextRequest) {
     console.log(`🔄 Syncing content for ${author.name} from ${author.primary_source_url}`)
 
     // Use our existing agent system to collect articles
-    const orchestrator = new CollectionOrchestrator()
+    const agentSettings = await db.getAgentSettings(author.user_id).catch(error => {
+      console.error('Error loading agent settings:', error)
+      return null
+    })
+    const orchestrator = new CollectionOrchestrator(agentSettings || {})
     const collectionResult = await orchestrator.collectHistoricalArticles(author.primary_source_url)
 
     if (!collectionResult.success) {
@@ -144,6 +148,9 @@ export async function POST(request: NextRequest) {
               url: collectedArticle.url,
               author: collectedArticle.author,
               published_at: collectedArticle.publishedDate,
+              published_at_source: collectedArticle.publishedDateSource,
+              published_at_confidence: collectedArticle.publishedDateConfidence,
+              needs_enrichment: !!collectedArticle.needsEnrichment,
               image_url: (collectedArticle as any).imageUrl,
               categories: [],
               read_time: readTime,
@@ -1,11 +1,18 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Button } from '@/components/ui/button'
-import { Plus, Globe, Trash2, RefreshCw, CheckCircle, XCircle, Loader2 } from 'lucide-react'
+import { Plus, Globe, Trash2, RefreshCw, CheckCircle, XCircle, Loader2, Upload, Download, Folder as FolderIcon, Tag, Filter, ScanText, Bot } from 'lucide-react'
 import { RSSParser } from '@/lib/rss-parser'
-import { DatabaseService, Source } from '@/lib/database'
+import { DatabaseService, Source, Folder, CollectionJob, CollectionJobEvent } from '@/lib/database'
+import { FolderTree } from '@/lib/folders'
 import { CollectionOrchestrator } from '@/lib/agents'
+import { CollectionProfiles } from '@/lib/collection-profile'
+import { OPMLService, type OPMLImportProgress } from '@/lib/opml'
+import { PublishDateResolver } from '@/lib/publish-date'
+import { ArticleRulesManager } from '@/components/article-rules-manager'
+import { ExtractionRecipesManager } from '@/components/extraction-recipes-manager'
+import { AgentSettingsManager } from '@/components/agent-settings-manager'
 
 // Helper function to estimate read time
 function estimateReadTime(content: string): string {
@@ -15,26 +22,204 @@ function estimateReadTime(content: string): string {
   return `${minutes} min read`
 }
 
+const JOB_POLL_INTERVAL_MS = 3000
+
+const isActiveJob = (job: CollectionJob) => job.status === 'queued' || job.status === 'running'
+
+// One line of a job's live log: a strategy an agent ran and what it has turned up so far
+interface StrategyLogEntry {
+  agent: string
+  strategy: string
+  pages: number
+  articlesFound: number
+  errors: number
+  lastError?: string
+}
+
+interface CollectionJobProgress {
+  strategies: StrategyLogEntry[]
+  articlesFound: number // Found so far by the running agent, before deduplication
+  stored?: number
+  total?: number
+}
+
+const MAX_LOG_ENTRIES = 6
+
+const EMPTY_JOB_PROGRESS: CollectionJobProgress = { strategies: [], articlesFound: 0 }
+
+// Fold a streamed job event into the job's live progress
+const applyJobEvent = (progress: CollectionJobProgress, jobEvent: CollectionJobEvent): CollectionJobProgress => {
+  if (jobEvent.type === 'stored') {
+    return { ...progress, stored: jobEvent.stored, total: jobEvent.total }
+  }
+
+  const event = jobEvent.event
+  if (event.type === 'strategy-started') {
+    const entry = { agent: event.agent, strategy: event.strategy || 'Unknown', pages: 0, articlesFound: 0, errors: 0 }
+    return { ...progress, strategies: [...progress.strategies, entry] }
+  }
+
+  // Other events update the latest entry for the strategy they fired in; ones outside a strategy (detection) are dropped
+  let index = progress.strategies.length - 1
+  while (index >= 0 && (progress.strategies[index].agent !== event.agent || progress.strategies[index].strategy !== event.strategy)) {
+    index--
+  }
+  if (index < 0) return progress
+
+  const entry = { ...progress.strategies[index] }
+  let articlesFound = progress.articlesFound
+  if (event.type === 'page-fetched') {
+    entry.pages = event.page || entry.pages + 1
+  } else if (event.type === 'articles-found') {
+    entry.articlesFound += event.articlesFound || 0
+    articlesFound = event.totalArticlesFound ?? articlesFound + (event.articlesFound || 0)
+  } else {
+    entry.errors++
+    entry.lastError = event.message
+  }
+
+  const strategies = [...progress.strategies]
+  strategies[index] = entry
+  return { ...progress, strategies, articlesFound }
+}
+
 export default function ConnectPage() {
   const [sources, setSources] = useState<Source[]>([])
+  const [folders, setFolders] = useState<Folder[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [showAddModal, setShowAddModal] = useState(false)
   const [newUrl, setNewUrl] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
+  const [showImportModal, setShowImportModal] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [importProgress, setImportProgress] = useState<OPMLImportProgress | null>(null)
+  const [showRulesModal, setShowRulesModal] = useState(false)
+  const [showRecipesModal, setShowRecipesModal] = useState(false)
+  const [showAgentsModal, setShowAgentsModal] = useState(false)
+  const [collectionJobs, setCollectionJobs] = useState<Record<number, CollectionJob>>({}) // By source id
+  const [jobProgress, setJobProgress] = useState<Record<number, CollectionJobProgress>>({}) // By source id
+  const jobStreams = useRef(new Map<number, EventSource>()) // By job id
+  const opmlInputRef = useRef<HTMLInputElement>(null)
   const db = new DatabaseService()
 
-  // Load sources on component mount
+  // Load sources (and collection jobs still in progress) on component mount
   useEffect(() => {
     loadSources()
+    loadCollectionJobs()
+  }, [])
+
+  // Poll queued/running collection jobs until they finish
+  useEffect(() => {
+    const activeJobs = Object.values(collectionJobs).filter(isActiveJob)
+    if (activeJobs.length === 0) return
+
+    const timer = setTimeout(async () => {
+      const polledJobs = await Promise.all(activeJobs.map(job =>
+        db.getCollectionJob(job.id).catch(error => {
+          console.error('Error polling collection job:', error)
+          return job
+        })
+      ))
+
+      const next: Record<number, CollectionJob> = {}
+      for (const job of polledJobs) {
+        if (!job) continue
+        if (isActiveJob(job)) {
+          next[job.source_id] = job
+        } else {
+          handleCollectionJobFinished(job)
+        }
+      }
+      setCollectionJobs(next)
+    }, JOB_POLL_INTERVAL_MS)
+
+    return () => clearTimeout(timer)
+  }, [collectionJobs])
+
+  // Stream live progress of active jobs (polling above still decides when they're finished)
+  useEffect(() => {
+    const activeJobs = Object.values(collectionJobs).filter(isActiveJob)
+    const activeJobIds = new Set(activeJobs.map(job => job.id))
+
+    for (const job of activeJobs) {
+      if (!jobStreams.current.has(job.id)) openJobStream(job)
+    }
+    for (const [jobId, stream] of jobStreams.current) {
+      if (activeJobIds.has(jobId)) continue
+      stream.close()
+      jobStreams.current.delete(jobId)
+    }
+  }, [collectionJobs])
+
+  useEffect(() => {
+    const streams = jobStreams.current
+    return () => streams.forEach(stream => stream.close())
   }, [])
 
+  const loadCollectionJobs = async () => {
+    try {
+      const jobs = await db.getActiveCollectionJobs()
+      setCollectionJobs(Object.fromEntries(jobs.map(job => [job.source_id, job])))
+    } catch (error) {
+      console.error('Error loading collection jobs:', error)
+    }
+  }
+
+  // Replays the job's recorded progress, then follows it live; reconnects resume from the last event id
+  const openJobStream = (job: CollectionJob) => {
+    const stream = new EventSource(`/api/collection-jobs/events?jobId=${job.id}`)
+    jobStreams.current.set(job.id, stream)
+    setJobProgress(current => ({ ...current, [job.source_id]: EMPTY_JOB_PROGRESS }))
+
+    const handleEvent = (message: MessageEvent) => {
+      const jobEvent: CollectionJobEvent = JSON.parse(message.data)
+      setJobProgress(current => ({
+        ...current,
+        [job.source_id]: applyJobEvent(current[job.source_id] || EMPTY_JOB_PROGRESS, jobEvent)
+      }))
+    }
+    stream.addEventListener('agent', handleEvent)
+    stream.addEventListener('stored', handleEvent)
+
+    // Closing stops EventSource from reconnecting; the stream stays in the map until polling sees the job finish
+    stream.addEventListener('done', () => stream.close())
+  }
+
+  const handleCollectionJobFinished = (job: CollectionJob) => {
+    const sourceName = sources.find(source => source.id === job.source_id)?.name || 'this source'
+
+    if (job.status === 'succeeded' && job.result) {
+      setSuccess(`🏛️ Added ${job.result.counts.inserted} historical articles to ${sourceName} using ${job.result.agentUsed}!`)
+      setTimeout(() => setSuccess(''), 3000)
+    } else {
+      setError(`Failed to collect historical articles for ${sourceName}: ${job.error || 'Unknown error'}`)
+      setTimeout(() => setError(''), 5000)
+    }
+
+    // Article counts and last-fetched times changed server-side
+    loadSources()
+  }
+
+  // Collection orchestrator configured with the user's agent settings (registry defaults if none saved)
+  const createOrchestrator = async () => {
+    const settings = await db.getAgentSettings().catch(error => {
+      console.error('Error loading agent settings:', error)
+      return null
+    })
+    return new CollectionOrchestrator(settings || {})
+  }
+
   const loadSources = async () => {
     try {
       setIsLoading(true)
-      const fetchedSources = await db.getSources()
+      const [fetchedSources, fetchedFolders] = await Promise.all([
+        db.getSources(),
+        db.getFolders()
+      ])
       setSources(fetchedSources)
+      setFolders(fetchedFolders)
     } catch (error) {
       console.error('Error loading sources:', error)
       setError('Failed to load sources. Please refresh the page.')
@@ -87,7 +272,7 @@ export default function ConnectPage() {
       // 🚀 UNIFIED: Use agent-based collection system for complete content
       console.log(`🤖 Starting unified agent-based collection for ${newSource.name}...`)
       
-      const orchestrator = new CollectionOrchestrator()
+      const orchestrator = await createOrchestrator()
       const collectionResult = await orchestrator.collectHistoricalArticles(newUrl.trim())
       
       let totalArticles = 0
@@ -105,6 +290,9 @@ export default function ConnectPage() {
            url: article.url,
            author: article.author || newSource.name,
            published_at: article.publishedDate,
+           published_at_source: article.publishedDateSource,
+           published_at_confidence: article.publishedDateConfidence,
+           needs_enrichment: !!article.needsEnrichment,
            image_url: article.imageUrl,
            categories: [],
            read_time: estimateReadTime(article.content || article.description || ''),
@@ -125,7 +313,8 @@ export default function ConnectPage() {
         
         // Update source with actual article count
         await db.updateSource(newSource.id, {
-          articles_count: totalArticles
+          articles_count: totalArticles,
+          ...CollectionProfiles.toSourceFields(collectionResult.profile)
         })
         
         collectionInfo = ` using ${collectionResult.agentUsed} agent`
@@ -143,7 +332,7 @@ export default function ConnectPage() {
              content: item.description, // RSS content (limited)
              url: item.link,
              author: item.author,
-             published_at: item.pubDate ? new Date(item.pubDate).toISOString() : undefined,
+             ...PublishDateResolver.toColumns(PublishDateResolver.fromFeed(item.pubDate)),
              image_url: item.enclosure?.url || undefined,
              categories: item.categories || [],
              read_time: estimateReadTime(item.description || ''),
@@ -207,8 +396,17 @@ export default function ConnectPage() {
       console.log(`🔄 Refreshing ${sourceToRefresh.name} using unified agent system...`)
       
       // 🚀 UNIFIED: Use agent system for refresh too
-      const orchestrator = new CollectionOrchestrator()
-      const collectionResult = await orchestrator.collectHistoricalArticles(sourceToRefresh.url)
+      const orchestrator = await createOrchestrator()
+      // Incremental: agents stop once they reach articles this source already has
+      const known = await db.getKnownArticles(sourceId).catch(error => {
+        console.error('Error loading known articles:', error)
+        return undefined
+      })
+      const collectionResult = await orchestrator.collectHistoricalArticles(
+        sourceToRefresh.url,
+        CollectionProfiles.fromSource(sourceToRefresh),
+        known
+      )
       
       let newArticlesCount = 0
       
@@ -222,6 +420,9 @@ export default function ConnectPage() {
            url: article.url,
            author: article.author || sourceToRefresh.name,
            published_at: article.publishedDate,
+           published_at_source: article.publishedDateSource,
+           published_at_confidence: article.publishedDateConfidence,
+           needs_enrichment: !!article.needsEnrichment,
            image_url: article.imageUrl,
            categories: [],
            read_time: estimateReadTime(article.content || article.description || ''),
@@ -253,7 +454,7 @@ export default function ConnectPage() {
            content: item.description,
            url: item.link,
            author: item.author,
-           published_at: item.pubDate ? new Date(item.pubDate).toISOString() : undefined,
+           ...PublishDateResolver.toColumns(PublishDateResolver.fromFeed(item.pubDate)),
            image_url: item.enclosure?.url || undefined,
            categories: item.categories || [],
            read_time: estimateReadTime(item.description || ''),
@@ -275,7 +476,8 @@ export default function ConnectPage() {
       // Update the source
       const updatedSource = await db.updateSource(sourceId, {
         status: 'active',
-        last_fetched_at: new Date().toISOString()
+        last_fetched_at: new Date().toISOString(),
+        ...CollectionProfiles.toSourceFields(collectionResult.profile)
       })
       
       setSources(sources.map(source => 
@@ -304,97 +506,23 @@ export default function ConnectPage() {
     const source = sources.find(s => s.id === sourceId)
     if (!source) return
 
-    // Update status to show loading
-    setSources(sources.map(s => 
-      s.id === sourceId 
-        ? { ...s, status: 'loading' as any }
-        : s
-    ))
-
     try {
-      console.log(`🏛️ Enhanced historical collection for ${source.name} using agent system...`)
-      
-      // 🚀 UNIFIED: Use agent system for historical collection
-      const orchestrator = new CollectionOrchestrator()
-      const collectionResult = await orchestrator.collectHistoricalArticles(source.url)
-      
-      if (collectionResult.success && collectionResult.articles.length > 0) {
-                 // Convert to database format with complete content
-         const historicalDbArticles = collectionResult.articles.map((article: any) => ({
-           source_id: sourceId,
-           title: article.title,
-           description: article.description || `Historical article from ${article.author || 'unknown author'}`,
-           content: article.content || article.description,
-           url: article.url,
-           author: article.author || source.name,
-           published_at: article.publishedDate,
-           image_url: article.imageUrl,
-           categories: [],
-           read_time: estimateReadTime(article.content || article.description || ''),
-           is_read: false,
-           is_bookmarked: false,
-           is_enhanced: !!article.content,
-           content_length: (article.content || '').length,
-           ai_analysis: {},
-           key_quotes: [],
-           main_themes: [],
-           contradicts_previous: false,
-           related_article_ids: []
-         }))
-        
-        // Store articles (duplicates handled by constraints)
-        const storedArticles = await db.addArticles(historicalDbArticles)
-        
-        // Refresh sources to get updated article count from database
-        await loadSources()
-        
-        // Update source status
-        const updatedSource = await db.updateSource(sourceId, {
-          status: 'active',
-          last_fetched_at: new Date().toISOString()
-        })
-        
-        setSources(sources.map(s => 
-          s.id === sourceId ? updatedSource : s
-        ))
-        
-        setSuccess(`🏛️ Added ${storedArticles.length} complete historical articles using ${collectionResult.agentUsed}!`)
-        setTimeout(() => setSuccess(''), 3000)
-        
-      } else {
-        // No historical articles found
-        const updatedSource = await db.updateSource(sourceId, {
-          status: 'active',
-          last_fetched_at: new Date().toISOString()
-        })
-        
-        setSources(sources.map(s => 
-          s.id === sourceId ? updatedSource : s
-        ))
-        
-        setError(`No additional historical articles found for ${source.name}`)
-        setTimeout(() => setError(''), 3000)
-      }
-      
+      console.log(`🏛️ Queueing historical collection for ${source.name}...`)
+
+      // Runs server-side as a background job; the effects above stream its progress and track it to completion
+      const job = await db.addCollectionJob(sourceId)
+      setCollectionJobs(current => ({ ...current, [sourceId]: job }))
+
+      // Start it now instead of waiting for the cron worker, which still picks it up if this request dies
+      fetch('/api/collection-jobs/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId: job.id })
+      }).catch(error => console.error('Error starting collection job:', error))
+
     } catch (error) {
       console.error('Historical collection error:', error)
-      
-      // Reset status to active
-      const errorSource = await db.updateSource(sourceId, { 
-        status: 'active',
-        last_fetched_at: new Date().toISOString()
-      })
-      setSources(sources.map(s => 
-        s.id === sourceId ? errorSource : s
-      ))
-      
-      // Better error messaging
-      let errorMessage = 'Unknown error'
-      if (error instanceof Error) {
-        errorMessage = error.message
-      }
-      
-      setError(`Failed to collect historical articles: ${errorMessage}`)
+      setError(`Failed to queue historical collection: ${error instanceof Error ? error.message : 'Unknown error'}`)
       setTimeout(() => setError(''), 5000)
     }
   }
@@ -409,6 +537,71 @@ export default function ConnectPage() {
     }
   }
 
+  const handleMoveToFolder = async (sourceId: number, folderId: number | null) => {
+    try {
+      const updatedSource = await db.moveSourceToFolder(sourceId, folderId)
+      setSources(sources.map(source => source.id === sourceId ? updatedSource : source))
+    } catch (error) {
+      console.error('Error moving source:', error)
+      setError('Failed to move source. Please try again.')
+    }
+  }
+
+  const handleTagsChange = async (sourceId: number, value: string) => {
+    const source = sources.find(s => s.id === sourceId)
+    const tags = value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)
+    if (tags.join(',') === (source?.tags || []).join(',')) return
+
+    try {
+      const updatedSource = await db.setSourceTags(sourceId, tags)
+      setSources(sources.map(s => s.id === sourceId ? updatedSource : s))
+    } catch (error) {
+      console.error('Error updating tags:', error)
+      setError('Failed to update tags. Please try again.')
+    }
+  }
+
+  // Folder options labelled with their full path, e.g. "Tech / AI"
+  const folderOptions = folders
+    .map(folder => ({ id: folder.id, label: FolderTree.getPath(folder.id, folders).join(' / ') }))
+    .sort((a, b) => a.label.localeCompare(b.label))
+
+  const handleImportOPML = async (file: File) => {
+    setShowImportModal(true)
+    setImporting(true)
+    setImportProgress(null)
+    setError('')
+
+    try {
+      const opml = await file.text()
+      await OPMLService.importOPML(opml, (progress) => {
+        setImportProgress(progress)
+      })
+      await loadSources()
+    } catch (error) {
+      console.error('Error importing OPML:', error)
+      setError(error instanceof Error ? error.message : 'Failed to import OPML file')
+    } finally {
+      setImporting(false)
+      if (opmlInputRef.current) {
+        opmlInputRef.current.value = ''
+      }
+    }
+  }
+
+  const handleExportOPML = () => {
+    const opml = OPMLService.generate(sources, folders)
+    const blob = new Blob([opml], { type: 'text/x-opml' })
+    const downloadUrl = URL.createObjectURL(blob)
+
+    const link = document.createElement('a')
+    link.href = downloadUrl
+    link.download = 'bloghub-subscriptions.opml'
+    link.click()
+
+    URL.revokeObjectURL(downloadUrl)
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'active':
@@ -422,6 +615,18 @@ export default function ConnectPage() {
     }
   }
 
+  const getJobStatusText = (job: CollectionJob) => {
+    if (job.status === 'queued') {
+      return job.attempts > 0 ? `Retrying collection (attempt ${job.attempts + 1})...` : 'Collection queued...'
+    }
+
+    const progress = jobProgress[job.source_id]
+    if (progress?.total) {
+      return `Storing articles (${progress.stored} of ${progress.total})...`
+    }
+    return progress?.articlesFound ? `Collecting history... ${progress.articlesFound} articles found` : 'Collecting history...'
+  }
+
   const getStatusText = (status: string) => {
     switch (status) {
       case 'active':
@@ -447,15 +652,69 @@ export default function ConnectPage() {
                 Manage your blog sources and RSS feeds
               </p>
             </div>
-            <Button onClick={() => {
-              setShowAddModal(true)
-              setError('')
-              setSuccess('')
-              setNewUrl('')
-            }}>
-              <Plus className="w-4 h-4 mr-2" />
-              Add Source
-            </Button>
+            <div className="flex items-center space-x-2">
+              <input
+                ref={opmlInputRef}
+                type="file"
+                accept=".opml,.xml,text/x-opml,text/xml"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleImportOPML(file)
+                }}
+              />
+              <Button
+                variant="outline"
+                onClick={() => opmlInputRef.current?.click()}
+                disabled={importing}
+                title="Import subscriptions from an OPML file"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import OPML
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleExportOPML}
+                disabled={sources.length === 0}
+                title="Export your sources as an OPML file"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export OPML
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowRulesModal(true)}
+                title="Mute, auto-read, bookmark or tag new articles"
+              >
+                <Filter className="w-4 h-4 mr-2" />
+                Rules
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowRecipesModal(true)}
+                title="Tell the reader where the article body is on sites it can't extract"
+              >
+                <ScanText className="w-4 h-4 mr-2" />
+                Recipes
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowAgentsModal(true)}
+                title="Choose which collection agents run and which handles each domain"
+              >
+                <Bot className="w-4 h-4 mr-2" />
+                Agents
+              </Button>
+              <Button onClick={() => {
+                setShowAddModal(true)
+                setError('')
+                setSuccess('')
+                setNewUrl('')
+              }}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Source
+              </Button>
+            </div>
           </div>
         </div>
       </div>
@@ -480,9 +739,9 @@ export default function ConnectPage() {
                       <Globe className="w-5 h-5 text-muted-foreground" />
                       <h3 className="font-semibold text-lg">{source.name}</h3>
                       <div className="flex items-center space-x-1">
-                        {getStatusIcon(source.status)}
+                        {getStatusIcon(collectionJobs[source.id] ? 'loading' : source.status)}
                         <span className="text-sm text-muted-foreground">
-                          {getStatusText(source.status)}
+                          {collectionJobs[source.id] ? getJobStatusText(collectionJobs[source.id]) : getStatusText(source.status)}
                         </span>
                       </div>
                     </div>
@@ -498,6 +757,50 @@ export default function ConnectPage() {
                       <span>{source.articles_count} articles</span>
                       <span>Last updated {source.last_fetched_at ? new Date(source.last_fetched_at).toLocaleString() : 'Never'}</span>
                     </div>
+
+                    <div className="flex items-center space-x-4 mt-3 text-sm">
+                      <label className="flex items-center space-x-2 text-muted-foreground">
+                        <FolderIcon className="w-4 h-4" />
+                        <select
+                          value={source.folder_id ?? ''}
+                          onChange={(e) => handleMoveToFolder(source.id, e.target.value ? Number(e.target.value) : null)}
+                          className="py-1 px-2 bg-background border border-border rounded-md text-foreground"
+                        >
+                          <option value="">Unfiled</option>
+                          {folderOptions.map(option => (
+                            <option key={option.id} value={option.id}>{option.label}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="flex flex-1 items-center space-x-2 text-muted-foreground">
+                        <Tag className="w-4 h-4" />
+                        <input
+                          key={(source.tags || []).join(',')}
+                          defaultValue={(source.tags || []).join(', ')}
+                          onBlur={(e) => handleTagsChange(source.id, e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur()
+                          }}
+                          placeholder="Add tags, separated by commas"
+                          className="flex-1 max-w-sm py-1 px-2 bg-background border border-border rounded-md text-foreground"
+                        />
+                      </label>
+                    </div>
+
+                    {/* Live log of the running collection, one line per strategy */}
+                    {collectionJobs[source.id] && !!jobProgress[source.id]?.strategies.length && (
+                      <div className="mt-3 p-3 bg-muted/50 rounded-lg space-y-1 text-xs text-muted-foreground">
+                        {jobProgress[source.id].strategies.slice(-MAX_LOG_ENTRIES).map((entry, index) => (
+                          <div key={index} className="flex items-center justify-between">
+                            <span className="truncate">{entry.agent} · {entry.strategy}</span>
+                            <span className="ml-4 shrink-0" title={entry.lastError}>
+                              {entry.pages} pages · {entry.articlesFound} articles
+                              {entry.errors > 0 && <span className="text-red-500"> · {entry.errors} errors</span>}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   
                   <div className="flex items-center space-x-2 ml-4">
@@ -513,6 +816,7 @@ export default function ConnectPage() {
                       variant="outline"
                       size="sm"
                       onClick={() => handleCollectHistorical(source.id)}
+                      disabled={!!collectionJobs[source.id]}
                       title="Collect complete historical archive"
                       className="text-purple-600 hover:text-purple-700"
                     >
@@ -673,6 +977,113 @@ export default function ConnectPage() {
           </div>
         </div>
       )}
+
+      {/* Article Rules Modal */}
+      {showRulesModal && (
+        <ArticleRulesManager sources={sources} onClose={() => setShowRulesModal(false)} />
+      )}
+
+      {/* Extraction Recipes Modal */}
+      {showRecipesModal && (
+        <ExtractionRecipesManager onClose={() => setShowRecipesModal(false)} />
+      )}
+
+      {/* Agent Settings Modal */}
+      {showAgentsModal && (
+        <AgentSettingsManager onClose={() => setShowAgentsModal(false)} />
+      )}
+
+      {/* OPML Import Modal */}
+      {showImportModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-background rounded-xl p-6 max-w-lg w-full mx-4">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-semibold">Import OPML</h2>
+              <button
+                onClick={() => {
+                  if (!importing) {
+                    setShowImportModal(false)
+                    setImportProgress(null)
+                    setError('')
+                  }
+                }}
+                className="text-muted-foreground hover:text-foreground text-xl"
+                disabled={importing}
+              >
+                ×
+              </button>
+            </div>
+
+            {importProgress && (
+              <div className="mb-4">
+                <div className="flex justify-between text-sm text-muted-foreground mb-2">
+                  <span>{importing ? `Importing ${importProgress.currentFeed}` : 'Import complete'}</span>
+                  <span>{importProgress.current}/{importProgress.total}</span>
+                </div>
+                <div className="w-full bg-muted rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${importProgress.total > 0 ? (importProgress.results.length / importProgress.total) * 100 : 0}%` }}
+                  ></div>
+                </div>
+              </div>
+            )}
+
+            {importing && !importProgress && (
+              <div className="flex items-center space-x-2 text-sm text-muted-foreground mb-4">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>Reading OPML file...</span>
+              </div>
+            )}
+
+            {/* Per-feed results */}
+            {importProgress && importProgress.results.length > 0 && (
+              <div className="max-h-64 overflow-y-auto space-y-2 mb-4">
+                {importProgress.results.map((result) => (
+                  <div key={result.outline.xmlUrl} className="flex items-start space-x-2 text-sm">
+                    {result.success ? (
+                      <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 shrink-0" />
+                    ) : (
+                      <XCircle className="w-4 h-4 text-red-500 mt-0.5 shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {result.outline.folder && (
+                          <span className="text-muted-foreground">{result.outline.folder.join(' / ')} / </span>
+                        )}
+                        {result.source?.name || result.outline.title}
+                      </p>
+                      {result.error && (
+                        <p className="text-xs text-red-600 dark:text-red-400">{result.error}</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Error Message */}
+            {error && (
+              <div className="p-3 mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+              </div>
+            )}
+
+            <Button
+              onClick={() => {
+                setShowImportModal(false)
+                setImportProgress(null)
+                setError('')
+              }}
+              variant="outline"
+              className="w-full"
+              disabled={importing}
+            >
+              {importing ? 'Importing...' : 'Close'}
+            </Button>
+          </div>
+        </div>
+      )}
     </div>
   )
 } 
\ No newline at end of file
@@ -1,10 +1,30 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef, useCallback, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { Button } from '@/components/ui/button'
-import { Clock, ExternalLink, Loader2 } from 'lucide-react'
+import { Bookmark as SaveIcon, Clock, ExternalLink, Folder as FolderIcon, Loader2, Search, X } from 'lucide-react'
 import { ArticleReader } from '@/components/article-reader'
-import { DatabaseService, Source, ArticleWithSource } from '@/lib/database'
+import { SmartFeedEditor } from '@/components/smart-feed-editor'
+import {
+  DatabaseService,
+  Source,
+  Folder,
+  SmartFeed,
+  SmartFeedRules,
+  ArticleWithSource,
+  ArticleSummary,
+  ArticleSearchResult,
+  ArticleCursor,
+  ArticleListFilters,
+  ArticleDuplicate
+} from '@/lib/database'
+import { FolderTree } from '@/lib/folders'
+
+type DiscoverArticle = ArticleSummary | ArticleSearchResult
+type ReadFilter = 'all' | 'unread' | 'read' | 'bookmarked'
+
+const PAGE_SIZE = 24
 
 // Color mapping for sources (can be randomized or configured)
 const sourceColors = [
@@ -40,29 +60,149 @@ const formatTimeAgo = (dateString: string) => {
   }
 }
 
+// Render search highlights (<mark>...</mark> from ts_headline) without injecting HTML
+const renderHighlighted = (text: string) => {
+  return text.split(/<mark>(.*?)<\/mark>/g).map((part, index) =>
+    index % 2 === 1
+      ? <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 text-inherit rounded-sm px-0.5">{part}</mark>
+      : part
+  )
+}
+
+const isSearchResult = (article: DiscoverArticle): article is ArticleSearchResult => {
+  return 'snippet' in article
+}
+
 export default function DiscoverPage() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <Suspense fallback={null}>
+      <DiscoverContent />
+    </Suspense>
+  )
+}
+
+function DiscoverContent() {
   const [sources, setSources] = useState<Source[]>([])
-  const [articles, setArticles] = useState<ArticleWithSource[]>([])
+  const [folders, setFolders] = useState<Folder[]>([])
+  const [articles, setArticles] = useState<ArticleSummary[]>([])
+  const [nextCursor, setNextCursor] = useState<ArticleCursor | null>(null)
+  const [duplicates, setDuplicates] = useState<Record<number, ArticleDuplicate[]>>({})
+  const [totalCount, setTotalCount] = useState(0)
+  const [sourceCounts, setSourceCounts] = useState<Record<number, number>>({})
+  const [unreadCounts, setUnreadCounts] = useState<Record<number, number>>({})
+  const [authors, setAuthors] = useState<string[]>([])
   const [isLoading, setIsLoading] = useState(true)
-  const [selectedSource, setSelectedSource] = useState<string>('all')
+  const [isLoadingPage, setIsLoadingPage] = useState(false)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [selectedAuthor, setSelectedAuthor] = useState<string>('all')
+  const [readFilter, setReadFilter] = useState<ReadFilter>('all')
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchResults, setSearchResults] = useState<ArticleSearchResult[] | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [searchError, setSearchError] = useState<string | null>(null)
   const [selectedArticle, setSelectedArticle] = useState<ArticleWithSource | null>(null)
   const [isReaderOpen, setIsReaderOpen] = useState(false)
+  const [smartFeed, setSmartFeed] = useState<SmartFeed | null>(null)
+  const [feedFilters, setFeedFilters] = useState<ArticleListFilters | null>(null)
+  const [isFeedLoading, setIsFeedLoading] = useState(false)
+  const [showSaveFeed, setShowSaveFeed] = useState(false)
+  const scrollContainerRef = useRef<HTMLDivElement>(null)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+  const pageRequestRef = useRef(0)
+  const router = useRouter()
+  const searchParams = useSearchParams()
   const db = new DatabaseService()
 
+  // Feed/folder/source selection lives in the URL so the sidebar can drive it
+  const selectedFeedId = Number(searchParams.get('feed')) || null
+  const selectedFolder = Number(searchParams.get('folder')) || null
+  const selectedSource: number | 'all' = Number(searchParams.get('source')) || 'all'
+  const folderSourceIds = selectedFolder ? FolderTree.getSourceIds(selectedFolder, folders, sources) : undefined
+
+  const uiFilters: ArticleListFilters = {
+    sourceId: selectedSource === 'all' ? undefined : selectedSource,
+    sourceIds: selectedSource === 'all' ? folderSourceIds : undefined,
+    author: selectedAuthor === 'all' ? undefined : selectedAuthor,
+    isRead: readFilter === 'read' ? true : readFilter === 'unread' ? false : undefined,
+    isBookmarked: readFilter === 'bookmarked' ? true : undefined,
+    from: dateFrom ? new Date(`${dateFrom}T00:00:00`).toISOString() : undefined,
+    to: dateTo ? new Date(`${dateTo}T23:59:59.999`).toISOString() : undefined
+  }
+  // A smart feed's rules are the base; filters picked on the page narrow or override them
+  const listFilters: ArticleListFilters = feedFilters
+    ? { ...feedFilters, ...Object.fromEntries(Object.entries(uiFilters).filter(([, value]) => value !== undefined)) }
+    : uiFilters
+  const filtersKey = JSON.stringify(listFilters)
+
   // Load data on component mount
   useEffect(() => {
     loadData()
   }, [])
 
+  // Resolve the selected smart feed's rules into listing filters
+  useEffect(() => {
+    loadSmartFeed()
+  }, [selectedFeedId])
+
+  // Reload from the first page whenever the filters change (folder and feed filters need loading first)
+  useEffect(() => {
+    if (!isLoading && !isFeedLoading) loadFirstPage()
+  }, [filtersKey, isLoading, isFeedLoading])
+
+  // Debounced full-text search whenever the query or filters change
+  useEffect(() => {
+    const query = searchQuery.trim()
+    if (!query) {
+      setSearchResults(null)
+      setSearchError(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        setIsSearching(true)
+        setSearchError(null)
+        const results = await db.searchArticles(query, {
+          sourceId: listFilters.sourceId,
+          sourceIds: listFilters.sourceIds,
+          author: listFilters.author,
+          from: listFilters.from,
+          to: listFilters.to
+        })
+        if (!cancelled) setSearchResults(results)
+      } catch (error) {
+        console.error('Error searching articles:', error)
+        if (!cancelled) setSearchError(error instanceof Error ? error.message : 'Search failed')
+      } finally {
+        if (!cancelled) setIsSearching(false)
+      }
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [searchQuery, filtersKey])
+
   const loadData = async () => {
     try {
       setIsLoading(true)
-      const [fetchedSources, fetchedArticles] = await Promise.all([
+      const [fetchedSources, fetchedFolders, fetchedAuthors, counts] = await Promise.all([
         db.getSources(),
-        db.getArticles() // Get all articles (no limit)
+        db.getFolders(),
+        db.getArticleAuthors(),
+        db.getSourceArticleCounts()
       ])
       setSources(fetchedSources)
-      setArticles(fetchedArticles)
+      setFolders(fetchedFolders)
+      setAuthors(fetchedAuthors)
+      setSourceCounts(Object.fromEntries(counts.map(count => [count.source_id, count.article_count])))
+      setUnreadCounts(Object.fromEntries(counts.map(count => [count.source_id, count.unread_count])))
+      setTotalCount(counts.reduce((total, count) => total + count.article_count, 0))
     } catch (error) {
       console.error('Error loading data:', error)
     } finally {
@@ -70,13 +210,147 @@ export default function DiscoverPage() {
     }
   }
 
-  const filteredArticles = selectedSource === 'all' 
-    ? articles 
-    : articles.filter(article => article.source_name === selectedSource)
+  const loadSmartFeed = async () => {
+    if (!selectedFeedId) {
+      setSmartFeed(null)
+      setFeedFilters(null)
+      return
+    }
+
+    try {
+      setIsFeedLoading(true)
+      const feed = (await db.getSmartFeeds()).find(candidate => candidate.id === selectedFeedId) || null
+      setSmartFeed(feed)
+      setFeedFilters(feed ? await db.getSmartFeedFilters(feed.rules) : null)
+    } catch (error) {
+      console.error('Error loading smart feed:', error)
+    } finally {
+      setIsFeedLoading(false)
+    }
+  }
+
+  const loadFirstPage = async () => {
+    const requestId = ++pageRequestRef.current
+    try {
+      setIsLoadingPage(true)
+      setArticles([])
+      setNextCursor(null)
+      setDuplicates({})
+      const page = await db.getArticlesPage(listFilters, null, PAGE_SIZE)
+      if (requestId !== pageRequestRef.current) return
+      setArticles(page.articles)
+      setNextCursor(page.nextCursor)
+      loadDuplicates(page.articles, requestId)
+    } catch (error) {
+      console.error('Error loading articles:', error)
+    } finally {
+      if (requestId === pageRequestRef.current) setIsLoadingPage(false)
+    }
+  }
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore || isLoadingPage) return
 
-  const handleArticleClick = (article: ArticleWithSource) => {
-    setSelectedArticle(article)
-    setIsReaderOpen(true)
+    const requestId = pageRequestRef.current
+    try {
+      setIsLoadingMore(true)
+      const page = await db.getArticlesPage(listFilters, nextCursor, PAGE_SIZE)
+      // Drop the page if the filters changed while it was loading
+      if (requestId !== pageRequestRef.current) return
+      setArticles(prev => [...prev, ...page.articles])
+      setNextCursor(page.nextCursor)
+      loadDuplicates(page.articles, requestId)
+    } catch (error) {
+      console.error('Error loading more articles:', error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [nextCursor, isLoadingMore, isLoadingPage, filtersKey])
+
+  // "Also in" sources for the cards on screen
+  const loadDuplicates = async (pageArticles: ArticleSummary[], requestId: number) => {
+    try {
+      const found = await db.getArticleDuplicates(pageArticles.map(article => article.id))
+      if (requestId !== pageRequestRef.current) return
+      setDuplicates(prev => ({ ...prev, ...found }))
+    } catch (error) {
+      console.error('Error loading article duplicates:', error)
+    }
+  }
+
+  // Infinite scroll: fetch the next page when the sentinel below the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || searchResults || !nextCursor) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadMore()
+      },
+      { root: scrollContainerRef.current, rootMargin: '400px' }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [loadMore, searchResults, nextCursor])
+
+  const displayedArticles: DiscoverArticle[] = searchResults ?? articles
+  const selectedSourceName = sources.find(source => source.id === selectedSource)?.name
+  const selectedFolderName = folders.find(folder => folder.id === selectedFolder)?.name
+  const { roots: rootFolders, unfiled: unfiledSources } = FolderTree.build(folders, sources)
+  // Highlight the top-level folder even when a nested folder was picked in the sidebar
+  const selectedRootFolder = selectedFolder
+    ? rootFolders.find(node => FolderTree.getDescendantIds(node.folder.id, folders).includes(selectedFolder))?.folder.id
+    : undefined
+  const folderSources = folderSourceIds ? sources.filter(source => folderSourceIds.includes(source.id)) : []
+
+  const getFolderUnread = (folderId: number) => {
+    return FolderTree.getSourceIds(folderId, folders, sources)
+      .reduce((total, sourceId) => total + (unreadCounts[sourceId] || 0), 0)
+  }
+
+  // Prefill a new smart feed from whatever is currently on screen
+  const getCurrentRules = (): SmartFeedRules => {
+    const rules: SmartFeedRules = { ...smartFeed?.rules }
+    if (searchQuery.trim()) rules.keywords = searchQuery.trim()
+    if (selectedAuthor !== 'all') rules.author = selectedAuthor
+    if (selectedFolder) rules.folderId = selectedFolder
+    if (readFilter !== 'all') rules.readState = readFilter
+    return rules
+  }
+
+  const handleFeedSaved = (feed: SmartFeed) => {
+    setShowSaveFeed(false)
+    setSearchQuery('')
+    clearFilters()
+    router.push(`/dashboard?feed=${feed.id}`)
+  }
+
+  const setSelection = (selection: { folder?: number; source?: number }) => {
+    const params = new URLSearchParams()
+    if (selection.folder) params.set('folder', String(selection.folder))
+    if (selection.source) params.set('source', String(selection.source))
+    const query = params.toString()
+    router.replace(query ? `/dashboard?${query}` : '/dashboard')
+  }
+  const hasActiveFilters = selectedAuthor !== 'all' || readFilter !== 'all' || !!dateFrom || !!dateTo
+
+  const clearFilters = () => {
+    setSelectedAuthor('all')
+    setReadFilter('all')
+    setDateFrom('')
+    setDateTo('')
+  }
+
+  const handleArticleClick = async (article: DiscoverArticle) => {
+    // Listings and search results don't carry the article body, so load the full row
+    try {
+      const fullArticle = await db.getArticleById(article.id)
+      if (!fullArticle) return
+      setSelectedArticle(fullArticle)
+      setIsReaderOpen(true)
+    } catch (error) {
+      console.error('Error opening article:', error)
+    }
   }
 
   const handleCloseReader = () => {
@@ -107,42 +381,158 @@ export default function DiscoverPage() {
       {/* Header */}
       <div className="border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
         <div className="p-6">
-          <h1 className="text-2xl font-semibold mb-6">Discover</h1>
-          
-          {/* Blog Filter Buttons */}
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-2xl font-semibold">{smartFeed ? smartFeed.name : 'Discover'}</h1>
+            {(searchQuery.trim() || hasActiveFilters || selectedFolder) && (
+              <Button variant="outline" size="sm" onClick={() => setShowSaveFeed(true)}>
+                <SaveIcon className="w-4 h-4 mr-2" />
+                Save as Smart Feed
+              </Button>
+            )}
+          </div>
+
+          {/* Search and Filters */}
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <div className="relative flex-1 min-w-[240px]">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search titles, authors and full text..."
+                className="w-full pl-9 pr-9 py-2 text-sm bg-background border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+              {isSearching && (
+                <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground animate-spin" />
+              )}
+            </div>
+            <select
+              value={selectedAuthor}
+              onChange={(e) => setSelectedAuthor(e.target.value)}
+              className="py-2 px-3 text-sm bg-background border border-border rounded-md"
+            >
+              <option value="all">All Authors</option>
+              {authors.map((author) => (
+                <option key={author} value={author}>{author}</option>
+              ))}
+            </select>
+            <select
+              value={readFilter}
+              onChange={(e) => setReadFilter(e.target.value as ReadFilter)}
+              className="py-2 px-3 text-sm bg-background border border-border rounded-md"
+            >
+              <option value="all">All Articles</option>
+              <option value="unread">Unread</option>
+              <option value="read">Read</option>
+              <option value="bookmarked">Bookmarked</option>
+            </select>
+            <input
+              type="date"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="py-2 px-3 text-sm bg-background border border-border rounded-md"
+              aria-label="Published from"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <input
+              type="date"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="py-2 px-3 text-sm bg-background border border-border rounded-md"
+              aria-label="Published to"
+            />
+            {hasActiveFilters && (
+              <Button variant="ghost" size="sm" onClick={clearFilters}>
+                <X className="w-4 h-4 mr-1" />
+                Clear
+              </Button>
+            )}
+          </div>
+
+          {searchError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {searchError}
+            </div>
+          )}
+
+          {/* Folder and Blog Filter Buttons */}
           <div className="flex space-x-2 overflow-x-auto pb-2">
             <Button
-              variant={selectedSource === 'all' ? 'default' : 'outline'}
+              variant={selectedSource === 'all' && !selectedFolder && !selectedFeedId ? 'default' : 'outline'}
               size="sm"
-              onClick={() => setSelectedSource('all')}
+              onClick={() => setSelection({})}
               className="whitespace-nowrap"
             >
-              All Sources ({articles.length})
+              All Sources ({totalCount})
             </Button>
-            {sources.map((source) => {
-              const sourceArticleCount = articles.filter(a => a.source_name === source.name).length
+            {rootFolders.map(({ folder }) => {
+              const unread = getFolderUnread(folder.id)
               return (
                 <Button
-                  key={source.id}
-                  variant={selectedSource === source.name ? 'default' : 'outline'}
+                  key={`folder-${folder.id}`}
+                  variant={selectedRootFolder === folder.id ? 'default' : 'outline'}
                   size="sm"
-                  onClick={() => setSelectedSource(source.name)}
+                  onClick={() => setSelection({ folder: folder.id })}
                   className="whitespace-nowrap"
                 >
-                  <div className={`w-2 h-2 rounded-full ${getSourceColor(source.name)} mr-2`} />
-                  {source.name} ({sourceArticleCount})
+                  <FolderIcon className="w-3.5 h-3.5 mr-2" />
+                  {folder.name}{unread > 0 && ` (${unread} unread)`}
                 </Button>
               )
             })}
+            {unfiledSources.map((source) => (
+              <Button
+                key={source.id}
+                variant={selectedSource === source.id ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setSelection({ source: source.id })}
+                className="whitespace-nowrap"
+              >
+                <div className={`w-2 h-2 rounded-full ${getSourceColor(source.name)} mr-2`} />
+                {source.name} ({sourceCounts[source.id] ?? 0})
+              </Button>
+            ))}
           </div>
+
+          {/* Sources inside the selected folder */}
+          {selectedFolder && folderSources.length > 0 && (
+            <div className="flex space-x-2 overflow-x-auto pt-2 pb-2">
+              {folderSources.map((source) => (
+                <Button
+                  key={source.id}
+                  variant={selectedSource === source.id ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setSelection({
+                    folder: selectedFolder,
+                    source: selectedSource === source.id ? undefined : source.id
+                  })}
+                  className="whitespace-nowrap"
+                >
+                  <div className={`w-2 h-2 rounded-full ${getSourceColor(source.name)} mr-2`} />
+                  {source.name} ({sourceCounts[source.id] ?? 0})
+                </Button>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
       {/* Articles Grid */}
-      <div className="flex-1 overflow-y-auto p-6">
-        {filteredArticles.length > 0 ? (
+      <div ref={scrollContainerRef} className="flex-1 overflow-y-auto p-6">
+        {searchResults && (
+          <p className="text-sm text-muted-foreground mb-4">
+            {searchResults.length} {searchResults.length === 1 ? 'result' : 'results'} for &ldquo;{searchQuery.trim()}&rdquo;
+          </p>
+        )}
+        {isLoadingPage && !searchResults ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+          </div>
+        ) : displayedArticles.length > 0 ? (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {filteredArticles.map((article) => (
+            {displayedArticles.map((article) => (
               <div
                 key={article.id}
                 onClick={() => handleArticleClick(article)}
@@ -174,12 +564,14 @@ export default function DiscoverPage() {
 
                   {/* Title */}
                   <h3 className="font-semibold text-lg leading-tight mb-3 group-hover:text-primary transition-colors">
-                    {article.title}
+                    {isSearchResult(article) ? renderHighlighted(article.title_highlight) : article.title}
                   </h3>
 
                   {/* Snippet */}
                   <p className="text-muted-foreground text-sm leading-relaxed mb-4 line-clamp-3">
-                    {article.description || 'No description available...'}
+                    {isSearchResult(article) && article.snippet
+                      ? renderHighlighted(article.snippet)
+                      : article.description || 'No description available...'}
                   </p>
 
                   {/* Meta Info */}
@@ -187,10 +579,15 @@ export default function DiscoverPage() {
                     <div className="flex items-center space-x-4">
                       <div className="flex items-center space-x-1">
                         <Clock className="w-3 h-3" />
-                        <span>
-                          {article.published_at 
-                            ? formatTimeAgo(article.published_at)
-                            : formatTimeAgo(article.created_at)
+                        {/* Undated articles show when they were collected rather than a made-up publish date */}
+                        <span
+                          title={'published_at_source' in article && article.published_at_source
+                            ? `Date from ${article.published_at_source} (${article.published_at_confidence} confidence)`
+                            : undefined}
+                        >
+                          {article.published_at
+                            ? `${'published_at_confidence' in article && article.published_at_confidence === 'low' ? '≈ ' : ''}${formatTimeAgo(article.published_at)}`
+                            : `Added ${formatTimeAgo(article.created_at)}`
                           }
                         </span>
                       </div>
@@ -203,6 +600,27 @@ export default function DiscoverPage() {
                     </div>
                     <ExternalLink className="w-3 h-3 opacity-0 group-hover:opacity-100 transition-opacity" />
                   </div>
+
+                  {/* Same article from other sources */}
+                  {duplicates[article.id]?.length > 0 && (
+                    <div className="mt-3 pt-3 border-t border-border text-xs text-muted-foreground truncate">
+                      Also in{' '}
+                      {duplicates[article.id].map((duplicate, index) => (
+                        <span key={duplicate.id}>
+                          {index > 0 && ', '}
+                          <a
+                            href={duplicate.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                            className="font-medium hover:text-foreground hover:underline"
+                          >
+                            {duplicate.source_name}
+                          </a>
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -215,11 +633,19 @@ export default function DiscoverPage() {
             </div>
             <h3 className="text-lg font-semibold mb-2">No articles found</h3>
             <p className="text-muted-foreground mb-6 max-w-sm">
-              {selectedSource === 'all' 
+              {searchResults
+                ? 'No articles match your search. Try different keywords or fewer filters.'
+                : smartFeed
+                ? 'No articles match this smart feed yet. Edit its rules from the sidebar.'
+                : hasActiveFilters
+                ? 'No articles match the selected filters.'
+                : selectedSource === 'all' && selectedFolder
+                ? `No articles in ${selectedFolderName || 'this folder'} yet. Add sources to it from the Connect page.`
+                : selectedSource === 'all' 
                 ? sources.length === 0
                   ? "Start by adding your first blog source to see articles here."
                   : "No articles available yet. Try refreshing your sources or adding new ones."
-                : `No articles from ${selectedSource} yet. Try refreshing this source.`
+                : `No articles from ${selectedSourceName} yet. Try refreshing this source.`
               }
             </p>
             <Button onClick={() => window.location.href = '/dashboard/connect'}>
@@ -227,8 +653,24 @@ export default function DiscoverPage() {
             </Button>
           </div>
         )}
+
+        {/* Infinite scroll sentinel */}
+        {!searchResults && nextCursor && (
+          <div ref={loadMoreRef} className="flex items-center justify-center py-8">
+            {isLoadingMore && <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />}
+          </div>
+        )}
       </div>
 
+      {/* Save Smart Feed Modal */}
+      {showSaveFeed && (
+        <SmartFeedEditor
+          initialRules={getCurrentRules()}
+          onClose={() => setShowSaveFeed(false)}
+          onSaved={handleFeedSaved}
+        />
+      )}
+
       {/* Article Reader Modal */}
       {isReaderOpen && selectedArticle && (
         <ArticleReader
@@ -0,0 +1,245 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { Trash2, Plus } from 'lucide-react'
+import { Button } from './ui/button'
+import { DatabaseService } from '@/lib/database'
+import { AgentRegistry, type AgentRegistryConfig } from '@/lib/agents'
+import { cn } from '@/lib/utils'
+
+interface AgentSettingsManagerProps {
+  onClose: () => void
+}
+
+/**
+ * Configure which collection agents run, in what order, and which agent handles particular domains.
+ * The fallback agent is always enabled so every URL can still be collected.
+ */
+export function AgentSettingsManager({ onClose }: AgentSettingsManagerProps) {
+  const [disabledAgents, setDisabledAgents] = useState<string[]>([])
+  const [priorities, setPriorities] = useState<Record<string, number>>({})
+  const [domainOverrides, setDomainOverrides] = useState<Record<string, string>>({})
+  const [overrideDomain, setOverrideDomain] = useState('')
+  const [overrideAgent, setOverrideAgent] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const db = new DatabaseService()
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const loadSettings = async () => {
+    try {
+      const settings = await db.getAgentSettings()
+      setDisabledAgents(settings?.disabled_agents || [])
+      setPriorities(settings?.agent_priorities || {})
+      setDomainOverrides(settings?.domain_overrides || {})
+    } catch (error) {
+      console.error('Error loading agent settings:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load agent settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const config: AgentRegistryConfig = {
+    disabled_agents: disabledAgents,
+    agent_priorities: priorities,
+    domain_overrides: domainOverrides
+  }
+  const agents = AgentRegistry.getAgents(config)
+
+  const handleToggle = (name: string) => {
+    setDisabledAgents(current =>
+      current.includes(name) ? current.filter(agent => agent !== name) : [...current, name]
+    )
+  }
+
+  const handlePriorityChange = (name: string, value: string) => {
+    const priority = parseInt(value, 10)
+    if (isNaN(priority)) return
+    setPriorities(current => ({ ...current, [name]: priority }))
+  }
+
+  const handleAddOverride = () => {
+    const domain = AgentRegistry.normalizeDomain(overrideDomain)
+    if (!domain || !domain.includes('.')) {
+      setError('Please enter a domain such as example.com')
+      return
+    }
+    if (!overrideAgent) {
+      setError('Please choose the agent to use for this domain')
+      return
+    }
+
+    setDomainOverrides(current => ({ ...current, [domain]: overrideAgent }))
+    setOverrideDomain('')
+    setOverrideAgent('')
+    setError('')
+  }
+
+  const handleRemoveOverride = (domain: string) => {
+    setDomainOverrides(current => {
+      const next = { ...current }
+      delete next[domain]
+      return next
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError('')
+
+    try {
+      // Only keep priorities that differ from the registered defaults
+      const defaults = AgentRegistry.getAgents()
+      const changedPriorities = Object.fromEntries(
+        Object.entries(priorities).filter(([name, priority]) =>
+          defaults.some(agent => agent.name === name && agent.priority !== priority)
+        )
+      )
+
+      await db.saveAgentSettings({
+        disabled_agents: disabledAgents,
+        agent_priorities: changedPriorities,
+        domain_overrides: domainOverrides
+      })
+      onClose()
+    } catch (error) {
+      console.error('Error saving agent settings:', error)
+      setError(error instanceof Error ? error.message : 'Failed to save agent settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = () => {
+    setDisabledAgents([])
+    setPriorities({})
+    setDomainOverrides({})
+    setError('')
+  }
+
+  const inputClassName = 'px-3 py-2 text-sm border border-border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-ring'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-background rounded-xl p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold">Collection Agents</h2>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground text-xl"
+            disabled={saving}
+          >
+            ×
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Agents with a higher priority are tried first and win ties. Disabled agents are skipped when collecting.
+              </p>
+              {agents.map(agent => (
+                <div
+                  key={agent.name}
+                  className={cn(
+                    "flex items-start gap-3 p-3 border border-border rounded-lg",
+                    !agent.enabled && "opacity-60"
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    checked={agent.enabled}
+                    disabled={agent.fallback}
+                    onChange={() => handleToggle(agent.name)}
+                    className="mt-1"
+                    title={agent.fallback ? 'The fallback agent is always enabled' : agent.enabled ? 'Disable agent' : 'Enable agent'}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium">
+                      {agent.name}
+                      {agent.fallback && <span className="ml-2 text-xs text-muted-foreground">(fallback)</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{agent.description}</div>
+                  </div>
+                  {!agent.fallback && (
+                    <input
+                      type="number"
+                      value={agent.priority}
+                      onChange={(e) => handlePriorityChange(agent.name, e.target.value)}
+                      className={`${inputClassName} w-20`}
+                      title="Priority"
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Pin an agent to a domain, skipping confidence-based selection */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-foreground">Domain overrides</h3>
+              <p className="text-sm text-muted-foreground">
+                Always use a specific agent for a domain and its subdomains, e.g. a WordPress blog on a custom domain.
+              </p>
+
+              {Object.entries(domainOverrides).map(([domain, agentName]) => (
+                <div key={domain} className="flex items-center gap-3 p-3 border border-border rounded-lg">
+                  <div className="flex-1 min-w-0 text-sm truncate">
+                    {domain} → <span className="font-medium">{agentName}</span>
+                  </div>
+                  <button onClick={() => handleRemoveOverride(domain)} title="Remove" className="p-1 text-red-600">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+
+              <div className="flex gap-2">
+                <input
+                  value={overrideDomain}
+                  onChange={(e) => setOverrideDomain(e.target.value)}
+                  placeholder="e.g. blog.example.com"
+                  className={`${inputClassName} flex-1`}
+                />
+                <select
+                  value={overrideAgent}
+                  onChange={(e) => setOverrideAgent(e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Choose agent</option>
+                  {agents.map(agent => (
+                    <option key={agent.name} value={agent.name}>{agent.name}</option>
+                  ))}
+                </select>
+                <Button onClick={handleAddOverride} variant="outline">
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+              </div>
+            )}
+
+            <div className="flex space-x-3 pt-4">
+              <Button onClick={handleReset} variant="outline" className="flex-1" disabled={saving}>
+                Reset to Defaults
+              </Button>
+              <Button onClick={handleSave} className="flex-1" disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -8,6 +8,8 @@ import {
   ArrowLeft, Heart, MessageSquare, Repeat, Settings 
 } from 'lucide-react'
 import EnhancedArticleContent from './enhanced-article-content'
+import { DatabaseService } from '@/lib/database'
+import { CanonicalUrl } from '@/lib/canonical-url'
 
 interface Article {
   id: number
@@ -224,14 +226,25 @@ export function ArticleReader({ article, isOpen, onClose }: ArticleReaderProps)
     setContentError(null)
     
     try {
+      const recipes = await new DatabaseService().getExtractionRecipes().catch(error => {
+        console.error('Error loading extraction recipes:', error)
+        return []
+      })
+
       const response = await fetch('/api/extract-content', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: article.url })
+        body: JSON.stringify({ url: article.url, recipes })
       })
       
       const result = await response.json()
       
+      // The page's rel=canonical can reveal the same article stored from another source
+      if (result.canonicalUrl && result.canonicalUrl !== CanonicalUrl.normalize(article.url)) {
+        new DatabaseService().setArticleCanonicalUrl(article.id, result.canonicalUrl)
+          .catch(error => console.error('Error saving canonical URL:', error))
+      }
+
       if (result.success && result.content) {
         setEnhancedContent(result.content)
       } else {
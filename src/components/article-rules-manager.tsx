@@ -0,0 +1,426 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { Pencil, Trash2, Plus } from 'lucide-react'
+import { Button } from './ui/button'
+import {
+  DatabaseService, ArticleRule, ArticleRuleAction, ArticleRuleConditions, ArticleRuleDryRun, Source
+} from '@/lib/database'
+import { ArticleRulesEngine } from '@/lib/article-rules'
+import { cn } from '@/lib/utils'
+
+interface ArticleRulesManagerProps {
+  sources: Source[]
+  onClose: () => void
+}
+
+const ACTION_LABELS: Record<ArticleRuleAction, string> = {
+  skip: 'Skip (don\'t save)',
+  mark_read: 'Mark as read',
+  bookmark: 'Bookmark',
+  tag: 'Add tag'
+}
+
+const PREVIEW_LIMIT = 20
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean)
+
+const describeConditions = (conditions: ArticleRuleConditions) => {
+  const parts: string[] = []
+  if (conditions.textPattern) parts.push(`text ~ /${conditions.textPattern}/`)
+  if (conditions.author) parts.push(`author contains "${conditions.author}"`)
+  if (conditions.categories?.length) parts.push(`category in ${conditions.categories.join(', ')}`)
+  if (conditions.urlPattern) parts.push(`url ~ /${conditions.urlPattern}/`)
+  return parts.join(' and ')
+}
+
+/**
+ * Manage per-user article rules (mute, auto-read, auto-bookmark, tag) applied when new articles are saved.
+ * Each rule can be previewed against already-stored articles before it is saved.
+ */
+export function ArticleRulesManager({ sources, onClose }: ArticleRulesManagerProps) {
+  const [rules, setRules] = useState<ArticleRule[]>([])
+  const [editingRule, setEditingRule] = useState<ArticleRule | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [name, setName] = useState('')
+  const [sourceId, setSourceId] = useState<number | null>(null)
+  const [textPattern, setTextPattern] = useState('')
+  const [author, setAuthor] = useState('')
+  const [categories, setCategories] = useState('')
+  const [urlPattern, setUrlPattern] = useState('')
+  const [action, setAction] = useState<ArticleRuleAction>('skip')
+  const [actionValue, setActionValue] = useState('')
+  const [preview, setPreview] = useState<ArticleRuleDryRun | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const db = new DatabaseService()
+
+  useEffect(() => {
+    loadRules()
+  }, [])
+
+  const loadRules = async () => {
+    try {
+      setRules(await db.getArticleRules())
+    } catch (error) {
+      console.error('Error loading article rules:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load rules')
+    }
+  }
+
+  const openForm = (rule: ArticleRule | null) => {
+    setEditingRule(rule)
+    setName(rule?.name || '')
+    setSourceId(rule?.source_id || null)
+    setTextPattern(rule?.conditions.textPattern || '')
+    setAuthor(rule?.conditions.author || '')
+    setCategories((rule?.conditions.categories || []).join(', '))
+    setUrlPattern(rule?.conditions.urlPattern || '')
+    setAction(rule?.action || 'skip')
+    setActionValue(rule?.action_value || '')
+    setPreview(null)
+    setError('')
+    setShowForm(true)
+  }
+
+  const closeForm = () => {
+    setShowForm(false)
+    setEditingRule(null)
+    setPreview(null)
+    setError('')
+  }
+
+  // Build conditions from the form, or report why they're invalid
+  const buildConditions = (): ArticleRuleConditions | null => {
+    const conditions: ArticleRuleConditions = {}
+    if (textPattern.trim()) conditions.textPattern = textPattern.trim()
+    if (author.trim()) conditions.author = author.trim()
+    if (splitList(categories).length) conditions.categories = splitList(categories)
+    if (urlPattern.trim()) conditions.urlPattern = urlPattern.trim()
+
+    if (Object.keys(conditions).length === 0) {
+      setError('Add at least one condition')
+      return null
+    }
+
+    for (const [label, pattern] of [['Text pattern', conditions.textPattern], ['URL pattern', conditions.urlPattern]]) {
+      const patternError = pattern ? ArticleRulesEngine.validatePattern(pattern) : null
+      if (patternError) {
+        setError(`${label}: ${patternError}`)
+        return null
+      }
+    }
+
+    return conditions
+  }
+
+  const handlePreview = async () => {
+    const conditions = buildConditions()
+    if (!conditions) return
+
+    setPreviewing(true)
+    setError('')
+
+    try {
+      setPreview(await db.dryRunArticleRule({ source_id: sourceId, conditions }))
+    } catch (error) {
+      console.error('Error previewing article rule:', error)
+      setError(error instanceof Error ? error.message : 'Failed to preview rule')
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Please give this rule a name')
+      return
+    }
+    if (action === 'tag' && !actionValue.trim()) {
+      setError('Please enter the tag to add')
+      return
+    }
+
+    const conditions = buildConditions()
+    if (!conditions) return
+
+    setSaving(true)
+    setError('')
+
+    try {
+      const rule = {
+        name: name.trim(),
+        source_id: sourceId,
+        conditions,
+        action,
+        action_value: action === 'tag' ? actionValue.trim().toLowerCase() : null
+      }
+      if (editingRule) {
+        await db.updateArticleRule(editingRule.id, rule)
+      } else {
+        await db.addArticleRule(rule)
+      }
+      closeForm()
+      await loadRules()
+    } catch (error) {
+      console.error('Error saving article rule:', error)
+      setError(error instanceof Error ? error.message : 'Failed to save rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (rule: ArticleRule) => {
+    try {
+      await db.updateArticleRule(rule.id, { is_enabled: !rule.is_enabled })
+      await loadRules()
+    } catch (error) {
+      console.error('Error toggling article rule:', error)
+      setError(error instanceof Error ? error.message : 'Failed to update rule')
+    }
+  }
+
+  const handleDelete = async (rule: ArticleRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"?`)) {
+      return
+    }
+
+    try {
+      await db.deleteArticleRule(rule.id)
+      await loadRules()
+    } catch (error) {
+      console.error('Error deleting article rule:', error)
+      setError(error instanceof Error ? error.message : 'Failed to delete rule')
+    }
+  }
+
+  const getSourceName = (id: number | null) => {
+    if (!id) return 'All sources'
+    return sources.find(source => source.id === id)?.name || 'Unknown source'
+  }
+
+  const inputClassName = 'w-full px-3 py-2 text-sm border border-border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-ring'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-background rounded-xl p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold">
+            {showForm ? (editingRule ? 'Edit Rule' : 'New Rule') : 'Article Rules'}
+          </h2>
+          <button
+            onClick={showForm ? closeForm : onClose}
+            className="text-muted-foreground hover:text-foreground text-xl"
+            disabled={saving}
+          >
+            ×
+          </button>
+        </div>
+
+        {!showForm ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Rules run whenever new articles are collected. The first matching &quot;skip&quot; rule stops an article from being saved; other actions combine.
+            </p>
+
+            {rules.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No rules yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {rules.map(rule => (
+                  <div
+                    key={rule.id}
+                    className={cn(
+                      "flex items-start gap-3 p-3 border border-border rounded-lg",
+                      !rule.is_enabled && "opacity-60"
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={rule.is_enabled}
+                      onChange={() => handleToggle(rule)}
+                      className="mt-1"
+                      title={rule.is_enabled ? 'Disable rule' : 'Enable rule'}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium">{rule.name}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {getSourceName(rule.source_id)} · {describeConditions(rule.conditions)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        → {ACTION_LABELS[rule.action]}{rule.action === 'tag' && rule.action_value ? ` "${rule.action_value}"` : ''}
+                      </div>
+                    </div>
+                    <button onClick={() => openForm(rule)} title="Edit" className="p-1 text-muted-foreground hover:text-foreground">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(rule)} title="Delete" className="p-1 text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {error && (
+              <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+              </div>
+            )}
+
+            <div className="flex space-x-3 pt-4">
+              <Button onClick={onClose} variant="outline" className="flex-1">
+                Close
+              </Button>
+              <Button onClick={() => openForm(null)} className="flex-1">
+                <Plus className="w-4 h-4 mr-2" />
+                New Rule
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium text-foreground mb-2 block">Name</label>
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Mute sponsored posts"
+                  className={inputClassName}
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-foreground mb-2 block">Source</label>
+                <select
+                  value={sourceId ?? ''}
+                  onChange={(e) => setSourceId(e.target.value ? Number(e.target.value) : null)}
+                  className={inputClassName}
+                >
+                  <option value="">All sources</option>
+                  {sources.map(source => (
+                    <option key={source.id} value={source.id}>{source.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">Title or description matches</label>
+              <input
+                value={textPattern}
+                onChange={(e) => setTextPattern(e.target.value)}
+                placeholder="e.g. sponsored|giveaway"
+                className={inputClassName}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Regular expression, case-insensitive. All filled-in conditions must match.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium text-foreground mb-2 block">Author contains</label>
+                <input
+                  value={author}
+                  onChange={(e) => setAuthor(e.target.value)}
+                  placeholder="Any author"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-foreground mb-2 block">Any of categories</label>
+                <input
+                  value={categories}
+                  onChange={(e) => setCategories(e.target.value)}
+                  placeholder="Comma separated"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">URL matches</label>
+              <input
+                value={urlPattern}
+                onChange={(e) => setUrlPattern(e.target.value)}
+                placeholder="e.g. /podcast/"
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium text-foreground mb-2 block">Action</label>
+                <select
+                  value={action}
+                  onChange={(e) => setAction(e.target.value as ArticleRuleAction)}
+                  className={inputClassName}
+                >
+                  {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              {action === 'tag' && (
+                <div>
+                  <label className="text-sm font-medium text-foreground mb-2 block">Tag</label>
+                  <input
+                    value={actionValue}
+                    onChange={(e) => setActionValue(e.target.value)}
+                    placeholder="e.g. must-read"
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Dry run against stored articles */}
+            {preview && (
+              <div className="p-3 bg-muted/50 border border-border rounded-lg">
+                <p className="text-sm font-medium mb-2">
+                  Matches {preview.matches.length} of the {preview.scanned} most recent articles
+                </p>
+                {preview.matches.length > 0 && (
+                  <ul className="space-y-1">
+                    {preview.matches.slice(0, PREVIEW_LIMIT).map(article => (
+                      <li key={article.id} className="text-xs text-muted-foreground truncate">
+                        <span className="text-foreground">{article.title}</span>
+                        {article.source_name && ` · ${article.source_name}`}
+                      </li>
+                    ))}
+                    {preview.matches.length > PREVIEW_LIMIT && (
+                      <li className="text-xs text-muted-foreground">
+                        …and {preview.matches.length - PREVIEW_LIMIT} more
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+              </div>
+            )}
+
+            <div className="flex space-x-3 pt-4">
+              <Button onClick={closeForm} variant="outline" className="flex-1" disabled={saving}>
+                Back
+              </Button>
+              <Button onClick={handlePreview} variant="outline" className="flex-1" disabled={saving || previewing}>
+                {previewing ? 'Previewing...' : 'Preview'}
+              </Button>
+              <Button onClick={handleSave} className="flex-1" disabled={saving}>
+                {saving ? 'Saving...' : editingRule ? 'Save Changes' : 'Create Rule'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
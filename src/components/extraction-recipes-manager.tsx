@@ -0,0 +1,466 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { Pencil, Trash2, Plus } from 'lucide-react'
+import { Button } from './ui/button'
+import { DatabaseService, ExtractionRecipe, ExtractionRecipeSelectors } from '@/lib/database'
+import { BUILT_IN_RECIPES, ExtractionRecipes } from '@/lib/extraction-recipes'
+import { cn } from '@/lib/utils'
+
+interface ExtractionRecipesManagerProps {
+  onClose: () => void
+}
+
+interface RecipeTestResult {
+  success: boolean
+  recipe?: string
+  title?: string
+  author?: string
+  publishedDate?: string
+  wordCount?: number
+  nextPageUrl?: string
+  content?: string
+  error?: string
+}
+
+const SNIPPET_LENGTH = 300
+
+// Selectors may contain commas, so the remove list is one selector per line
+const splitLines = (value: string) => value.split('\n').map(item => item.trim()).filter(Boolean)
+
+const getSelectorError = (selector: string): string | null => {
+  try {
+    document.createDocumentFragment().querySelector(selector)
+    return null
+  } catch {
+    return `"${selector}" is not a valid CSS selector`
+  }
+}
+
+/**
+ * Manage per-user extraction recipes: which element holds the article body (and title, date,
+ * author, next page) on a given site. Recipes are tried before the generic extraction heuristics.
+ */
+export function ExtractionRecipesManager({ onClose }: ExtractionRecipesManagerProps) {
+  const [recipes, setRecipes] = useState<ExtractionRecipe[]>([])
+  const [editingRecipe, setEditingRecipe] = useState<ExtractionRecipe | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [name, setName] = useState('')
+  const [domain, setDomain] = useState('')
+  const [contentSelector, setContentSelector] = useState('')
+  const [removeSelectors, setRemoveSelectors] = useState('')
+  const [titleSelector, setTitleSelector] = useState('')
+  const [dateSelector, setDateSelector] = useState('')
+  const [authorSelector, setAuthorSelector] = useState('')
+  const [nextPageSelector, setNextPageSelector] = useState('')
+  const [testUrl, setTestUrl] = useState('')
+  const [testResult, setTestResult] = useState<RecipeTestResult | null>(null)
+  const [testing, setTesting] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const db = new DatabaseService()
+
+  useEffect(() => {
+    loadRecipes()
+  }, [])
+
+  const loadRecipes = async () => {
+    try {
+      setRecipes(await db.getExtractionRecipes())
+    } catch (error) {
+      console.error('Error loading extraction recipes:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load recipes')
+    }
+  }
+
+  const openForm = (recipe: ExtractionRecipe | null) => {
+    setEditingRecipe(recipe)
+    setName(recipe?.name || '')
+    setDomain(recipe?.domain || '')
+    setContentSelector(recipe?.selectors.content || '')
+    setRemoveSelectors((recipe?.selectors.remove || []).join('\n'))
+    setTitleSelector(recipe?.selectors.title || '')
+    setDateSelector(recipe?.selectors.date || '')
+    setAuthorSelector(recipe?.selectors.author || '')
+    setNextPageSelector(recipe?.selectors.nextPage || '')
+    setTestUrl('')
+    setTestResult(null)
+    setError('')
+    setShowForm(true)
+  }
+
+  const closeForm = () => {
+    setShowForm(false)
+    setEditingRecipe(null)
+    setTestResult(null)
+    setError('')
+  }
+
+  // Build selectors from the form, or report why they're invalid
+  const buildSelectors = (): ExtractionRecipeSelectors | null => {
+    if (!contentSelector.trim()) {
+      setError('Enter the selector of the element that holds the article body')
+      return null
+    }
+
+    const selectors: ExtractionRecipeSelectors = { content: contentSelector.trim() }
+    if (splitLines(removeSelectors).length) selectors.remove = splitLines(removeSelectors)
+    if (titleSelector.trim()) selectors.title = titleSelector.trim()
+    if (dateSelector.trim()) selectors.date = dateSelector.trim()
+    if (authorSelector.trim()) selectors.author = authorSelector.trim()
+    if (nextPageSelector.trim()) selectors.nextPage = nextPageSelector.trim()
+
+    const all = [selectors.content, ...(selectors.remove || []), selectors.title, selectors.date, selectors.author, selectors.nextPage]
+    for (const selector of all) {
+      const selectorError = selector ? getSelectorError(selector) : null
+      if (selectorError) {
+        setError(selectorError)
+        return null
+      }
+    }
+
+    return selectors
+  }
+
+  const handleTest = async () => {
+    const selectors = buildSelectors()
+    if (!selectors) return
+
+    const recipeDomain = ExtractionRecipes.normalizeDomain(domain)
+    let hostname = ''
+    try {
+      hostname = new URL(testUrl.trim()).hostname.toLowerCase().replace(/^www\./, '')
+    } catch {
+      setError('Enter the URL of an article to test against')
+      return
+    }
+    if (!recipeDomain || !ExtractionRecipes.matchesDomain(hostname, recipeDomain)) {
+      setError(`The test URL must be on ${recipeDomain || 'the recipe\'s domain'}`)
+      return
+    }
+
+    setTesting(true)
+    setError('')
+
+    try {
+      // Test the unsaved recipe by sending it as the only user recipe
+      const draft: ExtractionRecipe = {
+        id: editingRecipe?.id || 0,
+        user_id: editingRecipe?.user_id || '',
+        name: name.trim() || recipeDomain,
+        domain: recipeDomain,
+        selectors,
+        is_enabled: true,
+        created_at: '',
+        updated_at: ''
+      }
+      const response = await fetch('/api/extract-content', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: testUrl.trim(), recipes: [draft] })
+      })
+      setTestResult(await response.json())
+    } catch (error) {
+      console.error('Error testing extraction recipe:', error)
+      setError('Network error while testing the recipe')
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Please give this recipe a name')
+      return
+    }
+    const recipeDomain = ExtractionRecipes.normalizeDomain(domain)
+    if (!recipeDomain) {
+      setError('Please enter the domain this recipe applies to')
+      return
+    }
+
+    const selectors = buildSelectors()
+    if (!selectors) return
+
+    setSaving(true)
+    setError('')
+
+    try {
+      const recipe = { name: name.trim(), domain: recipeDomain, selectors }
+      if (editingRecipe) {
+        await db.updateExtractionRecipe(editingRecipe.id, recipe)
+      } else {
+        await db.addExtractionRecipe(recipe)
+      }
+      closeForm()
+      await loadRecipes()
+    } catch (error) {
+      console.error('Error saving extraction recipe:', error)
+      setError(error instanceof Error ? error.message : 'Failed to save recipe')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (recipe: ExtractionRecipe) => {
+    try {
+      await db.updateExtractionRecipe(recipe.id, { is_enabled: !recipe.is_enabled })
+      await loadRecipes()
+    } catch (error) {
+      console.error('Error toggling extraction recipe:', error)
+      setError(error instanceof Error ? error.message : 'Failed to update recipe')
+    }
+  }
+
+  const handleDelete = async (recipe: ExtractionRecipe) => {
+    if (!window.confirm(`Delete the recipe "${recipe.name}"?`)) {
+      return
+    }
+
+    try {
+      await db.deleteExtractionRecipe(recipe.id)
+      await loadRecipes()
+    } catch (error) {
+      console.error('Error deleting extraction recipe:', error)
+      setError(error instanceof Error ? error.message : 'Failed to delete recipe')
+    }
+  }
+
+  const getSnippet = (html?: string) => {
+    const text = (html || '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim()
+    return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text
+  }
+
+  const inputClassName = 'w-full px-3 py-2 text-sm border border-border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-ring'
+  const monoInputClassName = `${inputClassName} font-mono`
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-background rounded-xl p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold">
+            {showForm ? (editingRecipe ? 'Edit Recipe' : 'New Recipe') : 'Extraction Recipes'}
+          </h2>
+          <button
+            onClick={showForm ? closeForm : onClose}
+            className="text-muted-foreground hover:text-foreground text-xl"
+            disabled={saving}
+          >
+            ×
+          </button>
+        </div>
+
+        {!showForm ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              When the reader can&apos;t find the article body on a site, a recipe tells it which elements to use. Your recipes take precedence over the built-in ones.
+            </p>
+
+            {recipes.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No recipes yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {recipes.map(recipe => (
+                  <div
+                    key={recipe.id}
+                    className={cn(
+                      "flex items-start gap-3 p-3 border border-border rounded-lg",
+                      !recipe.is_enabled && "opacity-60"
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={recipe.is_enabled}
+                      onChange={() => handleToggle(recipe)}
+                      className="mt-1"
+                      title={recipe.is_enabled ? 'Disable recipe' : 'Enable recipe'}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium">{recipe.name}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {recipe.domain} · <span className="font-mono">{recipe.selectors.content}</span>
+                      </div>
+                    </div>
+                    <button onClick={() => openForm(recipe)} title="Edit" className="p-1 text-muted-foreground hover:text-foreground">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(recipe)} title="Delete" className="p-1 text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="text-xs text-muted-foreground">
+              <span className="font-medium">Built in:</span>{' '}
+              {BUILT_IN_RECIPES.map(recipe => recipe.name).join(', ')}
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+              </div>
+            )}
+
+            <div className="flex space-x-3 pt-4">
+              <Button onClick={onClose} variant="outline" className="flex-1">
+                Close
+              </Button>
+              <Button onClick={() => openForm(null)} className="flex-1">
+                <Plus className="w-4 h-4 mr-2" />
+                New Recipe
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium text-foreground mb-2 block">Name</label>
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Paul Graham essays"
+                  className={inputClassName}
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-foreground mb-2 block">Domain</label>
+                <input
+                  value={domain}
+                  onChange={(e) => setDomain(e.target.value)}
+                  placeholder="e.g. example.com or *.example.com"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">Article body</label>
+              <input
+                value={contentSelector}
+                onChange={(e) => setContentSelector(e.target.value)}
+                placeholder="e.g. article .post-body"
+                className={monoInputClassName}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                CSS selector of the element holding the article text. The first match is used.
+              </p>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">Remove</label>
+              <textarea
+                value={removeSelectors}
+                onChange={(e) => setRemoveSelectors(e.target.value)}
+                placeholder={'.share-buttons\n.newsletter-signup'}
+                rows={3}
+                className={monoInputClassName}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                One selector per line. Matching elements are stripped before extraction.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium text-foreground mb-2 block">Title</label>
+                <input
+                  value={titleSelector}
+                  onChange={(e) => setTitleSelector(e.target.value)}
+                  placeholder="e.g. h1.title"
+                  className={monoInputClassName}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-foreground mb-2 block">Date</label>
+                <input
+                  value={dateSelector}
+                  onChange={(e) => setDateSelector(e.target.value)}
+                  placeholder="e.g. time.published"
+                  className={monoInputClassName}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-foreground mb-2 block">Author</label>
+                <input
+                  value={authorSelector}
+                  onChange={(e) => setAuthorSelector(e.target.value)}
+                  placeholder="e.g. .byline a"
+                  className={monoInputClassName}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-foreground mb-2 block">Next page link</label>
+                <input
+                  value={nextPageSelector}
+                  onChange={(e) => setNextPageSelector(e.target.value)}
+                  placeholder="e.g. a.next-page"
+                  className={monoInputClassName}
+                />
+              </div>
+            </div>
+
+            {/* Try the unsaved recipe on a real article */}
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">Test on an article</label>
+              <input
+                value={testUrl}
+                onChange={(e) => setTestUrl(e.target.value)}
+                placeholder="https://example.com/some-article"
+                className={inputClassName}
+              />
+            </div>
+
+            {testResult && (
+              <div className="p-3 bg-muted/50 border border-border rounded-lg space-y-1">
+                {testResult.success ? (
+                  <>
+                    <p className="text-sm font-medium">
+                      {testResult.recipe
+                        ? `Extracted ${testResult.wordCount} words with this recipe`
+                        : `The recipe found no content; heuristics extracted ${testResult.wordCount} words`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {[
+                        testResult.title,
+                        testResult.author && `by ${testResult.author}`,
+                        testResult.publishedDate && new Date(testResult.publishedDate).toLocaleDateString()
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                    {testResult.nextPageUrl && (
+                      <p className="text-xs text-muted-foreground truncate">Next page: {testResult.nextPageUrl}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">{getSnippet(testResult.content)}</p>
+                  </>
+                ) : (
+                  <p className="text-sm text-red-600 dark:text-red-400">{testResult.error || 'Nothing could be extracted'}</p>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+              </div>
+            )}
+
+            <div className="flex space-x-3 pt-4">
+              <Button onClick={closeForm} variant="outline" className="flex-1" disabled={saving}>
+                Back
+              </Button>
+              <Button onClick={handleTest} variant="outline" className="flex-1" disabled={saving || testing}>
+                {testing ? 'Testing...' : 'Test'}
+              </Button>
+              <Button onClick={handleSave} className="flex-1" disabled={saving}>
+                {saving ? 'Saving...' : editingRecipe ? 'Save Changes' : 'Create Recipe'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, Suspense } from 'react'
 import { useRouter, usePathname } from 'next/navigation'
 import { 
   Home, Plus, Users, Settings, LogOut, Search, BookOpen, 
@@ -8,6 +8,8 @@ import {
   Loader2, Compass, User, ChevronDown
 } from 'lucide-react'
 import { Button } from './ui/button'
+import { SourceFolders } from './source-folders'
+import { SmartFeeds } from './smart-feeds'
 import { createSupabaseClient } from '@/lib/supabase'
 import { DatabaseService } from '@/lib/database'
 import { RefreshService, type RefreshProgress } from '@/lib/refresh-service'
@@ -157,6 +159,9 @@ export function Sidebar({ user }: SidebarProps) {
         setRefreshProgress(progress)
       })
       
+      const { inserted, updated, skipped } = result.counts
+      console.log(`📊 Refresh results: ${inserted} inserted, ${updated} updated, ${skipped} skipped`)
+
       if (result.success) {
         console.log('🎉 All sources refreshed successfully!')
       } else {
@@ -244,7 +249,7 @@ export function Sidebar({ user }: SidebarProps) {
         </div>
 
         {/* Navigation */}
-        <nav className="flex-1 p-4">
+        <nav className="flex-1 p-4 overflow-y-auto">
           <div className="space-y-2">
             {navigationItems.map((item) => {
               const Icon = item.icon
@@ -289,6 +294,12 @@ export function Sidebar({ user }: SidebarProps) {
               )
             })}
           </div>
+
+          {/* Smart feeds and folder tree (read ?feed= / ?folder= / ?source= so they need a Suspense boundary) */}
+          <Suspense fallback={null}>
+            <SmartFeeds />
+            <SourceFolders />
+          </Suspense>
         </nav>
 
         {/* User Account */}
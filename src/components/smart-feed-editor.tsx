@@ -0,0 +1,228 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { DatabaseService, Folder, SmartFeed, SmartFeedRules, SmartFeedReadState } from '@/lib/database'
+import { FolderTree } from '@/lib/folders'
+
+interface SmartFeedEditorProps {
+  feed?: SmartFeed | null // Edit an existing feed; omit to create one
+  initialRules?: SmartFeedRules // Prefill a new feed, e.g. from the current Discover search
+  onClose: () => void
+  onSaved: (feed: SmartFeed) => void
+}
+
+const DATE_WINDOWS = [
+  { label: 'Any time', days: 0 },
+  { label: 'Last 24 hours', days: 1 },
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 },
+  { label: 'Last year', days: 365 }
+]
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean)
+
+export function SmartFeedEditor({ feed, initialRules, onClose, onSaved }: SmartFeedEditorProps) {
+  const rules = feed?.rules || initialRules || {}
+  const [name, setName] = useState(feed?.name || '')
+  const [keywords, setKeywords] = useState(rules.keywords || '')
+  const [author, setAuthor] = useState(rules.author || '')
+  const [categories, setCategories] = useState((rules.categories || []).join(', '))
+  const [themes, setThemes] = useState((rules.themes || []).join(', '))
+  const [folderId, setFolderId] = useState<number | null>(rules.folderId || null)
+  const [days, setDays] = useState(rules.publishedWithinDays || 0)
+  const [readState, setReadState] = useState<SmartFeedReadState>(rules.readState || 'all')
+  const [folders, setFolders] = useState<Folder[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    new DatabaseService().getFolders()
+      .then(setFolders)
+      .catch(error => console.error('Error loading folders:', error))
+  }, [])
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Please give this feed a name')
+      return
+    }
+
+    const nextRules: SmartFeedRules = {}
+    if (keywords.trim()) nextRules.keywords = keywords.trim()
+    if (author.trim()) nextRules.author = author.trim()
+    if (splitList(categories).length) nextRules.categories = splitList(categories)
+    if (splitList(themes).length) nextRules.themes = splitList(themes)
+    if (folderId) nextRules.folderId = folderId
+    if (days) nextRules.publishedWithinDays = days
+    if (readState !== 'all') nextRules.readState = readState
+
+    if (Object.keys(nextRules).length === 0) {
+      setError('Add at least one rule')
+      return
+    }
+
+    setSaving(true)
+    setError('')
+
+    try {
+      const db = new DatabaseService()
+      const saved = feed
+        ? await db.updateSmartFeed(feed.id, { name: name.trim(), rules: nextRules })
+        : await db.addSmartFeed(name, nextRules)
+      onSaved(saved)
+    } catch (error) {
+      console.error('Error saving smart feed:', error)
+      setError(error instanceof Error ? error.message : 'Failed to save smart feed')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClassName = 'w-full px-3 py-2 text-sm border border-border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-ring'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-background rounded-xl p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold">{feed ? 'Edit Smart Feed' : 'New Smart Feed'}</h2>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground text-xl"
+            disabled={saving}
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm font-medium text-foreground mb-2 block">Name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. AI research this week"
+              className={inputClassName}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-foreground mb-2 block">Keywords</label>
+            <input
+              value={keywords}
+              onChange={(e) => setKeywords(e.target.value)}
+              placeholder='e.g. "large language models" -crypto'
+              className={inputClassName}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Matches titles and full text. Use quotes for phrases, OR for alternatives and - to exclude.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">Author</label>
+              <input
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+                placeholder="Any author"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">Folder</label>
+              <select
+                value={folderId ?? ''}
+                onChange={(e) => setFolderId(e.target.value ? Number(e.target.value) : null)}
+                className={inputClassName}
+              >
+                <option value="">All sources</option>
+                {folders.map(folder => (
+                  <option key={folder.id} value={folder.id}>
+                    {FolderTree.getPath(folder.id, folders).join(' / ')}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">Categories</label>
+              <input
+                value={categories}
+                onChange={(e) => setCategories(e.target.value)}
+                placeholder="Comma separated"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">Themes</label>
+              <input
+                value={themes}
+                onChange={(e) => setThemes(e.target.value)}
+                placeholder="Comma separated"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">Published</label>
+              <select
+                value={days}
+                onChange={(e) => setDays(Number(e.target.value))}
+                className={inputClassName}
+              >
+                {DATE_WINDOWS.map(option => (
+                  <option key={option.days} value={option.days}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-foreground mb-2 block">Read state</label>
+              <select
+                value={readState}
+                onChange={(e) => setReadState(e.target.value as SmartFeedReadState)}
+                className={inputClassName}
+              >
+                <option value="all">All articles</option>
+                <option value="unread">Unread only</option>
+                <option value="read">Read only</option>
+                <option value="bookmarked">Bookmarked</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-4">
+            <Button
+              onClick={onClose}
+              variant="outline"
+              className="flex-1"
+              disabled={saving}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              className="flex-1"
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : feed ? 'Save Changes' : 'Create Feed'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { useRouter, usePathname, useSearchParams } from 'next/navigation'
+import { Sparkles, Plus, Pencil, Trash2 } from 'lucide-react'
+import { DatabaseService, SmartFeed } from '@/lib/database'
+import { SmartFeedEditor } from './smart-feed-editor'
+import { cn } from '@/lib/utils'
+
+const UNREAD_REFRESH_INTERVAL = 60 * 1000
+
+/**
+ * Sidebar list of smart feeds (saved searches) with live unread counts.
+ * Clicking a feed opens it on the Discover page via ?feed=.
+ */
+export function SmartFeeds() {
+  const [feeds, setFeeds] = useState<SmartFeed[]>([])
+  const [unreadCounts, setUnreadCounts] = useState<Record<number, number>>({})
+  const [editingFeed, setEditingFeed] = useState<SmartFeed | null>(null)
+  const [showEditor, setShowEditor] = useState(false)
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const db = new DatabaseService()
+
+  const activeFeedId = pathname === '/dashboard' ? Number(searchParams.get('feed')) || null : null
+
+  // Refresh on navigation (feeds saved from Discover, articles read) and on an interval
+  useEffect(() => {
+    loadFeeds()
+    const interval = setInterval(loadFeeds, UNREAD_REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [pathname, searchParams.toString()])
+
+  const loadFeeds = async () => {
+    try {
+      const fetchedFeeds = await db.getSmartFeeds()
+      setFeeds(fetchedFeeds)
+      setUnreadCounts(await db.getSmartFeedUnreadCounts(fetchedFeeds))
+    } catch (error) {
+      console.error('Error loading smart feeds:', error)
+    }
+  }
+
+  const openEditor = (feed: SmartFeed | null) => {
+    setEditingFeed(feed)
+    setShowEditor(true)
+  }
+
+  const handleSaved = async (feed: SmartFeed) => {
+    setShowEditor(false)
+    setEditingFeed(null)
+    await loadFeeds()
+    router.push(`/dashboard?feed=${feed.id}`)
+  }
+
+  const handleDelete = async (feed: SmartFeed) => {
+    if (!window.confirm(`Delete the smart feed "${feed.name}"?`)) {
+      return
+    }
+
+    try {
+      await db.deleteSmartFeed(feed.id)
+      if (activeFeedId === feed.id) {
+        router.push('/dashboard')
+      }
+      await loadFeeds()
+    } catch (error) {
+      console.error('Error deleting smart feed:', error)
+    }
+  }
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between px-3 mb-2">
+        <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Smart Feeds</span>
+        <button
+          onClick={() => openEditor(null)}
+          className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-gray-100 dark:hover:bg-gray-800"
+          title="New smart feed"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="space-y-0.5">
+        {feeds.map(feed => {
+          const unread = unreadCounts[feed.id] || 0
+          return (
+            <div
+              key={feed.id}
+              className={cn(
+                "group flex items-center gap-2 px-3 py-1 rounded-md text-sm transition-colors",
+                "hover:bg-gray-100 dark:hover:bg-gray-800",
+                activeFeedId === feed.id ? "bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400" : "text-gray-700 dark:text-gray-300"
+              )}
+            >
+              <button
+                onClick={() => router.push(`/dashboard?feed=${feed.id}`)}
+                className="flex-1 flex items-center gap-2 min-w-0 text-left"
+              >
+                <Sparkles className="w-4 h-4 flex-shrink-0" />
+                <span className="flex-1 truncate">{feed.name}</span>
+              </button>
+              <div className="hidden group-hover:flex items-center">
+                <button onClick={() => openEditor(feed)} title="Edit" className="p-0.5">
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button onClick={() => handleDelete(feed)} title="Delete" className="p-0.5 text-red-600">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              {unread > 0 && (
+                <span className="group-hover:hidden text-xs text-muted-foreground tabular-nums">{unread}</span>
+              )}
+            </div>
+          )
+        })}
+
+        {feeds.length === 0 && (
+          <p className="px-3 text-xs text-muted-foreground">
+            Save a search on Discover or create a feed from rules.
+          </p>
+        )}
+      </div>
+
+      {showEditor && (
+        <SmartFeedEditor
+          feed={editingFeed}
+          onClose={() => {
+            setShowEditor(false)
+            setEditingFeed(null)
+          }}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { useRouter, usePathname, useSearchParams } from 'next/navigation'
+import {
+  ChevronRight, Folder as FolderIcon, FolderOpen, FolderPlus, Pencil, Trash2,
+  ArrowUp, ArrowDown, Plus, Rss, Inbox
+} from 'lucide-react'
+import { DatabaseService, Folder, Source } from '@/lib/database'
+import { FolderTree, type FolderNode } from '@/lib/folders'
+import { cn } from '@/lib/utils'
+
+/**
+ * Collapsible folder tree of the user's sources with unread counts.
+ * Clicking a folder or source filters the Discover page via ?folder= / ?source=.
+ */
+export function SourceFolders() {
+  const [folders, setFolders] = useState<Folder[]>([])
+  const [sources, setSources] = useState<Source[]>([])
+  const [unreadCounts, setUnreadCounts] = useState<Record<number, number>>({})
+  const [expanded, setExpanded] = useState<Set<number | 'unfiled'>>(new Set())
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [newFolderParent, setNewFolderParent] = useState<number | 'root' | null>(null)
+  const [folderName, setFolderName] = useState('')
+  const [error, setError] = useState('')
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const db = new DatabaseService()
+
+  const activeFolderId = pathname === '/dashboard' ? Number(searchParams.get('folder')) || null : null
+  const activeSourceId = pathname === '/dashboard' ? Number(searchParams.get('source')) || null : null
+
+  // Reload on navigation so moves/renames made on other pages show up
+  useEffect(() => {
+    loadFolders()
+  }, [pathname])
+
+  const loadFolders = async () => {
+    try {
+      const [fetchedFolders, fetchedSources, counts] = await Promise.all([
+        db.getFolders(),
+        db.getSources(),
+        db.getSourceArticleCounts()
+      ])
+      setFolders(fetchedFolders)
+      setSources(fetchedSources)
+      setUnreadCounts(Object.fromEntries(counts.map(count => [count.source_id, count.unread_count])))
+    } catch (error) {
+      console.error('Error loading folders:', error)
+    }
+  }
+
+  const getFolderUnread = (folderId: number) => {
+    return FolderTree.getSourceIds(folderId, folders, sources)
+      .reduce((total, sourceId) => total + (unreadCounts[sourceId] || 0), 0)
+  }
+
+  const toggleExpanded = (id: number | 'unfiled') => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const startNewFolder = (parent: number | 'root') => {
+    setNewFolderParent(parent)
+    setEditingId(null)
+    setFolderName('')
+    setError('')
+    if (parent !== 'root') {
+      setExpanded(prev => new Set(prev).add(parent))
+    }
+  }
+
+  const startRename = (folder: Folder) => {
+    setEditingId(folder.id)
+    setNewFolderParent(null)
+    setFolderName(folder.name)
+    setError('')
+  }
+
+  const cancelEdit = () => {
+    setEditingId(null)
+    setNewFolderParent(null)
+    setFolderName('')
+  }
+
+  const handleSaveFolder = async () => {
+    const name = folderName.trim()
+    if (!name) {
+      cancelEdit()
+      return
+    }
+
+    try {
+      if (editingId !== null) {
+        await db.updateFolder(editingId, { name })
+      } else if (newFolderParent !== null) {
+        await db.addFolder(name, newFolderParent === 'root' ? null : newFolderParent)
+      }
+      cancelEdit()
+      await loadFolders()
+    } catch (error) {
+      console.error('Error saving folder:', error)
+      setError(error instanceof Error ? error.message : 'Failed to save folder')
+    }
+  }
+
+  const handleDeleteFolder = async (folder: Folder) => {
+    if (!window.confirm(`Delete "${folder.name}" and its subfolders? Sources inside will become unfiled.`)) {
+      return
+    }
+
+    try {
+      await db.deleteFolder(folder.id)
+      if (activeFolderId === folder.id) {
+        router.push('/dashboard')
+      }
+      await loadFolders()
+    } catch (error) {
+      console.error('Error deleting folder:', error)
+      setError(error instanceof Error ? error.message : 'Failed to delete folder')
+    }
+  }
+
+  const handleMoveFolder = async (node: FolderNode, siblings: FolderNode[], direction: -1 | 1) => {
+    const index = siblings.indexOf(node)
+    const target = index + direction
+    if (target < 0 || target >= siblings.length) return
+
+    const ordered = siblings.map(sibling => sibling.folder.id)
+    ordered.splice(index, 1)
+    ordered.splice(target, 0, node.folder.id)
+
+    try {
+      await db.reorderFolders(ordered)
+      await loadFolders()
+    } catch (error) {
+      console.error('Error reordering folders:', error)
+      setError(error instanceof Error ? error.message : 'Failed to reorder folders')
+    }
+  }
+
+  const renderNameInput = (depth: number) => (
+    <div style={{ paddingLeft: depth * 12 + 8 }} className="pr-2 py-1">
+      <input
+        autoFocus
+        value={folderName}
+        onChange={(e) => setFolderName(e.target.value)}
+        onBlur={handleSaveFolder}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleSaveFolder()
+          if (e.key === 'Escape') cancelEdit()
+        }}
+        placeholder="Folder name"
+        className="w-full px-2 py-1 text-sm border border-border rounded focus:outline-none focus:ring-2 focus:ring-ring"
+      />
+    </div>
+  )
+
+  const renderCount = (count: number) => (
+    count > 0 ? (
+      <span className="text-xs text-muted-foreground tabular-nums">{count}</span>
+    ) : null
+  )
+
+  const renderSource = (source: Source, depth: number) => (
+    <button
+      key={source.id}
+      onClick={() => router.push(`/dashboard?source=${source.id}`)}
+      style={{ paddingLeft: depth * 12 + 24 }}
+      className={cn(
+        "w-full flex items-center gap-2 pr-2 py-1 rounded-md text-left text-sm transition-colors",
+        "hover:bg-gray-100 dark:hover:bg-gray-800",
+        activeSourceId === source.id ? "text-blue-600 dark:text-blue-400" : "text-gray-600 dark:text-gray-400"
+      )}
+    >
+      <Rss className="w-3.5 h-3.5 flex-shrink-0" />
+      <span className="flex-1 truncate">{source.name}</span>
+      {renderCount(unreadCounts[source.id] || 0)}
+    </button>
+  )
+
+  const renderFolder = (node: FolderNode, siblings: FolderNode[], depth: number): React.ReactNode => {
+    const { folder } = node
+    const isExpanded = expanded.has(folder.id)
+    const index = siblings.indexOf(node)
+
+    return (
+      <div key={folder.id}>
+        {editingId === folder.id ? renderNameInput(depth) : (
+          <div
+            style={{ paddingLeft: depth * 12 }}
+            className={cn(
+              "group flex items-center gap-1 pr-1 py-1 rounded-md text-sm transition-colors",
+              "hover:bg-gray-100 dark:hover:bg-gray-800",
+              activeFolderId === folder.id ? "bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400" : "text-gray-700 dark:text-gray-300"
+            )}
+          >
+            <button
+              onClick={() => toggleExpanded(folder.id)}
+              className="p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+              aria-label={isExpanded ? 'Collapse folder' : 'Expand folder'}
+            >
+              <ChevronRight className={cn("w-3.5 h-3.5 transition-transform", isExpanded && "rotate-90")} />
+            </button>
+            <button
+              onClick={() => router.push(`/dashboard?folder=${folder.id}`)}
+              className="flex-1 flex items-center gap-2 min-w-0 text-left"
+            >
+              {isExpanded ? <FolderOpen className="w-4 h-4 flex-shrink-0" /> : <FolderIcon className="w-4 h-4 flex-shrink-0" />}
+              <span className="flex-1 truncate">{folder.name}</span>
+            </button>
+            <div className="hidden group-hover:flex items-center">
+              <button onClick={() => handleMoveFolder(node, siblings, -1)} disabled={index === 0} title="Move up" className="p-0.5 disabled:opacity-30">
+                <ArrowUp className="w-3 h-3" />
+              </button>
+              <button onClick={() => handleMoveFolder(node, siblings, 1)} disabled={index === siblings.length - 1} title="Move down" className="p-0.5 disabled:opacity-30">
+                <ArrowDown className="w-3 h-3" />
+              </button>
+              <button onClick={() => startNewFolder(folder.id)} title="New subfolder" className="p-0.5">
+                <FolderPlus className="w-3 h-3" />
+              </button>
+              <button onClick={() => startRename(folder)} title="Rename" className="p-0.5">
+                <Pencil className="w-3 h-3" />
+              </button>
+              <button onClick={() => handleDeleteFolder(folder)} title="Delete" className="p-0.5 text-red-600">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+            <span className="group-hover:hidden">{renderCount(getFolderUnread(folder.id))}</span>
+          </div>
+        )}
+
+        {isExpanded && (
+          <div>
+            {node.children.map(child => renderFolder(child, node.children, depth + 1))}
+            {newFolderParent === folder.id && renderNameInput(depth + 1)}
+            {node.sources.map(source => renderSource(source, depth))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const { roots, unfiled } = FolderTree.build(folders, sources)
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between px-3 mb-2">
+        <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Folders</span>
+        <button
+          onClick={() => startNewFolder('root')}
+          className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-gray-100 dark:hover:bg-gray-800"
+          title="New folder"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {error && (
+        <p className="px-3 mb-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="space-y-0.5">
+        {roots.map(node => renderFolder(node, roots, 0))}
+        {newFolderParent === 'root' && renderNameInput(0)}
+
+        {unfiled.length > 0 && (
+          <div>
+            <button
+              onClick={() => toggleExpanded('unfiled')}
+              className="w-full flex items-center gap-1 pr-1 py-1 rounded-md text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              <span className="p-0.5">
+                <ChevronRight className={cn("w-3.5 h-3.5 transition-transform", expanded.has('unfiled') && "rotate-90")} />
+              </span>
+              <Inbox className="w-4 h-4 flex-shrink-0" />
+              <span className="flex-1 truncate text-left">Unfiled</span>
+              {renderCount(unfiled.reduce((total, source) => total + (unreadCounts[source.id] || 0), 0))}
+            </button>
+            {expanded.has('unfiled') && unfiled.map(source => renderSource(source, 0))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,268 @@
+import { RobotsTxt } from './robots-txt'
+
+export interface AgentFetchOptions {
+  headers?: Record<string, string>
+  timeout?: number // ms, per attempt
+  retries?: number
+  useCache?: boolean
+}
+
+interface CachedResponse {
+  expiresAt: number
+  status: number
+  statusText: string
+  contentType: string
+  body: string
+}
+
+// Identify ourselves honestly so site owners can target us in robots.txt
+export const AGENT_USER_AGENT = 'BlogHubBot/1.0 (+https://github.com/abagarwal1509/perch-killer)'
+export const ROBOTS_BLOCKED_STATUS_TEXT = 'Blocked by robots.txt'
+
+const MAX_CONCURRENT_PER_HOST = 2
+const MAX_CRAWL_DELAY = 60
+const DEFAULT_RETRIES = 3
+const DEFAULT_TIMEOUT = 15000
+const BASE_RETRY_DELAY = 500
+const MAX_RETRY_DELAY = 30000
+const CACHE_TTL = 10 * 60 * 1000
+const MAX_CACHE_ENTRIES = 200
+
+/**
+ * Shared HTTP layer for agents: per-host concurrency limits, retries with exponential
+ * backoff on 429/5xx, an in-memory response cache and robots.txt checks (Disallow + Crawl-delay).
+ * Fetches directly on the server; in the browser it goes through /api/scrape-content (CORS).
+ */
+export class AgentFetcher {
+  private cache = new Map<string, CachedResponse>()
+  private robots = new Map<string, Promise<RobotsTxt | null>>()
+  private activeRequests = new Map<string, number>()
+  private waiting = new Map<string, Array<() => void>>()
+  private nextRequestAt = new Map<string, number>()
+
+  /**
+   * Fetch a URL and return a fresh Response (so callers can read the body as usual)
+   */
+  async fetch(url: string, options: AgentFetchOptions = {}): Promise<Response> {
+    const useCache = options.useCache !== false
+    const cached = useCache ? this.getCached(url) : null
+    if (cached) {
+      return this.toResponse(cached)
+    }
+
+    if (!(await this.isAllowedByRobots(url))) {
+      console.log(`🤖 Blocked by robots.txt: ${url}`)
+      return new Response(null, { status: 403, statusText: ROBOTS_BLOCKED_STATUS_TEXT })
+    }
+
+    const host = new URL(url).host
+    await this.acquire(host)
+
+    try {
+      await this.waitForCrawlDelay(url)
+      const response = await this.fetchWithRetry(url, options)
+      const body = await response.text()
+
+      const entry: CachedResponse = {
+        expiresAt: Date.now() + CACHE_TTL,
+        status: response.status,
+        statusText: response.statusText,
+        contentType: response.headers.get('content-type') || 'text/html',
+        body
+      }
+
+      if (useCache && response.ok) {
+        this.setCached(url, entry)
+      }
+
+      return this.toResponse(entry)
+    } finally {
+      this.release(host)
+    }
+  }
+
+  /**
+   * Check robots.txt for the URL's origin (cached per origin; missing/unreachable robots.txt allows all)
+   */
+  async isAllowedByRobots(url: string): Promise<boolean> {
+    const { origin, pathname } = new URL(url)
+    if (pathname === '/robots.txt') return true
+
+    if (!this.robots.has(origin)) {
+      this.robots.set(origin, this.loadRobots(origin))
+    }
+
+    const robots = await this.robots.get(origin)
+    return robots ? robots.isAllowed(url, AGENT_USER_AGENT) : true
+  }
+
+  /**
+   * Whether a response returned by fetch() was short-circuited by robots.txt
+   */
+  static isRobotsBlocked(response: Response): boolean {
+    return response.status === 403 && response.statusText === ROBOTS_BLOCKED_STATUS_TEXT
+  }
+
+  clearCache(): void {
+    this.cache.clear()
+    this.robots.clear()
+    this.nextRequestAt.clear()
+  }
+
+  /**
+   * Space out requests to a host according to its Crawl-delay
+   */
+  private async waitForCrawlDelay(url: string): Promise<void> {
+    const { origin, host } = new URL(url)
+    const robots = await this.robots.get(origin)
+    const crawlDelay = robots?.getCrawlDelay(AGENT_USER_AGENT)
+    if (!crawlDelay) return
+
+    // Reserve the next slot before waiting so concurrent requests queue up behind each other
+    const delayMs = Math.min(crawlDelay, MAX_CRAWL_DELAY) * 1000
+    const now = Date.now()
+    const startAt = Math.max(now, this.nextRequestAt.get(host) || 0)
+    this.nextRequestAt.set(host, startAt + delayMs)
+
+    if (startAt > now) {
+      console.log(`🐢 Crawl-delay for ${host}: waiting ${startAt - now}ms`)
+      await this.sleep(startAt - now)
+    }
+  }
+
+  private async loadRobots(origin: string): Promise<RobotsTxt | null> {
+    try {
+      const response = await this.fetchWithRetry(`${origin}/robots.txt`, { retries: 1, timeout: 5000 })
+      if (!response.ok) return null
+
+      return new RobotsTxt(await response.text())
+    } catch {
+      return null
+    }
+  }
+
+  private async fetchWithRetry(url: string, options: AgentFetchOptions): Promise<Response> {
+    const retries = options.retries ?? DEFAULT_RETRIES
+    let lastError: unknown = null
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      try {
+        const response = await this.rawFetch(url, options)
+
+        if (response.status !== 429 && response.status < 500) {
+          return response
+        }
+
+        if (attempt === retries) {
+          return response
+        }
+
+        const delay = this.getRetryDelay(attempt, response.headers.get('retry-after'))
+        console.log(`⏳ ${response.status} from ${url}, retrying in ${delay}ms (attempt ${attempt + 1}/${retries})`)
+        await this.sleep(delay)
+      } catch (error) {
+        lastError = error
+        if (attempt === retries) break
+
+        const delay = this.getRetryDelay(attempt, null)
+        console.log(`⏳ Network error for ${url}, retrying in ${delay}ms (attempt ${attempt + 1}/${retries})`)
+        await this.sleep(delay)
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error(`Failed to fetch ${url}`)
+  }
+
+  private rawFetch(url: string, options: AgentFetchOptions): Promise<Response> {
+    const signal = AbortSignal.timeout(options.timeout || DEFAULT_TIMEOUT)
+
+    // Browsers can't fetch third-party pages directly, so go through our scrape proxy
+    if (typeof window !== 'undefined') {
+      return fetch(`/api/scrape-content?url=${encodeURIComponent(url)}`, { signal })
+    }
+
+    return fetch(url, {
+      headers: {
+        'User-Agent': AGENT_USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+        ...options.headers
+      },
+      signal
+    })
+  }
+
+  private getRetryDelay(attempt: number, retryAfter: string | null): number {
+    if (retryAfter) {
+      const seconds = Number(retryAfter)
+      const delay = isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000
+      if (delay > 0) return Math.min(Math.round(delay), MAX_RETRY_DELAY)
+    }
+
+    // Exponential backoff with a little jitter
+    return Math.min(Math.round(BASE_RETRY_DELAY * Math.pow(2, attempt) + Math.random() * 250), MAX_RETRY_DELAY)
+  }
+
+  private async acquire(host: string): Promise<void> {
+    const active = this.activeRequests.get(host) || 0
+    if (active < MAX_CONCURRENT_PER_HOST) {
+      this.activeRequests.set(host, active + 1)
+      return
+    }
+
+    await new Promise<void>(resolve => {
+      const queue = this.waiting.get(host) || []
+      queue.push(resolve)
+      this.waiting.set(host, queue)
+    })
+  }
+
+  private release(host: string): void {
+    const next = this.waiting.get(host)?.shift()
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next()
+      return
+    }
+
+    this.activeRequests.set(host, Math.max((this.activeRequests.get(host) || 1) - 1, 0))
+  }
+
+  private getCached(url: string): CachedResponse | null {
+    const entry = this.cache.get(url)
+    if (!entry) return null
+
+    if (entry.expiresAt < Date.now()) {
+      this.cache.delete(url)
+      return null
+    }
+
+    return entry
+  }
+
+  private setCached(url: string, entry: CachedResponse): void {
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      // Map preserves insertion order, so the first key is the oldest entry
+      const oldest = this.cache.keys().next().value
+      if (oldest) this.cache.delete(oldest)
+    }
+    this.cache.set(url, entry)
+  }
+
+  private toResponse(entry: CachedResponse): Response {
+    // Null-body statuses (204, 304, ...) can't carry a body
+    const hasBody = ![204, 205, 304].includes(entry.status)
+    return new Response(hasBody ? entry.body : null, {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: { 'Content-Type': entry.contentType }
+    })
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
+  }
+}
+
+// Shared across all agents so limits and cache apply per process
+export const agentFetcher = new AgentFetcher()
@@ -0,0 +1,101 @@
+import type { BaseAgent } from './base-agent'
+
+// Per-user overrides of the registered defaults (persisted as the user's agent_settings row)
+export interface AgentRegistryConfig {
+  disabled_agents?: string[] // Agent names left out of analysis; the fallback agent can't be disabled
+  agent_priorities?: Record<string, number> // Agent name → priority, replacing the registered one
+  domain_overrides?: Record<string, string> // Domain → agent name, always used for that domain and its subdomains
+}
+
+export interface AgentRegistration {
+  name: string
+  description: string
+  priority: number // Higher is analyzed first and wins confidence ties
+  fallback: boolean // Used when no other agent can handle a URL, always enabled and always last
+  create: () => BaseAgent
+}
+
+export interface ConfiguredAgent extends AgentRegistration {
+  enabled: boolean
+}
+
+/**
+ * Agents register here (at the bottom of their module) instead of being hardcoded in the
+ * orchestrator; the orchestrator builds its agent list from the registry plus the user's config
+ */
+export class AgentRegistry {
+  private static registrations = new Map<string, AgentRegistration>()
+
+  static register(AgentClass: new () => BaseAgent, options: { priority: number; fallback?: boolean }) {
+    const agent = new AgentClass()
+    this.registrations.set(agent.name, {
+      name: agent.name,
+      description: agent.description,
+      priority: options.priority,
+      fallback: !!options.fallback,
+      create: () => new AgentClass()
+    })
+  }
+
+  /**
+   * Every registered agent with the user's priority and enabled state applied, in analysis order
+   */
+  static getAgents(config: AgentRegistryConfig = {}): ConfiguredAgent[] {
+    const disabled = new Set(config.disabled_agents || [])
+
+    return Array.from(this.registrations.values())
+      .map(registration => ({
+        ...registration,
+        priority: config.agent_priorities?.[registration.name] ?? registration.priority,
+        enabled: registration.fallback || !disabled.has(registration.name)
+      }))
+      .sort((a, b) => Number(a.fallback) - Number(b.fallback) || b.priority - a.priority)
+  }
+
+  /**
+   * Fresh instances of the enabled agents, in analysis order
+   */
+  static createAgents(config: AgentRegistryConfig = {}): BaseAgent[] {
+    return this.getAgents(config)
+      .filter(agent => agent.enabled)
+      .map(agent => agent.create())
+  }
+
+  static getFallbackName(): string | undefined {
+    return Array.from(this.registrations.values()).find(registration => registration.fallback)?.name
+  }
+
+  /**
+   * The agent the user pinned for this URL's domain (or a parent domain), if any
+   */
+  static getDomainOverride(url: string, config: AgentRegistryConfig = {}): string | undefined {
+    const overrides = config.domain_overrides || {}
+
+    let hostname: string
+    try {
+      hostname = new URL(url).hostname.toLowerCase().replace(/^www\./, '')
+    } catch {
+      return undefined
+    }
+
+    // Most specific domain first: blog.example.com before example.com
+    const parts = hostname.split('.')
+    for (let i = 0; i < parts.length - 1; i++) {
+      const agentName = overrides[parts.slice(i).join('.')]
+      if (agentName && this.registrations.has(agentName)) return agentName
+    }
+    return undefined
+  }
+
+  /**
+   * Normalize what a user typed as an override domain ("https://www.Example.com/blog" → "example.com")
+   */
+  static normalizeDomain(value: string): string {
+    return value
+      .trim()
+      .toLowerCase()
+      .replace(/^[a-z]+:\/\//, '')
+      .split(/[/?#]/)[0]
+      .replace(/^www\./, '')
+  }
+}
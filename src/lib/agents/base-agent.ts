@@ -1,9 +1,18 @@
+import { FeedParser, type ParsedFeed } from '../feed-parser'
+import { AgentFetcher, agentFetcher, type AgentFetchOptions } from './agent-fetcher'
+import { CanonicalUrl } from '../canonical-url'
+import { ArticleMerge } from '../article-merge'
+import { PublishDateResolver, type PublishDateConfidence, type PublishDateSource, type ResolvedPublishDate } from '../publish-date'
+
 export interface HistoricalArticle {
   title: string
   url: string
-  publishedDate: string
+  publishedDate?: string // ISO; omitted when no trustworthy date was found
+  publishedDateSource?: PublishDateSource
+  publishedDateConfidence?: PublishDateConfidence
   description?: string
   author?: string
+  needsEnrichment?: boolean // Title guessed from the URL (e.g. sitemap entries); the page should be visited for metadata
 }
 
 export interface AgentResult {
@@ -16,10 +25,66 @@ export interface AgentResult {
   metadata?: {
     platformDetected?: string
     methodsUsed?: string[]
+    feedUrl?: string // The feed that yielded articles, if one did
     totalTime?: number
   }
 }
 
+// Articles already stored for a source, for incremental collection
+export interface KnownArticles {
+  urls: Set<string> // CanonicalUrl.normalize'd
+  latestPublishedAt?: string
+}
+
+// One strategy's output from a collect() run, checkpointed so an interrupted collection can resume after it
+export interface StrategyCheckpoint {
+  agent: string
+  strategy: string
+  articles: HistoricalArticle[]
+  methodsUsed: string[]
+  errors: string[]
+  feedUrl?: string
+}
+
+// Checkpoints left by an interrupted collection of the same URL; finished strategies are replayed, not rerun
+export interface CollectionResume {
+  completed: StrategyCheckpoint[]
+  onStrategyComplete: (checkpoint: StrategyCheckpoint) => Promise<void> // Awaited before the next strategy starts
+}
+
+// What worked on a previous collection of the same source, so agents can try it first
+export interface CollectionHints {
+  feedUrl?: string
+  strategies?: string[] // Strategies that found articles last time; the others are skipped
+  known?: KnownArticles // Incremental mode: stop paginating once newest-first listings reach these
+  resume?: CollectionResume
+}
+
+// What a collect() run has gathered so far; each strategy appends to it
+export interface CollectedArticles {
+  articles: HistoricalArticle[]
+  errors: string[]
+  methodsUsed: string[]
+}
+
+export type AgentEventType = 'strategy-started' | 'page-fetched' | 'articles-found' | 'error'
+
+// Structured progress from a running collection, for live logs
+export interface AgentEvent {
+  type: AgentEventType
+  agent: string
+  strategy?: string // The strategy running when the event fired
+  url?: string // page-fetched
+  status?: number // page-fetched: HTTP status
+  page?: number // page-fetched: pages fetched so far by this strategy
+  articlesFound?: number // articles-found: articles this strategy just yielded
+  totalArticlesFound?: number // articles-found: articles found so far this run, before deduplication
+  message?: string // error
+  timestamp: string
+}
+
+export type AgentEventListener = (event: AgentEvent) => void
+
 export interface PlatformIndicators {
   urlPatterns: string[]
   htmlIndicators: string[]
@@ -30,6 +95,12 @@ export interface PlatformIndicators {
 export abstract class BaseAgent {
   abstract name: string
   abstract description: string
+  private robotsBlockedUrls: string[] = []
+  private eventListeners = new Set<AgentEventListener>()
+  private currentStrategy?: string
+  private strategyPages = 0
+  private totalArticlesFound = 0
+  private productiveStrategies: string[] = []
   
   /**
    * Quickly analyze if this agent can handle the URL
@@ -46,7 +117,7 @@ export abstract class BaseAgent {
   /**
    * Collect articles from the platform
    */
-  abstract collect(url: string): Promise<AgentResult>
+  abstract collect(url: string, hints?: CollectionHints): Promise<AgentResult>
   
   /**
    * Get platform-specific indicators for detection
@@ -54,52 +125,231 @@ export abstract class BaseAgent {
   abstract getPlatformIndicators(): PlatformIndicators
   
   /**
-   * Helper to build absolute URLs for server-side fetch
+   * Fetch a URL through the shared agent fetcher (retries, per-host limits, cache, robots.txt)
    */
-  protected getAbsoluteUrl(relativePath: string): string {
-    const baseUrl = process.env.VERCEL_URL 
-      ? `https://${process.env.VERCEL_URL}` 
-      : 'http://localhost:3000'
-    return `${baseUrl}${relativePath}`
+  protected async fetchUrl(url: string, options?: AgentFetchOptions): Promise<Response> {
+    const response = await agentFetcher.fetch(url, options)
+    if (AgentFetcher.isRobotsBlocked(response)) {
+      this.robotsBlockedUrls.push(url)
+      this.emit({ type: 'error', url, message: `Blocked by robots.txt: ${url}` })
+    } else if (this.currentStrategy) {
+      // Detection fetches (canHandle/verify) happen outside any strategy and aren't reported
+      this.emit({ type: 'page-fetched', url, status: response.status, page: ++this.strategyPages })
+    }
+    return response
+  }
+  
+  /**
+   * Subscribe to this agent's progress events; returns the unsubscribe function
+   */
+  onEvent(listener: AgentEventListener): () => void {
+    this.eventListeners.add(listener)
+    return () => {
+      this.eventListeners.delete(listener)
+    }
   }
   
   /**
-   * Helper to parse dates consistently
+   * Start a new run: clears the strategy and the running article count
    */
-  protected parseDate(dateStr: string): string {
-    try {
-      const parsed = new Date(dateStr)
-      if (!isNaN(parsed.getTime())) {
-        return parsed.toISOString()
+  resetProgress(): void {
+    this.currentStrategy = undefined
+    this.strategyPages = 0
+    this.totalArticlesFound = 0
+    this.productiveStrategies = []
+  }
+
+  /**
+   * Strategies that found articles since the last resetProgress(), for the source's collection profile
+   */
+  getProductiveStrategies(): string[] {
+    return [...this.productiveStrategies]
+  }
+  
+  protected emit(event: Omit<AgentEvent, 'agent' | 'strategy' | 'timestamp'>): void {
+    if (this.eventListeners.size === 0) return
+    
+    const agentEvent: AgentEvent = {
+      ...event,
+      agent: this.name,
+      strategy: this.currentStrategy,
+      timestamp: new Date().toISOString()
+    }
+    for (const listener of this.eventListeners) {
+      try {
+        listener(agentEvent)
+      } catch (error) {
+        console.error('Error in agent event listener:', error)
       }
-      
-      // Handle "Jan 2023" format
-      const monthYearMatch = dateStr.match(/([A-Za-z]+)\s+(\d{4})/)
-      if (monthYearMatch) {
-        const [, month, year] = monthYearMatch
-        const date = new Date(`${month} 1, ${year}`)
-        return date.toISOString()
+    }
+  }
+  
+  /**
+   * Run one collection strategy, appending what it finds to `collected`. Strategies missing from
+   * non-empty `hints.strategies` are skipped. A strategy an interrupted run already finished is
+   * replayed from its checkpoint instead; a finished one is checkpointed.
+   * Resolves to the feed URL the strategy settled on, if it returned one.
+   */
+  protected async runStrategy(
+    strategy: string,
+    collected: CollectedArticles,
+    hints: CollectionHints | undefined,
+    run: () => Promise<string | void>
+  ): Promise<string | undefined> {
+    if (hints?.strategies?.length && !hints.strategies.includes(strategy)) {
+      console.log(`⏭️ ${this.name}: Skipping ${strategy}, it found nothing last time`)
+      return undefined
+    }
+
+    const checkpoint = hints?.resume?.completed.find(completed =>
+      completed.agent === this.name && completed.strategy === strategy
+    )
+    if (checkpoint) {
+      console.log(`⏩ ${this.name}: ${strategy} finished before the restart (${checkpoint.articles.length} articles)`)
+      collected.articles.push(...checkpoint.articles)
+      collected.methodsUsed.push(...checkpoint.methodsUsed)
+      collected.errors.push(...checkpoint.errors)
+      if (checkpoint.articles.length > 0) this.productiveStrategies.push(strategy)
+      return checkpoint.feedUrl
+    }
+
+    const start = {
+      articles: collected.articles.length,
+      errors: collected.errors.length,
+      methodsUsed: collected.methodsUsed.length
+    }
+    this.startStrategy(strategy)
+    const feedUrl = (await run()) || undefined
+    if (collected.articles.length > start.articles) this.productiveStrategies.push(strategy)
+
+    await hints?.resume?.onStrategyComplete({
+      agent: this.name,
+      strategy,
+      articles: collected.articles.slice(start.articles),
+      methodsUsed: collected.methodsUsed.slice(start.methodsUsed),
+      errors: collected.errors.slice(start.errors),
+      feedUrl
+    })
+    return feedUrl
+  }
+  
+  /**
+   * Mark the start of a collection strategy; later page and article events are attributed to it
+   */
+  private startStrategy(strategy: string): void {
+    this.currentStrategy = strategy
+    this.strategyPages = 0
+    this.emit({ type: 'strategy-started' })
+  }
+  
+  /**
+   * Report articles the current strategy yielded
+   */
+  protected reportArticles(count: number): void {
+    this.totalArticlesFound += count
+    this.emit({ type: 'articles-found', articlesFound: count, totalArticlesFound: this.totalArticlesFound })
+  }
+  
+  /**
+   * Record a collection error in the result's errors and report it as it happens
+   */
+  protected recordError(errors: string[], message: string): void {
+    errors.push(message)
+    this.emit({ type: 'error', message })
+  }
+  
+  /**
+   * Drain the URLs robots.txt blocked since the last call, formatted for AgentResult.errors
+   */
+  takeRobotsErrors(): string[] {
+    const urls = [...new Set(this.robotsBlockedUrls)]
+    this.robotsBlockedUrls = []
+    return urls.map(url => `Blocked by robots.txt: ${url}`)
+  }
+  
+  /**
+   * Candidate feed URLs with the one that worked last time moved to the front
+   */
+  protected preferFeedUrl(feedUrls: string[], hints?: CollectionHints): string[] {
+    if (!hints?.feedUrl) return feedUrls
+    return [hints.feedUrl, ...feedUrls.filter(feedUrl => feedUrl !== hints.feedUrl)]
+  }
+  
+  /**
+   * Incremental mode: whether a newest-first batch (feed page, API page, listing page) reaches
+   * an article the source already has, so older pages don't need fetching
+   */
+  protected reachesKnownContent(articles: HistoricalArticle[], hints?: CollectionHints): boolean {
+    const known = hints?.known
+    if (!known) return false
+    
+    const latest = known.latestPublishedAt ? new Date(known.latestPublishedAt).getTime() : NaN
+    return articles.some(article =>
+      known.urls.has(CanonicalUrl.normalize(article.url)) ||
+      (!isNaN(latest) && !!article.publishedDate && new Date(article.publishedDate).getTime() <= latest)
+    )
+  }
+  
+  /**
+   * Helper to fetch a feed and parse it with the shared feed parser
+   */
+  protected async fetchFeed(feedUrl: string, options?: AgentFetchOptions): Promise<ParsedFeed> {
+    const response = await this.fetchUrl(feedUrl, {
+      ...options,
+      headers: {
+        'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml;q=0.9, */*;q=0.8',
+        ...options?.headers
       }
-      
-      return new Date().toISOString()
-    } catch {
-      return new Date().toISOString()
+    })
+    
+    if (!response.ok) {
+      throw new Error(`RSS fetch failed: ${response.status} ${response.statusText}`)
     }
+    
+    return FeedParser.parse(await response.text())
+  }
+  
+  /**
+   * Helper to parse dates consistently - undefined when the date can't be trusted
+   */
+  protected parseDate(dateStr?: string | null): string | undefined {
+    return PublishDateResolver.parse(dateStr) || undefined
+  }
+
+  /**
+   * HistoricalArticle date fields for a resolved date (all omitted when nothing was found)
+   */
+  protected dateFields(resolved: ResolvedPublishDate | null): Pick<HistoricalArticle, 'publishedDate' | 'publishedDateSource' | 'publishedDateConfidence'> {
+    if (!resolved) return {}
+    return {
+      publishedDate: resolved.date,
+      publishedDateSource: resolved.source,
+      publishedDateConfidence: resolved.confidence
+    }
+  }
+
+  /**
+   * Date for a sitemap entry: a date in the URL beats <lastmod>, which tracks edits
+   */
+  protected sitemapDateFields(url: string, lastmod?: string | null): Pick<HistoricalArticle, 'publishedDate' | 'publishedDateSource' | 'publishedDateConfidence'> {
+    return this.dateFields(PublishDateResolver.resolve(PublishDateResolver.fromUrl(url), PublishDateResolver.fromSitemap(lastmod)))
   }
   
   /**
    * Helper to deduplicate articles by URL
    */
   protected deduplicateAndSort(articles: HistoricalArticle[]): HistoricalArticle[] {
-    const seen = new Set<string>()
-    const unique = articles.filter(article => {
-      if (seen.has(article.url)) return false
-      seen.add(article.url)
-      return true
-    })
+    // http/https, www, trailing slash, tracking params and AMP variants collapse into one entry
+    const byUrl = new Map<string, HistoricalArticle>()
+    for (const article of articles) {
+      const key = CanonicalUrl.normalize(article.url)
+      const existing = byUrl.get(key)
+      byUrl.set(key, existing ? ArticleMerge.mergeHistorical(existing, article) : article)
+    }
     
-    return unique.sort((a, b) => 
-      new Date(b.publishedDate).getTime() - new Date(a.publishedDate).getTime()
+    // Newest first; undated articles go last
+    return Array.from(byUrl.values()).sort((a, b) => 
+      (b.publishedDate ? new Date(b.publishedDate).getTime() : 0) - (a.publishedDate ? new Date(a.publishedDate).getTime() : 0)
     )
   }
   
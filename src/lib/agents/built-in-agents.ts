@@ -0,0 +1,9 @@
+// Importing an agent module registers it with the AgentRegistry. New agents are added here.
+import './naval-agent'
+import './posthaven-agent'
+import './vccircle-agent'
+import './substack-agent'
+import './medium-agent'
+import './wordpress-agent'
+import './ghost-agent'
+import './universal-agent'
@@ -1,15 +1,18 @@
-import { BaseAgent, AgentResult, HistoricalArticle } from './base-agent'
-import { GhostAgent } from './ghost-agent'
-import { PosthavenAgent } from './posthaven-agent'
-import { WordPressAgent } from './wordpress-agent'
-import { SubstackAgent } from './substack-agent'
-import { MediumAgent } from './medium-agent'
-import { NavalAgent } from './naval-agent'
-import { UniversalAgent } from './universal-agent'
-import { VCCircleAgent } from './vccircle-agent'
+import { BaseAgent, AgentEventListener, AgentResult, CollectionHints, CollectionResume, HistoricalArticle, KnownArticles } from './base-agent'
+import { AgentRegistry, type AgentRegistryConfig } from './agent-registry'
+import './built-in-agents'
+
+// The agent and strategies that last collected a source, persisted on its row so later runs skip detection
+export interface CollectionProfile {
+  agent: string
+  platform?: string
+  feedUrl?: string
+  strategies: string[]
+}
 
 export interface OrchestrationResult extends AgentResult {
   agentUsed: string
+  profile?: CollectionProfile | null // Set when a run succeeded; null when a cached profile stopped working and nothing replaced it
   analysisResults?: {
     agentsAnalyzed: Array<{
       name: string
@@ -28,29 +31,90 @@ export interface OrchestrationResult extends AgentResult {
 
 export class CollectionOrchestrator {
   private agents: BaseAgent[]
+  private config: AgentRegistryConfig
   
-  constructor() {
-    // Register all available agents in priority order
-    // Specialized agents first, universal fallback last
-    this.agents = [
-      new NavalAgent(),        // Very high priority for nav.al
-      new PosthavenAgent(),    // High priority for Sam Altman's blog
-      new VCCircleAgent(),     // High priority for VCCircle financial news
-      new SubstackAgent(),     // High priority for newsletters
-      new MediumAgent(),       // High priority for Medium publications
-      new WordPressAgent(),    // High priority for WordPress sites
-      new GhostAgent(),        // Medium priority for Ghost CMS
-      new UniversalAgent()     // Always last as fallback
-    ]
+  constructor(config: AgentRegistryConfig = {}) {
+    // Enabled agents from the registry in priority order, universal fallback last
+    this.config = config
+    this.agents = AgentRegistry.createAgents(config)
+  }
+
+  /**
+   * Subscribe to progress events from every agent this orchestrator runs; returns the unsubscribe function
+   */
+  onEvent(listener: AgentEventListener): () => void {
+    const unsubscribes = this.agents.map(agent => agent.onEvent(listener))
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe())
   }
 
   /**
-   * Main entry point for historical article collection
+   * Main entry point for historical article collection. Pass the source's cached profile to
+   * skip detection for as long as its agent keeps finding articles, and its known articles to
+   * collect incrementally (agents stop paginating once they reach them). Pass resume to replay
+   * strategies an earlier, interrupted run already finished and to checkpoint each new one.
    */
-  async collectHistoricalArticles(url: string): Promise<OrchestrationResult> {
-    console.log(`🎯 Collection Orchestrator: Starting analysis for ${url}`)
+  async collectHistoricalArticles(
+    url: string,
+    cachedProfile?: CollectionProfile | null,
+    known?: KnownArticles,
+    resume?: CollectionResume
+  ): Promise<OrchestrationResult> {
+    const result = await this.collectWithProfile(url, cachedProfile, known, resume)
+    if (result.profile === undefined && cachedProfile) {
+      return { ...result, profile: null }
+    }
+    return result
+  }
+
+  private async collectWithProfile(
+    url: string,
+    cachedProfile?: CollectionProfile | null,
+    known?: KnownArticles,
+    resume?: CollectionResume
+  ): Promise<OrchestrationResult> {
+    console.log(`🎯 Collection Orchestrator: Starting ${known ? 'incremental ' : ''}analysis for ${url}`)
     
     try {
+      // A domain the user pinned to an agent skips analysis and verification
+      const overrideName = AgentRegistry.getDomainOverride(url, this.config)
+      const overrideAgent = overrideName && this.agents.find(agent => agent.name === overrideName)
+      if (overrideAgent) {
+        console.log(`📌 Orchestrator: Using ${overrideAgent.name} (domain override)`)
+        const hints = { ...(cachedProfile?.agent === overrideAgent.name ? cachedProfile : {}), known, resume }
+        const result = await this.runAgent(overrideAgent, url, hints)
+        return {
+          ...result,
+          agentUsed: overrideAgent.name,
+          profile: this.buildProfile(overrideAgent, result, hints),
+          analysisResults: {
+            agentsAnalyzed: [],
+            selectedAgent: overrideAgent.name,
+            selectionReason: 'Domain override'
+          }
+        }
+      }
+
+      // The agent that worked last time runs directly; detection only reruns once it stops finding articles
+      const cachedAgent = cachedProfile && this.agents.find(agent => agent.name === cachedProfile.agent)
+      if (cachedAgent) {
+        console.log(`♻️ Orchestrator: Reusing ${cachedAgent.name} from the previous collection`)
+        const hints = { ...cachedProfile, known, resume }
+        const result = await this.runAgent(cachedAgent, url, hints)
+        if (result.success && result.articlesFound > 0) {
+          return {
+            ...result,
+            agentUsed: cachedAgent.name,
+            profile: this.buildProfile(cachedAgent, result, hints),
+            analysisResults: {
+              agentsAnalyzed: [],
+              selectedAgent: cachedAgent.name,
+              selectionReason: 'Cached from previous collection'
+            }
+          }
+        }
+        console.log(`⚠️ Orchestrator: Cached ${cachedAgent.name} found nothing, re-detecting`)
+      }
+
       // Step 1: Analyze URL with all agents to get confidence scores
       const analysisResults = await this.analyzeUrl(url)
       
@@ -58,21 +122,22 @@ export class CollectionOrchestrator {
       const { selectedAgent, reason } = await this.selectBestAgent(url, analysisResults)
       
       if (!selectedAgent) {
-        return this.handleUnknownPlatform(url, analysisResults)
+        return this.handleUnknownPlatform(url, analysisResults, known, resume)
       }
       
       // Step 3: Verify the selected agent can actually handle this URL
       console.log(`🔍 Orchestrator: Verifying ${selectedAgent.name} can handle ${url}`)
       const canVerify = await selectedAgent.verify(url)
       
-      if (!canVerify && selectedAgent.name !== 'Universal Agent') {
-        console.log(`❌ Orchestrator: ${selectedAgent.name} verification failed, falling back to Universal Agent`)
-        const universalAgent = this.agents.find(a => a.name === 'Universal Agent')!
-        const result = await universalAgent.collect(url)
+      const universalAgent = this.getFallbackAgent()
+      if (!canVerify && selectedAgent !== universalAgent) {
+        console.log(`❌ Orchestrator: ${selectedAgent.name} verification failed, falling back to ${universalAgent.name}`)
+        const result = await this.runAgent(universalAgent, url, { known, resume })
         
         return {
           ...result,
           agentUsed: `${selectedAgent.name} (failed) → ${universalAgent.name}`,
+          profile: this.buildProfile(universalAgent, result, { known }),
           analysisResults: {
             agentsAnalyzed: analysisResults,
             selectedAgent: selectedAgent.name,
@@ -83,12 +148,13 @@ export class CollectionOrchestrator {
       
       // Step 4: Execute collection with the selected agent
       console.log(`🏛️ Orchestrator: Executing collection with ${selectedAgent.name}`)
-      const result = await selectedAgent.collect(url)
+      const result = await this.runAgent(selectedAgent, url, { known, resume })
       
       // Step 5: Enhance result with orchestration metadata
       return {
         ...result,
         agentUsed: selectedAgent.name,
+        profile: this.buildProfile(selectedAgent, result, { known }),
         analysisResults: {
           agentsAnalyzed: analysisResults,
           selectedAgent: selectedAgent.name,
@@ -101,12 +167,12 @@ export class CollectionOrchestrator {
       
       // Emergency fallback to Universal Agent
       try {
-        const universalAgent = this.agents.find(a => a.name === 'Universal Agent')!
-        const fallbackResult = await universalAgent.collect(url)
+        const universalAgent = this.getFallbackAgent()
+        const fallbackResult = await this.runAgent(universalAgent, url, { known, resume })
         
         return {
           ...fallbackResult,
-          agentUsed: 'Universal Agent (emergency fallback)',
+          agentUsed: `${universalAgent.name} (emergency fallback)`,
           errors: [`Orchestrator error: ${error}`, ...(fallbackResult.errors || [])]
         }
         
@@ -124,6 +190,56 @@ export class CollectionOrchestrator {
     }
   }
 
+  /**
+   * The registry's fallback agent, which is never disabled
+   */
+  private getFallbackAgent(): BaseAgent {
+    const fallbackName = AgentRegistry.getFallbackName()
+    const fallback = this.agents.find(agent => agent.name === fallbackName)
+    if (!fallback) {
+      throw new Error('No fallback agent registered')
+    }
+    return fallback
+  }
+
+  /**
+   * Profile to persist for a run, or undefined when it found nothing worth remembering.
+   * Incremental runs stop once the feed reaches known articles, skipping sitemaps and listing
+   * pages, so they keep the strategies they were given instead of narrowing them to what ran.
+   */
+  private buildProfile(agent: BaseAgent, result: AgentResult, hints: CollectionHints): CollectionProfile | undefined {
+    if (!result.success || result.articlesFound === 0) return undefined
+    return {
+      agent: agent.name,
+      platform: result.metadata?.platformDetected,
+      feedUrl: result.metadata?.feedUrl,
+      strategies: hints.known ? hints.strategies || [] : agent.getProductiveStrategies()
+    }
+  }
+
+  /**
+   * Run an agent and append any robots.txt blocks it hit to the result errors
+   */
+  private async runAgent(agent: BaseAgent, url: string, hints?: CollectionHints): Promise<AgentResult> {
+    agent.resetProgress()
+    let result: AgentResult
+    try {
+      result = await agent.collect(url, hints)
+    } catch (error) {
+      agent.takeRobotsErrors()
+      throw error
+    }
+    
+    const robotsErrors = agent.takeRobotsErrors()
+    if (robotsErrors.length === 0) return result
+    
+    console.log(`🤖 ${agent.name}: ${robotsErrors.length} URLs blocked by robots.txt`)
+    return {
+      ...result,
+      errors: [...(result.errors || []), ...robotsErrors]
+    }
+  }
+
   /**
    * Analyze URL with all agents to get confidence scores
    */
@@ -185,7 +301,7 @@ export class CollectionOrchestrator {
       reason += ' (high confidence match)'
     } else if (bestResult.confidence > 0.5) {
       reason += ' (medium confidence match)'
-    } else if (bestResult.name === 'Universal Agent') {
+    } else if (bestResult.name === AgentRegistry.getFallbackName()) {
       reason += ' (fallback agent)'
     } else {
       reason += ' (low confidence, may fallback)'
@@ -201,7 +317,9 @@ export class CollectionOrchestrator {
    */
   private async handleUnknownPlatform(
     url: string, 
-    analysisResults: Array<{ name: string; confidence: number; canHandle: boolean }>
+    analysisResults: Array<{ name: string; confidence: number; canHandle: boolean }>,
+    known?: KnownArticles,
+    resume?: CollectionResume
   ): Promise<OrchestrationResult> {
     
     console.log(`🚨 Unknown platform detected: ${url}`)
@@ -210,15 +328,16 @@ export class CollectionOrchestrator {
     const platformAnalysis = await this.analyzePlatformType(url)
     
     // Fall back to Universal Agent but flag for attention
-    const universalAgent = this.agents.find(a => a.name === 'Universal Agent')!
-    const result = await universalAgent.collect(url)
+    const universalAgent = this.getFallbackAgent()
+    const result = await this.runAgent(universalAgent, url, { known, resume })
     
     return {
       ...result,
-      agentUsed: 'Universal Agent (unknown platform)',
+      agentUsed: `${universalAgent.name} (unknown platform)`,
+      profile: this.buildProfile(universalAgent, result, { known }),
       analysisResults: {
         agentsAnalyzed: analysisResults,
-        selectedAgent: 'Universal Agent',
+        selectedAgent: universalAgent.name,
         selectionReason: 'No specialized agent available'
       },
       needsAttention: {
@@ -304,7 +423,7 @@ export class CollectionOrchestrator {
       recommendation: {
         agent: selectedAgent?.name || 'None',
         reason,
-        shouldCreateSpecializedAgent: !selectedAgent || selectedAgent.name === 'Universal Agent'
+        shouldCreateSpecializedAgent: !selectedAgent || selectedAgent === this.getFallbackAgent()
       }
     }
   }
@@ -1,5 +1,7 @@
 import { XMLParser } from 'fast-xml-parser'
-import { BaseAgent, AgentResult, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { BaseAgent, AgentResult, CollectionHints, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { AgentRegistry } from './agent-registry'
+import { PublishDateResolver } from '../publish-date'
 
 export class GhostAgent extends BaseAgent {
   name = 'Ghost CMS Agent'
@@ -40,7 +42,7 @@ export class GhostAgent extends BaseAgent {
       // Method 1: Check for Ghost API endpoint (most reliable)
       try {
         const ghostApiUrl = `${baseUrl}/ghost/api/v4/content/posts/?key=public&limit=1`
-        const apiResponse = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(ghostApiUrl)}`))
+        const apiResponse = await this.fetchUrl(ghostApiUrl)
         if (apiResponse.ok) {
           const content = await apiResponse.text()
           if (content.includes('"posts"') && content.includes('"meta"')) {
@@ -52,7 +54,7 @@ export class GhostAgent extends BaseAgent {
         // Try v3 API
         try {
           const ghostApiUrl = `${baseUrl}/ghost/api/v3/content/posts/?key=public&limit=1`
-          const apiResponse = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(ghostApiUrl)}`))
+          const apiResponse = await this.fetchUrl(ghostApiUrl)
           if (apiResponse.ok) {
             const content = await apiResponse.text()
             if (content.includes('"posts"') && content.includes('"meta"')) {
@@ -67,7 +69,7 @@ export class GhostAgent extends BaseAgent {
       
       // Method 2: Check HTML for Ghost-specific indicators
       try {
-        const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(url)}`))
+        const response = await this.fetchUrl(url)
         if (response.ok) {
           const html = await response.text()
           const ghostIndicators = [
@@ -96,7 +98,7 @@ export class GhostAgent extends BaseAgent {
       // Method 3: Check sitemap for Ghost patterns
       try {
         const sitemapUrl = `${baseUrl}/sitemap.xml`
-        const sitemapResponse = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(sitemapUrl)}`))
+        const sitemapResponse = await this.fetchUrl(sitemapUrl)
         if (sitemapResponse.ok) {
           const sitemapContent = await sitemapResponse.text()
           if (sitemapContent.includes('sitemap-posts.xml') || sitemapContent.includes('sitemap-pages.xml')) {
@@ -117,72 +119,88 @@ export class GhostAgent extends BaseAgent {
     }
   }
 
-  async collect(url: string): Promise<AgentResult> {
+  async collect(url: string, hints?: CollectionHints): Promise<AgentResult> {
     const startTime = Date.now()
     const articles: HistoricalArticle[] = []
     const errors: string[] = []
     const methodsUsed: string[] = []
+    const collected = { articles, errors, methodsUsed }
+    let workingFeedUrl: string | undefined
     
     try {
       console.log(`👻 Ghost Agent: Starting collection for ${url}`)
       const baseUrl = new URL(url).origin
       
       // Method 1: Try Ghost Content API (primary for Ghost)
-      console.log('🔌 Ghost Agent: Trying Ghost Content API...')
-      try {
-        const apiArticles = await this.collectFromGhostAPI(baseUrl)
-        if (apiArticles.length > 0) {
-          articles.push(...apiArticles)
-          methodsUsed.push('Ghost Content API')
-          console.log(`✅ Ghost Agent API: Found ${apiArticles.length} articles`)
+      await this.runStrategy('Ghost Content API', collected, hints, async () => {
+        console.log('🔌 Ghost Agent: Trying Ghost Content API...')
+        try {
+          const apiArticles = await this.collectFromGhostAPI(baseUrl)
+          if (apiArticles.length > 0) {
+            articles.push(...apiArticles)
+            methodsUsed.push('Ghost Content API')
+            this.reportArticles(apiArticles.length)
+            console.log(`✅ Ghost Agent API: Found ${apiArticles.length} articles`)
+          }
+        } catch (error) {
+          this.recordError(errors, `Ghost API: ${error}`)
         }
-      } catch (error) {
-        errors.push(`Ghost API: ${error}`)
-      }
+      })
       
       // Method 2: Try Ghost RSS feeds with pagination
-      console.log('📡 Ghost Agent: Trying RSS feeds...')
-      const rssUrls = [
-        `${baseUrl}/rss/`,
-        `${baseUrl}/feed/`,
-        `${baseUrl}/atom.xml`
-      ]
+      workingFeedUrl = await this.runStrategy('RSS feeds', collected, hints, async () => {
+        console.log('📡 Ghost Agent: Trying RSS feeds...')
+        const rssUrls = [
+          `${baseUrl}/rss/`,
+          `${baseUrl}/feed/`,
+          `${baseUrl}/atom.xml`
+        ]
       
-      for (const rssUrl of rssUrls) {
-        try {
-          const rssArticles = await this.collectFromRSSFeedWithPagination(rssUrl, 10)
-          if (rssArticles.length > 0) {
-            articles.push(...rssArticles)
-            methodsUsed.push(`RSS: ${rssUrl}`)
-            console.log(`✅ Ghost Agent RSS: Found ${rssArticles.length} articles from ${rssUrl}`)
-            break // Found working RSS feed
+        for (const rssUrl of this.preferFeedUrl(rssUrls, hints)) {
+          try {
+            const rssArticles = await this.collectFromRSSFeedWithPagination(rssUrl, 10, hints)
+            if (rssArticles.length > 0) {
+              articles.push(...rssArticles)
+              methodsUsed.push(`RSS: ${rssUrl}`)
+              this.reportArticles(rssArticles.length)
+              console.log(`✅ Ghost Agent RSS: Found ${rssArticles.length} articles from ${rssUrl}`)
+              return rssUrl // Found working RSS feed
+            }
+          } catch (error) {
+            // Continue to next RSS URL
           }
-        } catch (error) {
-          // Continue to next RSS URL
         }
-      }
+      })
       
-      // Method 3: Try Ghost sitemaps (comprehensive for Ghost)
-      console.log('🗺️ Ghost Agent: Trying Ghost sitemaps...')
-      const sitemapUrls = [
-        `${baseUrl}/sitemap.xml`,
-        `${baseUrl}/sitemap-posts.xml`
-      ]
+      // Incremental mode: an API or feed that reached known articles already holds everything new
+      if (this.reachesKnownContent(articles, hints)) {
+        console.log('⏭️ Ghost Agent: Reached known articles, skipping sitemaps')
+      } else {
+        // Method 3: Try Ghost sitemaps (comprehensive for Ghost)
+        await this.runStrategy('Sitemaps', collected, hints, async () => {
+          console.log('🗺️ Ghost Agent: Trying Ghost sitemaps...')
+          const sitemapUrls = [
+            `${baseUrl}/sitemap.xml`,
+            `${baseUrl}/sitemap-posts.xml`
+          ]
       
-      for (const sitemapUrl of sitemapUrls) {
-        try {
-          const checkResponse = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(sitemapUrl)}`))
-          if (checkResponse.ok) {
-            const sitemapArticles = await this.parseSitemap(sitemapUrl)
-            if (sitemapArticles.length > 0) {
-              articles.push(...sitemapArticles)
-              methodsUsed.push(`Sitemap: ${sitemapUrl}`)
-              console.log(`✅ Ghost Agent Sitemap: Found ${sitemapArticles.length} articles from ${sitemapUrl}`)
+          for (const sitemapUrl of sitemapUrls) {
+            try {
+              const checkResponse = await this.fetchUrl(sitemapUrl)
+              if (checkResponse.ok) {
+                const sitemapArticles = await this.parseSitemap(sitemapUrl)
+                if (sitemapArticles.length > 0) {
+                  articles.push(...sitemapArticles)
+                  methodsUsed.push(`Sitemap: ${sitemapUrl}`)
+                  this.reportArticles(sitemapArticles.length)
+                  console.log(`✅ Ghost Agent Sitemap: Found ${sitemapArticles.length} articles from ${sitemapUrl}`)
+                }
+              }
+            } catch (error) {
+              // Silently skip non-existent sitemaps
             }
           }
-        } catch (error) {
-          // Silently skip non-existent sitemaps
-        }
+        })
       }
       
       // Deduplicate and sort
@@ -201,6 +219,7 @@ export class GhostAgent extends BaseAgent {
         metadata: {
           platformDetected: 'Ghost CMS',
           methodsUsed,
+          feedUrl: workingFeedUrl,
           totalTime
         }
       }
@@ -216,6 +235,7 @@ export class GhostAgent extends BaseAgent {
         metadata: {
           platformDetected: 'Ghost CMS',
           methodsUsed,
+          feedUrl: workingFeedUrl,
           totalTime: Date.now() - startTime
         }
       }
@@ -231,15 +251,15 @@ export class GhostAgent extends BaseAgent {
     }
   }
 
-  private async collectFromRSSFeedWithPagination(rssUrl: string, maxPages: number = 10): Promise<HistoricalArticle[]> {
+  private async collectFromRSSFeedWithPagination(rssUrl: string, maxPages: number = 10, hints?: CollectionHints): Promise<HistoricalArticle[]> {
     const allArticles: HistoricalArticle[] = []
     
     // First, try the base RSS feed
     const baseArticles = await this.collectFromRSSFeed(rssUrl)
     allArticles.push(...baseArticles)
     
-    // Try pagination patterns
-    if (baseArticles.length > 0) {
+    // Try pagination patterns unless the first page already reaches known articles
+    if (baseArticles.length > 0 && !this.reachesKnownContent(baseArticles, hints)) {
       const paginationPatterns = ['page', 'p']
       
       for (const pattern of paginationPatterns) {
@@ -259,6 +279,11 @@ export class GhostAgent extends BaseAgent {
             } else {
               consecutiveEmptyPages = 0
               allArticles.push(...pageArticles)
+              
+              // Older pages only hold articles we already have
+              if (this.reachesKnownContent(pageArticles, hints)) {
+                return this.deduplicateAndSort(allArticles)
+              }
             }
             
             page++
@@ -280,79 +305,29 @@ export class GhostAgent extends BaseAgent {
   }
 
   private async collectFromRSSFeed(rssUrl: string): Promise<HistoricalArticle[]> {
-    const articles: HistoricalArticle[] = []
-    
     try {
-      const proxyUrl = this.getAbsoluteUrl(`/api/rss-proxy?url=${encodeURIComponent(rssUrl)}`)
-      const response = await fetch(proxyUrl)
-      
-      if (!response.ok) {
-        throw new Error(`RSS fetch failed: ${response.status}`)
-      }
-
-      const rssXml = await response.text()
-      const parser = new XMLParser({
-        ignoreAttributes: false,
-        attributeNamePrefix: '@_',
-        textNodeName: '#text',
-        parseAttributeValue: true,
-        trimValues: true
-      })
-      
-      const xmlDoc = parser.parse(rssXml)
-      
-      let items: any[] = []
-      let isAtom = false
-      
-      if (xmlDoc.feed && xmlDoc.feed.entry) {
-        isAtom = true
-        items = Array.isArray(xmlDoc.feed.entry) ? xmlDoc.feed.entry : [xmlDoc.feed.entry]
-      } else if (xmlDoc.rss && xmlDoc.rss.channel && xmlDoc.rss.channel.item) {
-        items = Array.isArray(xmlDoc.rss.channel.item) ? xmlDoc.rss.channel.item : [xmlDoc.rss.channel.item]
-      }
-      
-      for (const item of items) {
-        try {
-          let title, link, pubDate, description
-          
-          if (isAtom) {
-            title = item.title?.['#text'] || item.title
-            link = item.link?.['@_href'] || (Array.isArray(item.link) ? item.link[0]?.['@_href'] : item.link)
-            pubDate = item.published || item.updated
-            description = item.summary?.['#text'] || item.summary || item.content?.['#text'] || item.content
-          } else {
-            title = item.title?.['#text'] || item.title
-            link = item.link?.['#text'] || item.link
-            pubDate = item.pubDate || item['dc:date']
-            description = item.description?.['#text'] || item.description || item['content:encoded']?.['#text'] || item['content:encoded']
-          }
-          
-          if (title && link) {
-            articles.push({
-              title: typeof title === 'string' ? title.trim() : String(title).trim(),
-              url: typeof link === 'string' ? link.trim() : String(link).trim(),
-              publishedDate: pubDate ? this.parseDate(String(pubDate)) : new Date().toISOString(),
-              description: description ? (typeof description === 'string' ? description.trim() : String(description).trim()) : '',
-              author: new URL(rssUrl).hostname
-            })
-          }
-        } catch (itemError) {
-          // Skip invalid items
-        }
-      }
+      const feed = await this.fetchFeed(rssUrl)
       
+      return feed.items
+        .filter(item => item.title && item.link)
+        .map(item => ({
+          title: item.title,
+          url: item.link,
+          ...this.dateFields(PublishDateResolver.fromFeed(item.pubDate)),
+          description: item.description,
+          author: new URL(rssUrl).hostname
+        }))
     } catch (error) {
       throw new Error(`RSS collection failed: ${error}`)
     }
-    
-    return articles
   }
 
+
   private async parseSitemap(sitemapUrl: string): Promise<HistoricalArticle[]> {
     const articles: HistoricalArticle[] = []
     
     try {
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(sitemapUrl)}`))
+      const response = await this.fetchUrl(sitemapUrl)
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}`)
       }
@@ -386,7 +361,8 @@ export class GhostAgent extends BaseAgent {
             articles.push({
               title,
               url: loc,
-              publishedDate: urlElement.lastmod || new Date().toISOString(),
+              ...this.sitemapDateFields(loc, urlElement.lastmod),
+              needsEnrichment: true,
               author: new URL(sitemapUrl).hostname
             })
           }
@@ -412,7 +388,7 @@ export class GhostAgent extends BaseAgent {
       
       for (const api of apiVersions) {
         try {
-          const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(api.url)}`))
+          const response = await this.fetchUrl(api.url)
           
           if (response.ok) {
             const data = await response.json()
@@ -424,7 +400,7 @@ export class GhostAgent extends BaseAgent {
                 articles.push({
                   title: post.title || 'Untitled',
                   url: post.url || `${baseUrl}/${post.slug}`,
-                  publishedDate: this.parseDate(post.published_at || post.created_at),
+                  ...this.dateFields(PublishDateResolver.fromApi(post.published_at || post.created_at)),
                   description: post.excerpt || post.meta_description || '',
                   author: post.primary_author?.name || new URL(baseUrl).hostname
                 })
@@ -462,4 +438,6 @@ export class GhostAgent extends BaseAgent {
       .replace(/[-_]/g, ' ')
       .replace(/\b\w/g, l => l.toUpperCase())
   }
-} 
\ No newline at end of file
+}
+
+AgentRegistry.register(GhostAgent, { priority: 50 })
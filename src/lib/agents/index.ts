@@ -1,4 +1,4 @@
-export { BaseAgent, type HistoricalArticle, type AgentResult, type PlatformIndicators } from './base-agent'
+export { BaseAgent, type HistoricalArticle, type AgentResult, type PlatformIndicators, type CollectionHints, type KnownArticles, type AgentEvent, type AgentEventType, type AgentEventListener, type CollectionResume, type StrategyCheckpoint } from './base-agent'
 export { GhostAgent } from './ghost-agent'
 export { PosthavenAgent } from './posthaven-agent'
 export { VCCircleAgent } from './vccircle-agent'
@@ -7,13 +7,15 @@ export { SubstackAgent } from './substack-agent'
 export { MediumAgent } from './medium-agent'
 export { NavalAgent } from './naval-agent'
 export { UniversalAgent } from './universal-agent'
-export { CollectionOrchestrator, type OrchestrationResult } from './collection-orchestrator'
+export { CollectionOrchestrator, type OrchestrationResult, type CollectionProfile } from './collection-orchestrator'
+export { AgentRegistry, type AgentRegistryConfig, type AgentRegistration, type ConfiguredAgent } from './agent-registry'
 
 // Re-export the main interface for backward compatibility
 export type { HistoricalArticle as HistoricalCollectorResult } from './base-agent'
 
 // Import for local use
 import { CollectionOrchestrator } from './collection-orchestrator'
+import type { AgentRegistryConfig } from './agent-registry'
 
 // Main entry point for historical article collection
-export const createCollectionOrchestrator = () => new CollectionOrchestrator() 
\ No newline at end of file
+export const createCollectionOrchestrator = (config?: AgentRegistryConfig) => new CollectionOrchestrator(config)
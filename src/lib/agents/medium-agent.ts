@@ -1,5 +1,6 @@
-import { XMLParser } from 'fast-xml-parser'
-import { BaseAgent, AgentResult, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { BaseAgent, AgentResult, CollectionHints, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { AgentRegistry } from './agent-registry'
+import { PublishDateResolver } from '../publish-date'
 
 export class MediumAgent extends BaseAgent {
   name = 'Medium Agent'
@@ -17,7 +18,7 @@ export class MediumAgent extends BaseAgent {
 
   async verify(url: string): Promise<boolean> {
     try {
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(url)}`))
+      const response = await this.fetchUrl(url)
       if (!response.ok) return false
       
       const html = await response.text()
@@ -34,51 +35,60 @@ export class MediumAgent extends BaseAgent {
     }
   }
 
-  async collect(url: string): Promise<AgentResult> {
+  async collect(url: string, hints?: CollectionHints): Promise<AgentResult> {
     const startTime = Date.now()
     const articles: HistoricalArticle[] = []
     const errors: string[] = []
     const methodsUsed: string[] = []
+    const collected = { articles, errors, methodsUsed }
+    let workingFeedUrl: string | undefined
     
     try {
       const parsedUrl = new URL(url)
       
       // Method 1: Medium RSS feed
-      try {
-        let rssUrl: string
+      workingFeedUrl = await this.runStrategy('Medium RSS', collected, hints, async () => {
+        try {
+          let rssUrl: string
         
-        // Handle different Medium URL patterns
-        if (parsedUrl.pathname.startsWith('/@')) {
-          // User profile: medium.com/@username
-          rssUrl = `${parsedUrl.origin}/feed${parsedUrl.pathname}`
-        } else if (parsedUrl.hostname !== 'medium.com') {
-          // Custom domain publication: publication.com
-          rssUrl = `${parsedUrl.origin}/feed`
-        } else {
-          // Publication on Medium: medium.com/publication
-          rssUrl = `${parsedUrl.origin}/feed${parsedUrl.pathname}`
-        }
+          // Handle different Medium URL patterns
+          if (parsedUrl.pathname.startsWith('/@')) {
+            // User profile: medium.com/@username
+            rssUrl = `${parsedUrl.origin}/feed${parsedUrl.pathname}`
+          } else if (parsedUrl.hostname !== 'medium.com') {
+            // Custom domain publication: publication.com
+            rssUrl = `${parsedUrl.origin}/feed`
+          } else {
+            // Publication on Medium: medium.com/publication
+            rssUrl = `${parsedUrl.origin}/feed${parsedUrl.pathname}`
+          }
         
-        const rssArticles = await this.collectFromRSSFeed(rssUrl)
-        if (rssArticles.length > 0) {
-          articles.push(...rssArticles)
-          methodsUsed.push(`Medium RSS: ${rssUrl}`)
+          const rssArticles = await this.collectFromRSSFeed(rssUrl)
+          if (rssArticles.length > 0) {
+            articles.push(...rssArticles)
+            methodsUsed.push(`Medium RSS: ${rssUrl}`)
+            this.reportArticles(rssArticles.length)
+            return rssUrl
+          }
+        } catch (error) {
+          this.recordError(errors, `Medium RSS: ${error}`)
         }
-      } catch (error) {
-        errors.push(`Medium RSS: ${error}`)
-      }
+      })
       
       // Method 2: Archive/Latest page scraping
-      try {
-        const archiveUrl = url.endsWith('/') ? `${url}archive` : `${url}/archive`
-        const archiveArticles = await this.collectFromArchivePage(archiveUrl)
-        if (archiveArticles.length > 0) {
-          articles.push(...archiveArticles)
-          methodsUsed.push('Archive Page')
+      await this.runStrategy('Archive page', collected, hints, async () => {
+        try {
+          const archiveUrl = url.endsWith('/') ? `${url}archive` : `${url}/archive`
+          const archiveArticles = await this.collectFromArchivePage(archiveUrl)
+          if (archiveArticles.length > 0) {
+            articles.push(...archiveArticles)
+            methodsUsed.push('Archive Page')
+            this.reportArticles(archiveArticles.length)
+          }
+        } catch (error) {
+          this.recordError(errors, `Archive: ${error}`)
         }
-      } catch (error) {
-        errors.push(`Archive: ${error}`)
-      }
+      })
       
       const uniqueArticles = this.deduplicateAndSort(articles)
       
@@ -91,6 +101,7 @@ export class MediumAgent extends BaseAgent {
         metadata: {
           platformDetected: 'Medium',
           methodsUsed,
+          feedUrl: workingFeedUrl,
           totalTime: Date.now() - startTime
         }
       }
@@ -116,61 +127,29 @@ export class MediumAgent extends BaseAgent {
   }
 
   private async collectFromRSSFeed(rssUrl: string): Promise<HistoricalArticle[]> {
-    const articles: HistoricalArticle[] = []
-    
     try {
-      const proxyUrl = this.getAbsoluteUrl(`/api/rss-proxy?url=${encodeURIComponent(rssUrl)}`)
-      const response = await fetch(proxyUrl)
-      
-      if (!response.ok) throw new Error(`RSS fetch failed: ${response.status}`)
-
-      const rssXml = await response.text()
-      const parser = new XMLParser({
-        ignoreAttributes: false,
-        attributeNamePrefix: '@_',
-        textNodeName: '#text'
-      })
-      
-      const xmlDoc = parser.parse(rssXml)
-      
-      let items: any[] = []
-      if (xmlDoc.rss && xmlDoc.rss.channel && xmlDoc.rss.channel.item) {
-        items = Array.isArray(xmlDoc.rss.channel.item) ? xmlDoc.rss.channel.item : [xmlDoc.rss.channel.item]
-      }
-      
-      for (const item of items) {
-        try {
-          const title = item.title?.['#text'] || item.title
-          const link = item.link?.['#text'] || item.link || item.guid?.['#text'] || item.guid
-          const pubDate = item.pubDate
-          const description = item.description?.['#text'] || item.description
-          const creator = item['dc:creator'] || item.author
-          
-          if (title && link) {
-            articles.push({
-              title: typeof title === 'string' ? title.trim() : String(title).trim(),
-              url: typeof link === 'string' ? link.trim() : String(link).trim(),
-              publishedDate: pubDate ? this.parseDate(String(pubDate)) : new Date().toISOString(),
-              description: description ? String(description).replace(/<[^>]+>/g, '').substring(0, 200) : '',
-              author: creator ? String(creator) : this.extractMediumUsername(rssUrl)
-            })
-          }
-        } catch {
-          // Skip invalid items
-        }
-      }
+      const feed = await this.fetchFeed(rssUrl)
+      
+      return feed.items
+        .filter(item => item.title && item.link)
+        .map(item => ({
+          title: item.title,
+          url: item.link,
+          ...this.dateFields(PublishDateResolver.fromFeed(item.pubDate)),
+          description: item.description.substring(0, 200),
+          author: item.author || this.extractMediumUsername(rssUrl)
+        }))
     } catch (error) {
       throw new Error(`Medium RSS collection failed: ${error}`)
     }
-    
-    return articles
   }
 
+
   private async collectFromArchivePage(archiveUrl: string): Promise<HistoricalArticle[]> {
     const articles: HistoricalArticle[] = []
     
     try {
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(archiveUrl)}`))
+      const response = await this.fetchUrl(archiveUrl)
       
       if (!response.ok) throw new Error(`Archive page fetch failed: ${response.status}`)
       
@@ -193,7 +172,7 @@ export class MediumAgent extends BaseAgent {
           articles.push({
             title: title.trim(),
             url: url,
-            publishedDate: new Date().toISOString(),
+            ...this.dateFields(PublishDateResolver.fromUrl(url)),
             author: this.extractMediumUsername(url)
           })
         }
@@ -210,7 +189,7 @@ export class MediumAgent extends BaseAgent {
           articles.push({
             title: title.trim(),
             url: fullUrl,
-            publishedDate: new Date().toISOString(),
+            ...this.dateFields(PublishDateResolver.fromUrl(fullUrl)),
             author: this.extractMediumUsername(fullUrl)
           })
         }
@@ -243,4 +222,6 @@ export class MediumAgent extends BaseAgent {
       return 'Medium'
     }
   }
-} 
\ No newline at end of file
+}
+
+AgentRegistry.register(MediumAgent, { priority: 70 })
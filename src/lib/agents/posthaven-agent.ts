@@ -1,5 +1,6 @@
-import { XMLParser } from 'fast-xml-parser'
-import { BaseAgent, AgentResult, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { BaseAgent, AgentResult, CollectionHints, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { AgentRegistry } from './agent-registry'
+import { PublishDateResolver } from '../publish-date'
 
 export class PosthavenAgent extends BaseAgent {
   name = 'Posthaven Agent'
@@ -17,7 +18,7 @@ export class PosthavenAgent extends BaseAgent {
 
   async verify(url: string): Promise<boolean> {
     try {
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(url)}`))
+      const response = await this.fetchUrl(url)
       if (!response.ok) return false
       
       const html = await response.text()
@@ -27,25 +28,29 @@ export class PosthavenAgent extends BaseAgent {
     }
   }
 
-  async collect(url: string): Promise<AgentResult> {
+  async collect(url: string, hints?: CollectionHints): Promise<AgentResult> {
     const startTime = Date.now()
     const articles: HistoricalArticle[] = []
     const errors: string[] = []
     const methodsUsed: string[] = []
+    const collected = { articles, errors, methodsUsed }
     
     try {
       const baseUrl = new URL(url).origin
       
       // Web page pagination (primary for Posthaven)
-      try {
-        const webPageArticles = await this.collectFromWebPagePagination(baseUrl, 20)
-        if (webPageArticles.length > 0) {
-          articles.push(...webPageArticles)
-          methodsUsed.push('Web Page Pagination')
+      await this.runStrategy('Web page pagination', collected, hints, async () => {
+        try {
+          const webPageArticles = await this.collectFromWebPagePagination(baseUrl, 20, hints)
+          if (webPageArticles.length > 0) {
+            articles.push(...webPageArticles)
+            methodsUsed.push('Web Page Pagination')
+            this.reportArticles(webPageArticles.length)
+          }
+        } catch (error) {
+          this.recordError(errors, `Web Page Pagination: ${error}`)
         }
-      } catch (error) {
-        errors.push(`Web Page Pagination: ${error}`)
-      }
+      })
       
       const uniqueArticles = this.deduplicateAndSort(articles)
       
@@ -83,14 +88,14 @@ export class PosthavenAgent extends BaseAgent {
     }
   }
 
-  private async collectFromWebPagePagination(baseUrl: string, maxPages: number = 20): Promise<HistoricalArticle[]> {
+  private async collectFromWebPagePagination(baseUrl: string, maxPages: number = 20, hints?: CollectionHints): Promise<HistoricalArticle[]> {
     const allArticles: HistoricalArticle[] = []
     let consecutiveEmptyPages = 0
     
     for (let page = 1; page <= maxPages && consecutiveEmptyPages < 3; page++) {
       try {
         const pageUrl = page === 1 ? baseUrl : `${baseUrl}/?page=${page}`
-        const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(pageUrl)}`))
+        const response = await this.fetchUrl(pageUrl)
         
         if (!response.ok) {
           consecutiveEmptyPages++
@@ -105,6 +110,9 @@ export class PosthavenAgent extends BaseAgent {
         } else {
           consecutiveEmptyPages = 0
           allArticles.push(...pageArticles)
+          
+          // Posts are listed newest first; older pages only hold ones we already have
+          if (this.reachesKnownContent(pageArticles, hints)) break
         }
         
         await new Promise(resolve => setTimeout(resolve, 1000)) // Rate limiting
@@ -178,18 +186,16 @@ export class PosthavenAgent extends BaseAgent {
               .substring(0, 200)
           }
           
-          // Extract date from footer
+          // Extract date from footer (Posthaven's machine-readable post timestamp)
           const dateMatch = container.match(/data-unix-time="(\d+)"/i)
-          let publishedDate = new Date().toISOString()
-          if (dateMatch) {
-            const unixTime = parseInt(dateMatch[1])
-            publishedDate = new Date(unixTime * 1000).toISOString()
-          }
+          const unixDate = dateMatch ? PublishDateResolver.parse(new Date(parseInt(dateMatch[1]) * 1000).toISOString()) : null
           
           articles.push({
             title: cleanTitle,
             url: fullUrl,
-            publishedDate,
+            ...this.dateFields(unixDate
+              ? { date: unixDate, source: 'time-element', confidence: 'high' }
+              : PublishDateResolver.fromUrl(fullUrl)),
             description,
             author: new URL(baseUrl).hostname
           })
@@ -210,4 +216,6 @@ export class PosthavenAgent extends BaseAgent {
     return articles
   }
 
-} 
\ No newline at end of file
+}
+
+AgentRegistry.register(PosthavenAgent, { priority: 90 })
@@ -0,0 +1,121 @@
+interface RobotsRule {
+  allow: boolean
+  pattern: string
+}
+
+interface RobotsGroup {
+  userAgents: string[]
+  rules: RobotsRule[]
+  crawlDelay?: number // seconds
+}
+
+/**
+ * Minimal robots.txt parser (user-agent groups, Allow/Disallow with * and $ wildcards, Crawl-delay)
+ */
+export class RobotsTxt {
+  private groups: RobotsGroup[] = []
+
+  constructor(content: string) {
+    this.parse(content)
+  }
+
+  /**
+   * Check whether a URL path may be fetched by the given user agent
+   */
+  isAllowed(url: string, userAgent: string): boolean {
+    const group = this.getGroup(userAgent)
+    if (!group) return true
+
+    const parsed = new URL(url)
+    const path = parsed.pathname + parsed.search
+
+    // Longest matching rule wins; Allow wins ties
+    let match: RobotsRule | null = null
+    for (const rule of group.rules) {
+      if (!this.matches(rule.pattern, path)) continue
+      if (
+        !match ||
+        rule.pattern.length > match.pattern.length ||
+        (rule.pattern.length === match.pattern.length && rule.allow)
+      ) {
+        match = rule
+      }
+    }
+
+    return match ? match.allow : true
+  }
+
+  /**
+   * Crawl-delay in seconds for the given user agent, if the site sets one
+   */
+  getCrawlDelay(userAgent: string): number | null {
+    const delay = this.getGroup(userAgent)?.crawlDelay
+    return delay !== undefined ? delay : null
+  }
+
+  private parse(content: string): void {
+    let current: RobotsGroup | null = null
+    let lastWasUserAgent = false
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim()
+      if (!line) continue
+
+      const separator = line.indexOf(':')
+      if (separator === -1) continue
+
+      const field = line.slice(0, separator).trim().toLowerCase()
+      const value = line.slice(separator + 1).trim()
+
+      if (field === 'user-agent') {
+        // Consecutive User-agent lines share one group
+        if (!current || !lastWasUserAgent) {
+          current = { userAgents: [], rules: [] }
+          this.groups.push(current)
+        }
+        current.userAgents.push(this.getProductToken(value))
+        lastWasUserAgent = true
+        continue
+      }
+
+      lastWasUserAgent = false
+      if (!current) continue
+
+      if (field === 'allow' || field === 'disallow') {
+        // An empty Disallow means "allow everything"
+        if (!value) continue
+        current.rules.push({ allow: field === 'allow', pattern: value })
+      } else if (field === 'crawl-delay') {
+        const delay = parseFloat(value)
+        if (!isNaN(delay) && delay >= 0) current.crawlDelay = delay
+      }
+    }
+  }
+
+  private getGroup(userAgent: string): RobotsGroup | null {
+    // Product tokens must match exactly; only "*" is a wildcard
+    const token = this.getProductToken(userAgent)
+
+    return (
+      this.groups.find(group => group.userAgents.includes(token)) ||
+      this.groups.find(group => group.userAgents.includes('*')) ||
+      null
+    )
+  }
+
+  // Lowercased product token, e.g. "bloghubbot" from "BlogHubBot/1.0 (+https://...)"
+  private getProductToken(userAgent: string): string {
+    return userAgent.trim().split(/[\s/]/)[0].toLowerCase()
+  }
+
+  private matches(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$')
+    const body = anchored ? pattern.slice(0, -1) : pattern
+    const regex = body
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')
+
+    return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path)
+  }
+}
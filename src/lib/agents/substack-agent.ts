@@ -1,5 +1,6 @@
-import { XMLParser } from 'fast-xml-parser'
-import { BaseAgent, AgentResult, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { BaseAgent, AgentResult, CollectionHints, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { AgentRegistry } from './agent-registry'
+import { PublishDateResolver } from '../publish-date'
 
 export class SubstackAgent extends BaseAgent {
   name = 'Substack Agent'
@@ -75,7 +76,7 @@ export class SubstackAgent extends BaseAgent {
 
   private async performDeepSubstackAnalysis(url: string): Promise<number> {
     try {
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(url)}`))
+      const response = await this.fetchUrl(url)
       if (!response.ok) return 0.1
       
       const html = await response.text()
@@ -175,7 +176,7 @@ export class SubstackAgent extends BaseAgent {
     
     for (const feedUrl of possibleFeeds) {
       try {
-        const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(feedUrl)}`))
+        const response = await this.fetchUrl(feedUrl)
         if (!response.ok) continue
         
         const xmlContent = await response.text()
@@ -239,7 +240,7 @@ export class SubstackAgent extends BaseAgent {
 
   async verify(url: string): Promise<boolean> {
     try {
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(url)}`))
+      const response = await this.fetchUrl(url)
       if (!response.ok) return false
       
       const html = await response.text()
@@ -264,11 +265,13 @@ export class SubstackAgent extends BaseAgent {
 
 
 
-  async collect(url: string): Promise<AgentResult> {
+  async collect(url: string, hints?: CollectionHints): Promise<AgentResult> {
     const startTime = Date.now()
     const articles: HistoricalArticle[] = []
     const errors: string[] = []
     const methodsUsed: string[] = []
+    const collected = { articles, errors, methodsUsed }
+    let workingFeedUrl: string | undefined
     
     try {
       const baseUrl = new URL(url).origin
@@ -277,100 +280,117 @@ export class SubstackAgent extends BaseAgent {
       console.log(`📡 Substack Agent: Starting collection for ${domain}`)
       
       // Method 1: Enhanced RSS feed collection (custom domains often use different paths)
-      const rssUrls = [
-        `${baseUrl}/feed`,
-        `${baseUrl}/feed.xml`,
-        `${baseUrl}/rss`,
-        `${baseUrl}/rss.xml`,
-        // Custom domain alternatives
-        `${baseUrl}/newsletter/feed`,
-        `${baseUrl}/posts/feed`,
-        `${baseUrl}/index.xml`,
-        `${baseUrl}/atom.xml`,
-        // Substack-specific patterns
-        `${baseUrl}/feed.rss`,
-        `${baseUrl}/newsletters/feed`
-      ]
+      workingFeedUrl = await this.runStrategy('RSS feeds', collected, hints, async () => {
+        const rssUrls = [
+          `${baseUrl}/feed`,
+          `${baseUrl}/feed.xml`,
+          `${baseUrl}/rss`,
+          `${baseUrl}/rss.xml`,
+          // Custom domain alternatives
+          `${baseUrl}/newsletter/feed`,
+          `${baseUrl}/posts/feed`,
+          `${baseUrl}/index.xml`,
+          `${baseUrl}/atom.xml`,
+          // Substack-specific patterns
+          `${baseUrl}/feed.rss`,
+          `${baseUrl}/newsletters/feed`
+        ]
       
-      for (const rssUrl of rssUrls) {
-        try {
-          console.log(`📡 Substack Agent: Trying RSS feed ${rssUrl}`)
-          const rssArticles = await this.collectFromRSSFeed(rssUrl)
-          if (rssArticles.length > 0) {
-            console.log(`📡 Substack Agent: Found ${rssArticles.length} articles from RSS`)
-            articles.push(...rssArticles)
-            methodsUsed.push(`Substack RSS: ${rssUrl}`)
-            break // Use first successful RSS feed
+        for (const rssUrl of this.preferFeedUrl(rssUrls, hints)) {
+          try {
+            console.log(`📡 Substack Agent: Trying RSS feed ${rssUrl}`)
+            const rssArticles = await this.collectFromRSSFeed(rssUrl)
+            if (rssArticles.length > 0) {
+              console.log(`📡 Substack Agent: Found ${rssArticles.length} articles from RSS`)
+              articles.push(...rssArticles)
+              methodsUsed.push(`Substack RSS: ${rssUrl}`)
+              this.reportArticles(rssArticles.length)
+              return rssUrl // Use first successful RSS feed
+            }
+          } catch (error) {
+            console.log(`📡 Substack Agent: RSS ${rssUrl} failed: ${error}`)
           }
-        } catch (error) {
-          console.log(`📡 Substack Agent: RSS ${rssUrl} failed: ${error}`)
         }
-      }
-      
-      // Method 2: Enhanced Archive Page Collection (custom domains use different structures)
-      const archiveUrls = [
-        `${baseUrl}/archive`,
-        `${baseUrl}/archive?sort=new`,
-        `${baseUrl}/archive?sort=old`,
-        `${baseUrl}/posts`,
-        `${baseUrl}/newsletter`,
-        `${baseUrl}/newsletters`,
-        `${baseUrl}/articles`,
-        `${baseUrl}/issues`,
-        // Pagination attempts
-        `${baseUrl}/archive?page=1`,
-        `${baseUrl}/archive?page=2`,
-        `${baseUrl}/archive?page=3`,
-        // Date-based archives
-        `${baseUrl}/archive/2024`,
-        `${baseUrl}/archive/2023`,
-        // Sitemap
-        `${baseUrl}/sitemap.xml`
-      ]
+      })
+      
+      // Incremental mode: a feed that reached known posts already holds everything new
+      if (this.reachesKnownContent(articles, hints)) {
+        console.log('⏭️ Substack Agent: RSS reached known posts, skipping archives and sitemap')
+      } else {
+        // Method 2: Enhanced Archive Page Collection (custom domains use different structures)
+        await this.runStrategy('Archive pages', collected, hints, async () => {
+          const archiveUrls = [
+            `${baseUrl}/archive`,
+            `${baseUrl}/archive?sort=new`,
+            `${baseUrl}/archive?sort=old`,
+            `${baseUrl}/posts`,
+            `${baseUrl}/newsletter`,
+            `${baseUrl}/newsletters`,
+            `${baseUrl}/articles`,
+            `${baseUrl}/issues`,
+            // Pagination attempts
+            `${baseUrl}/archive?page=1`,
+            `${baseUrl}/archive?page=2`,
+            `${baseUrl}/archive?page=3`,
+            // Date-based archives
+            `${baseUrl}/archive/2024`,
+            `${baseUrl}/archive/2023`,
+            // Sitemap
+            `${baseUrl}/sitemap.xml`
+          ]
       
-      for (const archiveUrl of archiveUrls) {
-        try {
-          console.log(`📚 Substack Agent: Trying archive ${archiveUrl}`)
-          const archiveArticles = await this.collectFromArchivePage(archiveUrl)
-          if (archiveArticles.length > 0) {
-            console.log(`📚 Substack Agent: Found ${archiveArticles.length} articles from ${archiveUrl}`)
-            articles.push(...archiveArticles)
-            methodsUsed.push(`Archive: ${archiveUrl}`)
+          for (const archiveUrl of archiveUrls) {
+            try {
+              console.log(`📚 Substack Agent: Trying archive ${archiveUrl}`)
+              const archiveArticles = await this.collectFromArchivePage(archiveUrl)
+              if (archiveArticles.length > 0) {
+                console.log(`📚 Substack Agent: Found ${archiveArticles.length} articles from ${archiveUrl}`)
+                articles.push(...archiveArticles)
+                methodsUsed.push(`Archive: ${archiveUrl}`)
+                this.reportArticles(archiveArticles.length)
             
-            // If we found a lot of articles from archive, stop here
-            if (archiveArticles.length > 30) break
+                // If we found a lot of articles from archive, stop here
+                if (archiveArticles.length > 30) break
+              }
+            } catch (error) {
+              console.log(`⚠️ Archive ${archiveUrl} failed: ${error}`)
+            }
           }
-        } catch (error) {
-          console.log(`⚠️ Archive ${archiveUrl} failed: ${error}`)
-        }
-      }
+        })
 
-      // Method 3: Enhanced sitemap collection
-      try {
-        console.log(`🗺️ Substack Agent: Collecting from sitemap`)
-        const sitemapArticles = await this.collectFromSitemap(`${baseUrl}/sitemap.xml`)
-        if (sitemapArticles.length > 0) {
-          console.log(`🗺️ Substack Agent: Found ${sitemapArticles.length} articles from sitemap`)
-          articles.push(...sitemapArticles)
-          methodsUsed.push('Sitemap')
-        }
-      } catch (error) {
-        console.log(`⚠️ Sitemap collection failed: ${error}`)
-        errors.push(`Sitemap: ${error}`)
-      }
-      
-      // Method 4: Custom domain specific methods (try to scrape main page for newsletter structure)
-      if (!domain.endsWith('.substack.com') && articles.length < 30) {
-        try {
-          console.log(`🏠 Substack Agent: Trying main page scraping for custom domain`)
-          const mainPageArticles = await this.collectFromMainPage(baseUrl)
-          if (mainPageArticles.length > 0) {
-            console.log(`🏠 Substack Agent: Found ${mainPageArticles.length} articles from main page`)
-            articles.push(...mainPageArticles)
-            methodsUsed.push('Main Page Scraping')
+        // Method 3: Enhanced sitemap collection
+        await this.runStrategy('Sitemap', collected, hints, async () => {
+          try {
+            console.log(`🗺️ Substack Agent: Collecting from sitemap`)
+            const sitemapArticles = await this.collectFromSitemap(`${baseUrl}/sitemap.xml`)
+            if (sitemapArticles.length > 0) {
+              console.log(`🗺️ Substack Agent: Found ${sitemapArticles.length} articles from sitemap`)
+              articles.push(...sitemapArticles)
+              methodsUsed.push('Sitemap')
+              this.reportArticles(sitemapArticles.length)
+            }
+          } catch (error) {
+            console.log(`⚠️ Sitemap collection failed: ${error}`)
+            this.recordError(errors, `Sitemap: ${error}`)
           }
-        } catch (error) {
-          console.log(`⚠️ Main page scraping failed: ${error}`)
+        })
+      
+        // Method 4: Custom domain specific methods (try to scrape main page for newsletter structure)
+        if (!domain.endsWith('.substack.com') && articles.length < 30) {
+          await this.runStrategy('Main page scraping', collected, hints, async () => {
+            try {
+              console.log(`🏠 Substack Agent: Trying main page scraping for custom domain`)
+              const mainPageArticles = await this.collectFromMainPage(baseUrl)
+              if (mainPageArticles.length > 0) {
+                console.log(`🏠 Substack Agent: Found ${mainPageArticles.length} articles from main page`)
+                articles.push(...mainPageArticles)
+                methodsUsed.push('Main Page Scraping')
+                this.reportArticles(mainPageArticles.length)
+              }
+            } catch (error) {
+              console.log(`⚠️ Main page scraping failed: ${error}`)
+            }
+          })
         }
       }
       
@@ -387,6 +407,7 @@ export class SubstackAgent extends BaseAgent {
         metadata: {
           platformDetected: `Substack${domain.endsWith('.substack.com') ? '' : ' (Custom Domain)'}`,
           methodsUsed,
+          feedUrl: workingFeedUrl,
           totalTime: Date.now() - startTime
         }
       }
@@ -417,89 +438,44 @@ export class SubstackAgent extends BaseAgent {
     
     try {
       console.log(`📡 Substack Agent: Collecting from RSS feed ${rssUrl}`)
-      const response = await fetch(this.getAbsoluteUrl(`/api/rss-proxy?url=${encodeURIComponent(rssUrl)}`))
-      
-      if (!response.ok) throw new Error(`RSS fetch failed: ${response.status}`)
+      const feed = await this.fetchFeed(rssUrl)
       
-      const rssText = await response.text()
-      console.log(`📡 Substack Agent: Got RSS content (${rssText.length} chars)`)
+      console.log(`📡 Substack Agent: Found ${feed.items.length} RSS items`)
       
-      // Extract items using proper RSS parsing
-      const itemMatches = rssText.match(/<item>[\s\S]*?<\/item>/gi)
-      
-      if (!itemMatches) {
-        console.log(`⚠️ Substack Agent: No RSS items found`)
-        return articles
-      }
-      
-      console.log(`📡 Substack Agent: Found ${itemMatches.length} RSS items`)
-      
-      for (let i = 0; i < itemMatches.length; i++) {
-        const item = itemMatches[i]
-        try {
-          // Extract title from CDATA - try multiple patterns
-          let title = null
-          const titlePatterns = [
-            /<title><!\[CDATA\[(.*?)\]\]><\/title>/,
-            /<title>(.*?)<\/title>/
-          ]
-          
-          for (const pattern of titlePatterns) {
-            const match = item.match(pattern)
-            if (match) {
-              title = match[1].trim()
-              break
-            }
-          }
-          
-          // Extract link
-          const linkMatch = item.match(/<link>(.*?)<\/link>/)
-          const url = linkMatch ? linkMatch[1].trim() : null
-          
-          // Extract date
-          const dateMatch = item.match(/<pubDate>(.*?)<\/pubDate>/)
-          const dateStr = dateMatch ? dateMatch[1].trim() : null
-          
-          console.log(`🔍 RSS Item ${i + 1}: title="${title}" url="${url}"`)
-          
-          if (title && url) {
-            // Validate it's a real article URL
-            if (url.includes('/p/') || url.includes('substack.com')) {
-              // Parse date
-              let publishedDate = new Date()
-              if (dateStr) {
-                try {
-                  publishedDate = new Date(dateStr)
-                } catch (e) {
-                  console.log(`⚠️ Date parse error: ${dateStr}`)
-                }
-              }
-              
-              const cleanTitle = this.cleanTitle(title)
-              
-              // Additional validation - skip UI elements
-              if (!this.isValidSubstackTitle(cleanTitle)) {
-                console.log(`⚠️ Skipping invalid title: "${cleanTitle}"`)
-                continue
-              }
-              
-              articles.push({
-                title: cleanTitle,
-                url: url,
-                publishedDate: publishedDate.toISOString(),
-                description: title.length > 50 ? title.substring(0, 200) + '...' : title
-              })
-              
-              console.log(`✅ Substack RSS: "${cleanTitle}" (${publishedDate.toISOString().split('T')[0]})`)
-            } else {
-              console.log(`⚠️ Invalid URL: ${url}`)
-            }
-          } else {
-            console.log(`⚠️ Missing title or URL in RSS item ${i + 1}`)
-          }
-        } catch (error) {
-          console.log(`⚠️ Error parsing RSS item ${i + 1}: ${error}`)
+      for (const item of feed.items) {
+        const title = this.cleanTitle(item.title)
+        const url = item.link
+        
+        if (!title || !url) {
+          console.log(`⚠️ Missing title or URL in RSS item`)
+          continue
+        }
+        
+        // Validate it's a real article URL
+        if (!url.includes('/p/') && !url.includes('substack.com')) {
+          console.log(`⚠️ Invalid URL: ${url}`)
+          continue
+        }
+        
+        // Additional validation - skip UI elements
+        if (!this.isValidSubstackTitle(title)) {
+          console.log(`⚠️ Skipping invalid title: "${title}"`)
+          continue
         }
+        
+        const publishedDate = PublishDateResolver.fromFeed(item.pubDate)
+        
+        articles.push({
+          title,
+          url,
+          ...this.dateFields(publishedDate),
+          description: item.description
+            ? this.extractCleanDescription(item.description)
+            : title.substring(0, 200),
+          author: item.author || undefined
+        })
+        
+        console.log(`✅ Substack RSS: "${title}" (${publishedDate?.date.split('T')[0] || 'undated'})`)
       }
       
     } catch (error) {
@@ -510,6 +486,7 @@ export class SubstackAgent extends BaseAgent {
     return articles
   }
 
+
   private cleanTitle(title: string): string {
     return title
       .replace(/&quot;/g, '"')
@@ -540,7 +517,7 @@ export class SubstackAgent extends BaseAgent {
     
     try {
       console.log(`📚 Substack Agent: Collecting from archive page ${archiveUrl}`)
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(archiveUrl)}`))
+      const response = await this.fetchUrl(archiveUrl)
       
       if (!response.ok) throw new Error(`Archive page fetch failed: ${response.status}`)
       
@@ -593,9 +570,7 @@ export class SubstackAgent extends BaseAgent {
           if (title && url && this.isValidSubstackTitle(title)) {
             const fullUrl = url.startsWith('/') ? baseUrl + url : url
             
-            // Extract date from URL if possible
-            const dateMatch = url.match(/\/p\/[^/]*-([a-f0-9]+)/)
-            let publishedDate = new Date().toISOString()
+            let contextDate: string | undefined
             
             // Try to extract date from surrounding context
             const contextStart = Math.max(0, match.index - 300)
@@ -611,20 +586,8 @@ export class SubstackAgent extends BaseAgent {
             for (const datePattern of datePatterns) {
               const dateMatch = context.match(datePattern)
               if (dateMatch) {
-                try {
-                  if (dateMatch[1] && dateMatch[2] && dateMatch[3]) {
-                    if (dateMatch[0].includes('-')) {
-                      // YYYY-MM-DD format
-                      publishedDate = new Date(`${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`).toISOString()
-                    } else {
-                      // Month Day, Year format
-                      publishedDate = new Date(`${dateMatch[2]} ${dateMatch[1]}, ${dateMatch[3]}`).toISOString()
-                    }
-                  }
-                  break
-                } catch {
-                  // Keep default date
-                }
+                contextDate = dateMatch[0]
+                break
               }
             }
             
@@ -633,7 +596,7 @@ export class SubstackAgent extends BaseAgent {
             articles.push({
               title: title.trim(),
               url: fullUrl,
-              publishedDate,
+              ...this.dateFields(PublishDateResolver.resolve(PublishDateResolver.fromText(contextDate), PublishDateResolver.fromUrl(fullUrl))),
               description: `Newsletter post from ${new URL(baseUrl).hostname.replace('.substack.com', '')}`,
               author: new URL(baseUrl).hostname.replace('.substack.com', '')
             })
@@ -685,7 +648,7 @@ export class SubstackAgent extends BaseAgent {
     
     try {
       console.log(`🗺️ Substack Agent: Fetching sitemap ${sitemapUrl}`)
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(sitemapUrl)}`))
+      const response = await this.fetchUrl(sitemapUrl)
       
       if (!response.ok) throw new Error(`Sitemap fetch failed: ${response.status}`)
       
@@ -717,24 +680,18 @@ export class SubstackAgent extends BaseAgent {
             // Extract title from URL slug
             const titleFromUrl = this.extractTitleFromUrl(url)
             
-            // Parse date
-            let publishedDate = new Date()
-            if (lastMod) {
-              try {
-                publishedDate = new Date(lastMod)
-              } catch (e) {
-                console.log(`⚠️ Date parse error: ${lastMod}`)
-              }
-            }
+            const dateFields = this.sitemapDateFields(url, lastMod)
+            const day = dateFields.publishedDate?.split('T')[0]
             
             articles.push({
               title: titleFromUrl,
               url: url,
-              publishedDate: publishedDate.toISOString(),
-              description: `Article from ${publishedDate.toISOString().split('T')[0]}`
+              ...dateFields,
+              description: day ? `Article from ${day}` : undefined,
+              needsEnrichment: true
             })
             
-            console.log(`✅ Sitemap: "${titleFromUrl}" (${publishedDate.toISOString().split('T')[0]})`)
+            console.log(`✅ Sitemap: "${titleFromUrl}" (${day || 'undated'})`)
           }
         } catch (error) {
           console.log(`⚠️ Error parsing sitemap URL: ${error}`)
@@ -774,7 +731,7 @@ export class SubstackAgent extends BaseAgent {
     
     try {
       console.log(`🏠 Substack Agent: Collecting from main page ${baseUrl}`)
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(baseUrl)}`))
+      const response = await this.fetchUrl(baseUrl)
       
       if (!response.ok) throw new Error(`Main page fetch failed: ${response.status}`)
       
@@ -822,7 +779,7 @@ export class SubstackAgent extends BaseAgent {
             articles.push({
               title: title.trim(),
               url: fullUrl,
-              publishedDate: new Date().toISOString(),
+              ...this.dateFields(PublishDateResolver.fromUrl(fullUrl)),
               description: `Newsletter post from ${new URL(baseUrl).hostname}`,
               author: new URL(baseUrl).hostname
             })
@@ -836,4 +793,6 @@ export class SubstackAgent extends BaseAgent {
     
     return articles
   }
-} 
\ No newline at end of file
+}
+
+AgentRegistry.register(SubstackAgent, { priority: 80 })
@@ -1,5 +1,7 @@
 import { XMLParser } from 'fast-xml-parser'
-import { BaseAgent, AgentResult, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { BaseAgent, AgentResult, CollectionHints, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { AgentRegistry } from './agent-registry'
+import { PublishDateResolver } from '../publish-date'
 
 export class UniversalAgent extends BaseAgent {
   name = 'Universal Agent'
@@ -15,139 +17,158 @@ export class UniversalAgent extends BaseAgent {
     return true
   }
 
-  async collect(url: string): Promise<AgentResult> {
+  async collect(url: string, hints?: CollectionHints): Promise<AgentResult> {
     const startTime = Date.now()
     const articles: HistoricalArticle[] = []
     const errors: string[] = []
     const methodsUsed: string[] = []
+    const collected = { articles, errors, methodsUsed }
+    let workingFeedUrl: string | undefined
     
     try {
       console.log(`🌍 Universal Agent: Starting collection for ${url}`)
       const domain = new URL(url).hostname
       
       // Method 1: Try RSS feeds with pagination
-      console.log('📡 Universal Agent: Trying RSS feeds...')
-      const rssUrls = [
-        `${url}/rss`,
-        `${url}/feed`,
-        `${url}/feed.xml`,
-        `${url}/atom.xml`,
-        `${url}/rss.xml`,
-        `${url}/feeds/posts/default`,
-        `${url}/blog/rss`,
-        `${url}/blog/feed`,
-        // Magazine-specific RSS feeds (for sites like Aeon.co)
-        `${url}/essays/feed`,
-        `${url}/articles/feed`,
-        `${url}/content/feed`,
-        `${url}/posts/feed`,
-        `${url}/feeds/all.xml`,
-        `${url}/feeds/content.xml`,
-        `${url}/feeds/essays.xml`,
-        `${url}/feeds/articles.xml`,
-        // Category-specific feeds
-        `${url}/philosophy/feed`,
-        `${url}/science/feed`,
-        `${url}/psychology/feed`,
-        `${url}/society/feed`,
-        `${url}/culture/feed`,
-        // Special case: Paul Graham's external RSS feed
-        ...(domain === 'paulgraham.com' ? ['http://www.aaronsw.com/2002/feeds/pgessays.rss'] : []),
-        // Podcast-specific RSS patterns
-        `${url}/podcast`,
-        `${url}/podcast/feed`,
-        `${url}/episodes/feed`,
-        `${url}/feed/podcast`,
-        `${url}/podcast.xml`,
-        `${url}/itunes.xml`
-      ]
+      workingFeedUrl = await this.runStrategy('RSS feeds', collected, hints, async () => {
+        console.log('📡 Universal Agent: Trying RSS feeds...')
+        const rssUrls = [
+          `${url}/rss`,
+          `${url}/feed`,
+          `${url}/feed.xml`,
+          `${url}/atom.xml`,
+          `${url}/rss.xml`,
+          `${url}/feeds/posts/default`,
+          `${url}/blog/rss`,
+          `${url}/blog/feed`,
+          // Magazine-specific RSS feeds (for sites like Aeon.co)
+          `${url}/essays/feed`,
+          `${url}/articles/feed`,
+          `${url}/content/feed`,
+          `${url}/posts/feed`,
+          `${url}/feeds/all.xml`,
+          `${url}/feeds/content.xml`,
+          `${url}/feeds/essays.xml`,
+          `${url}/feeds/articles.xml`,
+          // Category-specific feeds
+          `${url}/philosophy/feed`,
+          `${url}/science/feed`,
+          `${url}/psychology/feed`,
+          `${url}/society/feed`,
+          `${url}/culture/feed`,
+          // Special case: Paul Graham's external RSS feed
+          ...(domain === 'paulgraham.com' ? ['http://www.aaronsw.com/2002/feeds/pgessays.rss'] : []),
+          // Podcast-specific RSS patterns
+          `${url}/podcast`,
+          `${url}/podcast/feed`,
+          `${url}/episodes/feed`,
+          `${url}/feed/podcast`,
+          `${url}/podcast.xml`,
+          `${url}/itunes.xml`
+        ]
       
-      for (const rssUrl of rssUrls) {
-        try {
-          // Use more aggressive pagination for podcast sites like nav.al
-          const maxPages = (domain === 'nav.al' || rssUrl.includes('podcast')) ? 50 : 25
-          const rssArticles = await this.collectFromRSSFeedWithPagination(rssUrl, maxPages)
-          if (rssArticles.length > 0) {
-            articles.push(...rssArticles)
-            methodsUsed.push(`RSS: ${rssUrl}`)
-            console.log(`✅ Universal Agent RSS: Found ${rssArticles.length} articles from ${rssUrl}`)
-            break // Found working RSS feed
+        for (const rssUrl of this.preferFeedUrl(rssUrls, hints)) {
+          try {
+            // Use more aggressive pagination for podcast sites like nav.al
+            const maxPages = (domain === 'nav.al' || rssUrl.includes('podcast')) ? 50 : 25
+            const rssArticles = await this.collectFromRSSFeedWithPagination(rssUrl, maxPages, hints)
+            if (rssArticles.length > 0) {
+              articles.push(...rssArticles)
+              methodsUsed.push(`RSS: ${rssUrl}`)
+              this.reportArticles(rssArticles.length)
+              console.log(`✅ Universal Agent RSS: Found ${rssArticles.length} articles from ${rssUrl}`)
+              return rssUrl // Found working RSS feed
+            }
+          } catch (error) {
+            this.recordError(errors, `RSS ${rssUrl}: ${error}`)
           }
-        } catch (error) {
-          errors.push(`RSS ${rssUrl}: ${error}`)
         }
+      })
+      
+      // Incremental mode: a feed that reached known articles already holds everything new
+      const caughtUp = this.reachesKnownContent(articles, hints)
+      if (caughtUp) {
+        console.log('⏭️ Universal Agent: Feed reached known articles, skipping sitemaps and listing pages')
       }
       
-      // Method 2: Always try sitemaps as a primary source
-      console.log('🗺️ Universal Agent: Trying sitemaps...')
-      const sitemapUrls = [
-        `${url}/sitemap.xml`,
-        `${url}/sitemap_index.xml`,
-        `${url}/post-sitemap.xml`,
-        `${url}/page-sitemap.xml`,
-        `${url}/sitemap_posts.xml`,
-        `${url}/sitemap-posts.xml`,
-        // Magazine-specific sitemap patterns
-        `${url}/content-sitemap.xml`,
-        `${url}/articles-sitemap.xml`,
-        `${url}/essays-sitemap.xml`,
-        `${url}/feeds/sitemap.xml`,
-        `${url}/sitemaps/content.xml`,
-        `${url}/sitemaps/posts.xml`
-      ]
+      if (!caughtUp) {
+        // Method 2: Always try sitemaps as a primary source
+        await this.runStrategy('Sitemaps', collected, hints, async () => {
+          console.log('🗺️ Universal Agent: Trying sitemaps...')
+          const sitemapUrls = [
+            `${url}/sitemap.xml`,
+            `${url}/sitemap_index.xml`,
+            `${url}/post-sitemap.xml`,
+            `${url}/page-sitemap.xml`,
+            `${url}/sitemap_posts.xml`,
+            `${url}/sitemap-posts.xml`,
+            // Magazine-specific sitemap patterns
+            `${url}/content-sitemap.xml`,
+            `${url}/articles-sitemap.xml`,
+            `${url}/essays-sitemap.xml`,
+            `${url}/feeds/sitemap.xml`,
+            `${url}/sitemaps/content.xml`,
+            `${url}/sitemaps/posts.xml`
+          ]
       
-      for (const sitemapUrl of sitemapUrls) {
-        try {
-          const sitemapArticles = await this.parseSitemap(sitemapUrl)
-          if (sitemapArticles.length > 0) {
-            articles.push(...sitemapArticles)
-            methodsUsed.push(`Sitemap: ${sitemapUrl}`)
-            console.log(`✅ Universal Agent Sitemap: Found ${sitemapArticles.length} articles from ${sitemapUrl}`)
+          for (const sitemapUrl of sitemapUrls) {
+            try {
+              const sitemapArticles = await this.parseSitemap(sitemapUrl)
+              if (sitemapArticles.length > 0) {
+                articles.push(...sitemapArticles)
+                methodsUsed.push(`Sitemap: ${sitemapUrl}`)
+                this.reportArticles(sitemapArticles.length)
+                console.log(`✅ Universal Agent Sitemap: Found ${sitemapArticles.length} articles from ${sitemapUrl}`)
+              }
+            } catch (error) {
+              this.recordError(errors, `Sitemap ${sitemapUrl}: ${error}`)
+            }
           }
-        } catch (error) {
-          errors.push(`Sitemap ${sitemapUrl}: ${error}`)
-        }
+        })
       }
       
       // Method 3: Try web scraping content listing pages (fallback for magazines like Aeon)
-      if (articles.length < 30) { // Only try this if we haven't found many articles
-        console.log('📰 Universal Agent: Trying content listing pages...')
-        const contentUrls = [
-          `${url}/essays`,
-          `${url}/articles`,
-          `${url}/content`,
-          `${url}/posts`,
-          `${url}/blog`,
-          `${url}/archive`,
-          `${url}/all`,
-          `${url}/latest`,
-          // Podcast-specific pages
-          `${url}/episodes`,
-          `${url}/podcast`,
-          `${url}/shows`,
-          // Nav.al specific attempts (try root page with different approaches)
-          ...(domain === 'nav.al' ? [
-            url, // Try scraping the main page itself
-            `${url}/?page=2`,
-            `${url}/?page=3`,
-            `${url}/?offset=20`,
-            `${url}/feed?page=2`
-          ] : [])
-        ]
+      if (!caughtUp && articles.length < 30) { // Only try this if we haven't found many articles
+        await this.runStrategy('Listing pages', collected, hints, async () => {
+          console.log('📰 Universal Agent: Trying content listing pages...')
+          const contentUrls = [
+            `${url}/essays`,
+            `${url}/articles`,
+            `${url}/content`,
+            `${url}/posts`,
+            `${url}/blog`,
+            `${url}/archive`,
+            `${url}/all`,
+            `${url}/latest`,
+            // Podcast-specific pages
+            `${url}/episodes`,
+            `${url}/podcast`,
+            `${url}/shows`,
+            // Nav.al specific attempts (try root page with different approaches)
+            ...(domain === 'nav.al' ? [
+              url, // Try scraping the main page itself
+              `${url}/?page=2`,
+              `${url}/?page=3`,
+              `${url}/?offset=20`,
+              `${url}/feed?page=2`
+            ] : [])
+          ]
         
-        for (const contentUrl of contentUrls) {
-          try {
-            const webArticles = await this.scrapeContentListingPage(contentUrl)
-            if (webArticles.length > 0) {
-              articles.push(...webArticles)
-              methodsUsed.push(`Web scraping: ${contentUrl}`)
-              console.log(`✅ Universal Agent Web: Found ${webArticles.length} articles from ${contentUrl}`)
-              break // Found working content page
+          for (const contentUrl of contentUrls) {
+            try {
+              const webArticles = await this.scrapeContentListingPage(contentUrl)
+              if (webArticles.length > 0) {
+                articles.push(...webArticles)
+                methodsUsed.push(`Web scraping: ${contentUrl}`)
+                this.reportArticles(webArticles.length)
+                console.log(`✅ Universal Agent Web: Found ${webArticles.length} articles from ${contentUrl}`)
+                break // Found working content page
+              }
+            } catch (error) {
+              this.recordError(errors, `Web scraping ${contentUrl}: ${error}`)
             }
-          } catch (error) {
-            errors.push(`Web scraping ${contentUrl}: ${error}`)
           }
-        }
+        })
       }
       
       // Deduplicate and sort
@@ -166,6 +187,7 @@ export class UniversalAgent extends BaseAgent {
         metadata: {
           platformDetected: 'Generic Website',
           methodsUsed,
+          feedUrl: workingFeedUrl,
           totalTime
         }
       }
@@ -191,15 +213,15 @@ export class UniversalAgent extends BaseAgent {
     }
   }
 
-  private async collectFromRSSFeedWithPagination(rssUrl: string, maxPages: number = 25): Promise<HistoricalArticle[]> {
+  private async collectFromRSSFeedWithPagination(rssUrl: string, maxPages: number = 25, hints?: CollectionHints): Promise<HistoricalArticle[]> {
     const allArticles: HistoricalArticle[] = []
     
     // First, try the base RSS feed
     const baseArticles = await this.collectFromRSSFeed(rssUrl)
     allArticles.push(...baseArticles)
     
-    // Try different pagination patterns if base feed has articles
-    if (baseArticles.length > 0) {
+    // Try different pagination patterns if base feed has articles (and they're all new in incremental mode)
+    if (baseArticles.length > 0 && !this.reachesKnownContent(baseArticles, hints)) {
       const paginationPatterns = ['page', 'paged', 'offset', 'p']
       
       for (const pattern of paginationPatterns) {
@@ -228,6 +250,11 @@ export class UniversalAgent extends BaseAgent {
             } else {
               consecutiveEmptyPages = 0
               allArticles.push(...pageArticles)
+              
+              // Older pages only hold articles we already have
+              if (this.reachesKnownContent(pageArticles, hints)) {
+                return this.deduplicateAndSort(allArticles)
+              }
             }
             
             page++
@@ -252,80 +279,29 @@ export class UniversalAgent extends BaseAgent {
   }
 
   private async collectFromRSSFeed(rssUrl: string): Promise<HistoricalArticle[]> {
-    const articles: HistoricalArticle[] = []
-    
     try {
-      const proxyUrl = this.getAbsoluteUrl(`/api/rss-proxy?url=${encodeURIComponent(rssUrl)}`)
-      const response = await fetch(proxyUrl)
-      
-      if (!response.ok) {
-        throw new Error(`RSS fetch failed: ${response.status}`)
-      }
-
-      const rssXml = await response.text()
-      const parser = new XMLParser({
-        ignoreAttributes: false,
-        attributeNamePrefix: '@_',
-        textNodeName: '#text',
-        parseAttributeValue: true,
-        trimValues: true
-      })
-      
-      const xmlDoc = parser.parse(rssXml)
-      
-      // Handle both RSS and Atom formats
-      let items: any[] = []
-      let isAtom = false
-      
-      if (xmlDoc.feed && xmlDoc.feed.entry) {
-        isAtom = true
-        items = Array.isArray(xmlDoc.feed.entry) ? xmlDoc.feed.entry : [xmlDoc.feed.entry]
-      } else if (xmlDoc.rss && xmlDoc.rss.channel && xmlDoc.rss.channel.item) {
-        items = Array.isArray(xmlDoc.rss.channel.item) ? xmlDoc.rss.channel.item : [xmlDoc.rss.channel.item]
-      }
-      
-      for (const item of items) {
-        try {
-          let title, link, pubDate, description
-          
-          if (isAtom) {
-            title = item.title?.['#text'] || item.title
-            link = item.link?.['@_href'] || (Array.isArray(item.link) ? item.link[0]?.['@_href'] : item.link)
-            pubDate = item.published || item.updated
-            description = item.summary?.['#text'] || item.summary || item.content?.['#text'] || item.content
-          } else {
-            title = item.title?.['#text'] || item.title
-            link = item.link?.['#text'] || item.link
-            pubDate = item.pubDate || item['dc:date']
-            description = item.description?.['#text'] || item.description || item['content:encoded']?.['#text'] || item['content:encoded']
-          }
-          
-          if (title && link) {
-            articles.push({
-              title: typeof title === 'string' ? title.trim() : String(title).trim(),
-              url: typeof link === 'string' ? link.trim() : String(link).trim(),
-              publishedDate: pubDate ? this.parseDate(String(pubDate)) : new Date().toISOString(),
-              description: description ? (typeof description === 'string' ? description.trim() : String(description).trim()) : '',
-              author: new URL(rssUrl).hostname
-            })
-          }
-        } catch (itemError) {
-          // Skip invalid items
-        }
-      }
+      const feed = await this.fetchFeed(rssUrl)
       
+      return feed.items
+        .filter(item => item.title && item.link)
+        .map(item => ({
+          title: item.title,
+          url: item.link,
+          ...this.dateFields(PublishDateResolver.fromFeed(item.pubDate)),
+          description: item.description,
+          author: new URL(rssUrl).hostname
+        }))
     } catch (error) {
       throw new Error(`RSS collection failed: ${error}`)
     }
-    
-    return articles
   }
 
+
   private async parseSitemap(sitemapUrl: string): Promise<HistoricalArticle[]> {
     const articles: HistoricalArticle[] = []
     
     try {
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(sitemapUrl)}`))
+      const response = await this.fetchUrl(sitemapUrl)
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}`)
       }
@@ -359,7 +335,8 @@ export class UniversalAgent extends BaseAgent {
             articles.push({
               title,
               url: loc,
-              publishedDate: urlElement.lastmod || new Date().toISOString(),
+              ...this.sitemapDateFields(loc, urlElement.lastmod),
+              needsEnrichment: true,
               author: new URL(sitemapUrl).hostname
             })
           }
@@ -387,7 +364,7 @@ export class UniversalAgent extends BaseAgent {
     const articles: HistoricalArticle[] = []
     
     try {
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(contentUrl)}`))
+      const response = await this.fetchUrl(contentUrl)
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}`)
       }
@@ -450,7 +427,7 @@ export class UniversalAgent extends BaseAgent {
             articles.push({
               title: title.replace(/&[^;]+;/g, '').trim(), // Remove HTML entities
               url: fullUrl,
-              publishedDate: new Date().toISOString(),
+              ...this.dateFields(PublishDateResolver.fromUrl(fullUrl)),
               author: domain
             })
           }
@@ -465,4 +442,6 @@ export class UniversalAgent extends BaseAgent {
       throw new Error(`Content page scraping failed: ${error}`)
     }
   }
-} 
\ No newline at end of file
+}
+
+AgentRegistry.register(UniversalAgent, { priority: 0, fallback: true })
@@ -1,4 +1,6 @@
-import { BaseAgent, AgentResult, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { BaseAgent, AgentResult, CollectionHints, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { AgentRegistry } from './agent-registry'
+import { PublishDateResolver } from '../publish-date'
 
 export class VCCircleAgent extends BaseAgent {
   name = 'VCCircle Agent'
@@ -22,10 +24,10 @@ export class VCCircleAgent extends BaseAgent {
 
   async verify(url: string): Promise<boolean> {
     try {
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(url)}`))
+      const response = await this.fetchUrl(url)
       if (!response.ok) return false
       
-      // The scrape-content API returns raw HTML content, not JSON
+      // The agent fetcher returns raw HTML content, not JSON
       const content = await response.text()
       
       // Look for VCCircle-specific indicators in the HTML content
@@ -58,57 +60,64 @@ export class VCCircleAgent extends BaseAgent {
     }
   }
 
-  async collect(url: string): Promise<AgentResult> {
+  async collect(url: string, hints?: CollectionHints): Promise<AgentResult> {
     const startTime = Date.now()
     const articles: HistoricalArticle[] = []
     const errors: string[] = []
     const methodsUsed: string[] = []
+    const collected = { articles, errors, methodsUsed }
     
     try {
       console.log(`📰 VCCircle Agent: Starting collection for ${url}`)
       
       // Method 1: Try to scrape the main page and extract article links
       console.log('🔍 VCCircle Agent: Scraping main page for article links...')
-      try {
-        const mainPageArticles = await this.scrapeMainPageArticles(url)
-        if (mainPageArticles.length > 0) {
-          articles.push(...mainPageArticles)
-          methodsUsed.push('Main Page Scraping')
-          console.log(`✅ VCCircle Agent: Found ${mainPageArticles.length} articles from main page`)
+      await this.runStrategy('Main page', collected, hints, async () => {
+        try {
+          const mainPageArticles = await this.scrapeMainPageArticles(url)
+          if (mainPageArticles.length > 0) {
+            articles.push(...mainPageArticles)
+            methodsUsed.push('Main Page Scraping')
+            this.reportArticles(mainPageArticles.length)
+            console.log(`✅ VCCircle Agent: Found ${mainPageArticles.length} articles from main page`)
+          }
+        } catch (error) {
+          this.recordError(errors, `Main page scraping: ${error}`)
         }
-      } catch (error) {
-        errors.push(`Main page scraping: ${error}`)
-      }
+      })
 
       // Method 2: Try archive and historical content pages
       console.log('🏛️ VCCircle Agent: Trying archive and historical content pages...')
-      const archiveUrls = [
-        'archive',
-        'all',
-        'articles', 
-        'content',
-        'posts',
-        'blog',
-        'latest',
-        'news',
-        'all-stories',
-        'all-news',
-        'archives'
-      ]
+      await this.runStrategy('Archive pages', collected, hints, async () => {
+        const archiveUrls = [
+          'archive',
+          'all',
+          'articles', 
+          'content',
+          'posts',
+          'blog',
+          'latest',
+          'news',
+          'all-stories',
+          'all-news',
+          'archives'
+        ]
 
-      for (const archivePath of archiveUrls) {
-        try {
-          const archiveUrl = `${url.replace(/\/$/, '')}/${archivePath}`
-          const archiveArticles = await this.scrapeCategoryPage(archiveUrl)
-          if (archiveArticles.length > 0) {
-            articles.push(...archiveArticles)
-            methodsUsed.push(`Archive: ${archivePath}`)
-            console.log(`✅ VCCircle Agent: Found ${archiveArticles.length} articles from archive: ${archivePath}`)
+        for (const archivePath of archiveUrls) {
+          try {
+            const archiveUrl = `${url.replace(/\/$/, '')}/${archivePath}`
+            const archiveArticles = await this.scrapeCategoryPage(archiveUrl)
+            if (archiveArticles.length > 0) {
+              articles.push(...archiveArticles)
+              methodsUsed.push(`Archive: ${archivePath}`)
+              this.reportArticles(archiveArticles.length)
+              console.log(`✅ VCCircle Agent: Found ${archiveArticles.length} articles from archive: ${archivePath}`)
+            }
+          } catch (error) {
+            this.recordError(errors, `Archive ${archivePath}: ${error}`)
           }
-        } catch (error) {
-          errors.push(`Archive ${archivePath}: ${error}`)
         }
-      }
+      })
 
       // Method 3: Try category pages
       console.log('📂 VCCircle Agent: Trying category pages...')
@@ -123,70 +132,77 @@ export class VCCircleAgent extends BaseAgent {
         'infrastructure',
         'tmt' // Technology, Media & Telecom
       ]
-
-      for (const category of categories) {
-        try {
-          const categoryUrl = `${url.replace(/\/$/, '')}/${category}`
-          const categoryArticles = await this.scrapeCategoryPage(categoryUrl)
-          if (categoryArticles.length > 0) {
-            articles.push(...categoryArticles)
-            methodsUsed.push(`Category: ${category}`)
-            console.log(`✅ VCCircle Agent: Found ${categoryArticles.length} articles from ${category}`)
+      await this.runStrategy('Category pages', collected, hints, async () => {
+        for (const category of categories) {
+          try {
+            const categoryUrl = `${url.replace(/\/$/, '')}/${category}`
+            const categoryArticles = await this.scrapeCategoryPage(categoryUrl)
+            if (categoryArticles.length > 0) {
+              articles.push(...categoryArticles)
+              methodsUsed.push(`Category: ${category}`)
+              this.reportArticles(categoryArticles.length)
+              console.log(`✅ VCCircle Agent: Found ${categoryArticles.length} articles from ${category}`)
+            }
+          } catch (error) {
+            this.recordError(errors, `Category ${category}: ${error}`)
           }
-        } catch (error) {
-          errors.push(`Category ${category}: ${error}`)
         }
-      }
+      })
 
       // Method 4: Try date-based and year-based archives
       console.log('📅 VCCircle Agent: Trying date-based archives...')
-      const currentYear = new Date().getFullYear()
-      const dateArchiveUrls = [
-        '2024', '2023', '2022', '2021', '2020', '2019', '2018',
-        `${currentYear}`, `${currentYear-1}`, `${currentYear-2}`,
-        'archive/2024', 'archive/2023', 'archive/2022',
-        'news/2024', 'news/2023', 'news/2022'
-      ]
+      await this.runStrategy('Date archives', collected, hints, async () => {
+        const currentYear = new Date().getFullYear()
+        const dateArchiveUrls = [
+          '2024', '2023', '2022', '2021', '2020', '2019', '2018',
+          `${currentYear}`, `${currentYear-1}`, `${currentYear-2}`,
+          'archive/2024', 'archive/2023', 'archive/2022',
+          'news/2024', 'news/2023', 'news/2022'
+        ]
 
-      for (const dateArchive of dateArchiveUrls) {
-        try {
-          const dateUrl = `${url.replace(/\/$/, '')}/${dateArchive}`
-          const dateArticles = await this.scrapeCategoryPage(dateUrl)
-          if (dateArticles.length > 0) {
-            articles.push(...dateArticles)
-            methodsUsed.push(`Date archive: ${dateArchive}`)
-            console.log(`✅ VCCircle Agent: Found ${dateArticles.length} articles from date archive: ${dateArchive}`)
+        for (const dateArchive of dateArchiveUrls) {
+          try {
+            const dateUrl = `${url.replace(/\/$/, '')}/${dateArchive}`
+            const dateArticles = await this.scrapeCategoryPage(dateUrl)
+            if (dateArticles.length > 0) {
+              articles.push(...dateArticles)
+              methodsUsed.push(`Date archive: ${dateArchive}`)
+              this.reportArticles(dateArticles.length)
+              console.log(`✅ VCCircle Agent: Found ${dateArticles.length} articles from date archive: ${dateArchive}`)
+            }
+          } catch (error) {
+            this.recordError(errors, `Date archive ${dateArchive}: ${error}`)
           }
-        } catch (error) {
-          errors.push(`Date archive ${dateArchive}: ${error}`)
         }
-      }
+      })
 
       // Method 5: Try deeper pagination on successful category pages for historical collection
       if (articles.length > 5) { // Only try pagination if we found some articles
         console.log('📄 VCCircle Agent: Trying deeper pagination on successful pages...')
-        
-        // Try deeper pagination on categories that worked
-        for (const category of categories) {
-          for (let page = 2; page <= 15; page++) { // Try pages 2-15 for deeper historical search
-            try {
-              const paginatedUrl = `${url.replace(/\/$/, '')}/${category}/page/${page}`
-              const paginatedArticles = await this.scrapeCategoryPage(paginatedUrl)
-              if (paginatedArticles.length > 0) {
-                articles.push(...paginatedArticles)
-                methodsUsed.push(`${category} page ${page}`)
-                console.log(`✅ VCCircle Agent: Found ${paginatedArticles.length} articles from ${category} page ${page}`)
-              } else {
-                console.log(`❌ VCCircle Agent: No articles found on ${category} page ${page}, stopping pagination for this category`)
-                break // No more articles on this category, stop pagination
+        await this.runStrategy('Category pagination', collected, hints, async () => {
+          // Try deeper pagination on categories that worked
+          for (const category of categories) {
+            for (let page = 2; page <= 15; page++) { // Try pages 2-15 for deeper historical search
+              try {
+                const paginatedUrl = `${url.replace(/\/$/, '')}/${category}/page/${page}`
+                const paginatedArticles = await this.scrapeCategoryPage(paginatedUrl)
+                if (paginatedArticles.length > 0) {
+                  articles.push(...paginatedArticles)
+                  methodsUsed.push(`${category} page ${page}`)
+                  this.reportArticles(paginatedArticles.length)
+                  console.log(`✅ VCCircle Agent: Found ${paginatedArticles.length} articles from ${category} page ${page}`)
+                } else {
+                  console.log(`❌ VCCircle Agent: No articles found on ${category} page ${page}, stopping pagination for this category`)
+                  break // No more articles on this category, stop pagination
+                }
+              } catch (error) {
+                // Silent fail for pagination - it's expected that some pages won't exist
+                console.log(`❌ VCCircle Agent: Pagination failed for ${category} page ${page}`)
+                break
               }
-            } catch (error) {
-              // Silent fail for pagination - it's expected that some pages won't exist
-              console.log(`❌ VCCircle Agent: Pagination failed for ${category} page ${page}`)
-              break
             }
           }
-        }
+        })
       }
 
       // Remove duplicates based on URL
@@ -225,10 +241,10 @@ export class VCCircleAgent extends BaseAgent {
   }
 
   private async scrapeMainPageArticles(url: string): Promise<HistoricalArticle[]> {
-    const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(url)}`))
+    const response = await this.fetchUrl(url)
     if (!response.ok) throw new Error(`HTTP ${response.status}`)
     
-    // The scrape-content API returns raw HTML content, not JSON
+    // The agent fetcher returns raw HTML content, not JSON
     const content = await response.text()
     
     return this.extractArticlesFromHTML(content, url)
@@ -236,10 +252,10 @@ export class VCCircleAgent extends BaseAgent {
 
   private async scrapeCategoryPage(categoryUrl: string): Promise<HistoricalArticle[]> {
     try {
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(categoryUrl)}`))
+      const response = await this.fetchUrl(categoryUrl)
       if (!response.ok) return []
       
-      // The scrape-content API returns raw HTML content, not JSON
+      // The agent fetcher returns raw HTML content, not JSON
       const content = await response.text()
       
       return this.extractArticlesFromHTML(content, categoryUrl)
@@ -268,7 +284,7 @@ export class VCCircleAgent extends BaseAgent {
                 const article: HistoricalArticle = {
                   title: this.cleanText(articleData.title),
                   url: `https://www.vccircle.com/${articleData.slug}`,
-                  publishedDate: articleData.publish ? new Date(articleData.publish).toISOString() : new Date().toISOString(),
+                  ...this.dateFields(PublishDateResolver.fromApi(articleData.publish)),
                   description: this.cleanText(articleData.summary || `${articleData.title} - VCCircle Financial News`),
                   author: 'VCCircle Team'
                 }
@@ -294,7 +310,7 @@ export class VCCircleAgent extends BaseAgent {
                 const article: HistoricalArticle = {
                   title: this.cleanText(item.name),
                   url: item.url.startsWith('http') ? item.url : `https://www.vccircle.com${item.url}`,
-                  publishedDate: new Date().toISOString(), // VCCircle doesn't provide dates in structured data
+                  // VCCircle doesn't provide dates in structured data
                   description: this.cleanText(item.description || `Article from VCCircle: ${item.name}`),
                   author: 'VCCircle Team'
                 }
@@ -354,9 +370,9 @@ export class VCCircleAgent extends BaseAgent {
       const descMatch = block.match(/<p[^>]*>([^<]*)<\/p>/i)
       const description = descMatch ? descMatch[1].trim() : ''
       
-      // Extract date
-      const dateMatch = block.match(/\b\d{1,2}\s+(January|February|March|April|May|June|July|August|September|October|November|December)\b/i)
-      const publishedDate = dateMatch ? this.parseDate(dateMatch[0]) : new Date().toISOString()
+      // Extract date (a day and month without a year can't be placed, so it's ignored)
+      const dateMatch = block.match(/\b\d{1,2}\s+(January|February|March|April|May|June|July|August|September|October|November|December),?\s+\d{4}\b/i)
+      const publishedDate = PublishDateResolver.resolve(PublishDateResolver.fromText(dateMatch?.[0]), PublishDateResolver.fromUrl(fullUrl))
       
       // Extract author
       const authorMatch = block.match(/by\s+([A-Za-z\s]+)/i)
@@ -366,7 +382,7 @@ export class VCCircleAgent extends BaseAgent {
         return {
           title: this.cleanText(title),
           url: fullUrl,
-          publishedDate,
+          ...this.dateFields(publishedDate),
           description: this.cleanText(description),
           author
         }
@@ -392,7 +408,7 @@ export class VCCircleAgent extends BaseAgent {
         return {
           title: this.cleanText(title),
           url: fullUrl,
-          publishedDate: new Date().toISOString(),
+          ...this.dateFields(PublishDateResolver.fromUrl(fullUrl)),
           description: `Article from VCCircle: ${this.cleanText(title)}`,
           author: 'VCCircle Team'
         }
@@ -458,3 +474,5 @@ export class VCCircleAgent extends BaseAgent {
     }
   }
 }
+
+AgentRegistry.register(VCCircleAgent, { priority: 85 })
@@ -1,5 +1,7 @@
 import { XMLParser } from 'fast-xml-parser'
-import { BaseAgent, AgentResult, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { BaseAgent, AgentResult, CollectionHints, HistoricalArticle, PlatformIndicators } from './base-agent'
+import { AgentRegistry } from './agent-registry'
+import { PublishDateResolver } from '../publish-date'
 
 export class WordPressAgent extends BaseAgent {
   name = 'WordPress Agent'
@@ -42,7 +44,7 @@ export class WordPressAgent extends BaseAgent {
 
   async verify(url: string): Promise<boolean> {
     try {
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(url)}`))
+      const response = await this.fetchUrl(url)
       if (!response.ok) return false
       
       const html = await response.text()
@@ -58,82 +60,101 @@ export class WordPressAgent extends BaseAgent {
     }
   }
 
-  async collect(url: string): Promise<AgentResult> {
+  async collect(url: string, hints?: CollectionHints): Promise<AgentResult> {
     const startTime = Date.now()
     const articles: HistoricalArticle[] = []
     const errors: string[] = []
     const methodsUsed: string[] = []
+    const collected = { articles, errors, methodsUsed }
+    let workingFeedUrl: string | undefined
     
     try {
       const baseUrl = new URL(url).origin
       
       // Method 1: WordPress REST API
-      try {
-        const apiArticles = await this.collectFromWordPressAPI(baseUrl)
-        if (apiArticles.length > 0) {
-          articles.push(...apiArticles)
-          methodsUsed.push('WordPress REST API')
+      await this.runStrategy('WordPress REST API', collected, hints, async () => {
+        try {
+          const apiArticles = await this.collectFromWordPressAPI(baseUrl, hints)
+          if (apiArticles.length > 0) {
+            articles.push(...apiArticles)
+            methodsUsed.push('WordPress REST API')
+            this.reportArticles(apiArticles.length)
+          }
+        } catch (error) {
+          this.recordError(errors, `WordPress API: ${error}`)
         }
-      } catch (error) {
-        errors.push(`WordPress API: ${error}`)
-      }
+      })
       
       // Method 2: RSS feeds
-      const rssUrls = [
-        `${baseUrl}/feed/`,
-        `${baseUrl}/rss/`,
-        `${baseUrl}/?feed=rss2`,
-        `${baseUrl}/wp-rss2.php`
-      ]
+      workingFeedUrl = await this.runStrategy('RSS feeds', collected, hints, async () => {
+        const rssUrls = [
+          `${baseUrl}/feed/`,
+          `${baseUrl}/rss/`,
+          `${baseUrl}/?feed=rss2`,
+          `${baseUrl}/wp-rss2.php`
+        ]
       
-      for (const rssUrl of rssUrls) {
-        try {
-          const rssArticles = await this.collectFromRSSFeed(rssUrl)
-          if (rssArticles.length > 0) {
-            articles.push(...rssArticles)
-            methodsUsed.push(`RSS: ${rssUrl}`)
-            break
+        for (const rssUrl of this.preferFeedUrl(rssUrls, hints)) {
+          try {
+            const rssArticles = await this.collectFromRSSFeed(rssUrl)
+            if (rssArticles.length > 0) {
+              articles.push(...rssArticles)
+              methodsUsed.push(`RSS: ${rssUrl}`)
+              this.reportArticles(rssArticles.length)
+              return rssUrl
+            }
+          } catch {
+            // Continue to next RSS URL
           }
-        } catch {
-          // Continue to next RSS URL
         }
-      }
+      })
       
-      // Method 3: Enhanced Sitemap Discovery
-      const sitemapUrls = [
-        `${baseUrl}/sitemap.xml`,
-        `${baseUrl}/post-sitemap.xml`,
-        `${baseUrl}/posts-sitemap.xml`,
-        `${baseUrl}/sitemap_index.xml`,
-        `${baseUrl}/sitemap-posts.xml`,
-        `${baseUrl}/wp-sitemap.xml`,
-        `${baseUrl}/wp-sitemap-posts-1.xml`
-      ]
+      // Incremental mode: an API or feed that reached known posts already holds everything new
+      if (this.reachesKnownContent(articles, hints)) {
+        console.log('⏭️ WordPress Agent: Reached known posts, skipping sitemaps and archives')
+      } else {
+        // Method 3: Enhanced Sitemap Discovery
+        await this.runStrategy('Sitemaps', collected, hints, async () => {
+          const sitemapUrls = [
+            `${baseUrl}/sitemap.xml`,
+            `${baseUrl}/post-sitemap.xml`,
+            `${baseUrl}/posts-sitemap.xml`,
+            `${baseUrl}/sitemap_index.xml`,
+            `${baseUrl}/sitemap-posts.xml`,
+            `${baseUrl}/wp-sitemap.xml`,
+            `${baseUrl}/wp-sitemap-posts-1.xml`
+          ]
       
-      for (const sitemapUrl of sitemapUrls) {
-        try {
-          const sitemapArticles = await this.collectFromSitemap(sitemapUrl)
-          if (sitemapArticles.length > 0) {
-            console.log(`🗺️ WordPress Agent: Found ${sitemapArticles.length} articles from ${sitemapUrl}`)
-            articles.push(...sitemapArticles)
-            methodsUsed.push(`Sitemap: ${sitemapUrl}`)
-            break // Use first successful sitemap
+          for (const sitemapUrl of sitemapUrls) {
+            try {
+              const sitemapArticles = await this.collectFromSitemap(sitemapUrl)
+              if (sitemapArticles.length > 0) {
+                console.log(`🗺️ WordPress Agent: Found ${sitemapArticles.length} articles from ${sitemapUrl}`)
+                articles.push(...sitemapArticles)
+                methodsUsed.push(`Sitemap: ${sitemapUrl}`)
+                this.reportArticles(sitemapArticles.length)
+                break // Use first successful sitemap
+              }
+            } catch {
+              // Continue to next sitemap URL
+            }
           }
-        } catch {
-          // Continue to next sitemap URL
-        }
-      }
+        })
       
-      // Method 4: Archive Page Discovery (for blogs with archive pages)
-      try {
-        const archiveArticles = await this.collectFromArchivePages(baseUrl)
-        if (archiveArticles.length > 0) {
-          console.log(`📚 WordPress Agent: Found ${archiveArticles.length} articles from archive pages`)
-          articles.push(...archiveArticles)
-          methodsUsed.push('Archive Pages')
-        }
-      } catch {
-        // Archive collection failed
+        // Method 4: Archive Page Discovery (for blogs with archive pages)
+        await this.runStrategy('Archive pages', collected, hints, async () => {
+          try {
+            const archiveArticles = await this.collectFromArchivePages(baseUrl)
+            if (archiveArticles.length > 0) {
+              console.log(`📚 WordPress Agent: Found ${archiveArticles.length} articles from archive pages`)
+              articles.push(...archiveArticles)
+              methodsUsed.push('Archive Pages')
+              this.reportArticles(archiveArticles.length)
+            }
+          } catch {
+            // Archive collection failed
+          }
+        })
       }
       
       const uniqueArticles = this.deduplicateAndSort(articles)
@@ -147,6 +168,7 @@ export class WordPressAgent extends BaseAgent {
         metadata: {
           platformDetected: 'WordPress',
           methodsUsed,
+          feedUrl: workingFeedUrl,
           totalTime: Date.now() - startTime
         }
       }
@@ -171,7 +193,7 @@ export class WordPressAgent extends BaseAgent {
     }
   }
 
-  private async collectFromWordPressAPI(baseUrl: string): Promise<HistoricalArticle[]> {
+  private async collectFromWordPressAPI(baseUrl: string, hints?: CollectionHints): Promise<HistoricalArticle[]> {
     const articles: HistoricalArticle[] = []
     
     try {
@@ -187,7 +209,7 @@ export class WordPressAgent extends BaseAgent {
         console.log(`📄 WordPress Agent: Fetching page ${page} (${perPage} posts per page)`)
         
         try {
-          const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(apiUrl)}`))
+          const response = await this.fetchUrl(apiUrl)
           
           if (!response.ok) {
             if (response.status === 400) {
@@ -206,18 +228,20 @@ export class WordPressAgent extends BaseAgent {
           
           console.log(`📄 WordPress Agent: Page ${page} returned ${posts.length} posts`)
           
-          for (const post of posts) {
-            articles.push({
-              title: post.title?.rendered || 'Untitled',
-              url: post.link || `${baseUrl}/?p=${post.id}`,
-              publishedDate: this.parseDate(post.date || post.date_gmt),
-              description: post.excerpt?.rendered?.replace(/<[^>]+>/g, '').substring(0, 200) || '',
-              author: post.author_name || new URL(baseUrl).hostname
-            })
-          }
+          const pageArticles: HistoricalArticle[] = posts.map(post => ({
+            title: post.title?.rendered || 'Untitled',
+            url: post.link || `${baseUrl}/?p=${post.id}`,
+            ...this.dateFields(PublishDateResolver.fromApi(post.date_gmt ? `${post.date_gmt}Z` : post.date)),
+            description: post.excerpt?.rendered?.replace(/<[^>]+>/g, '').substring(0, 200) || '',
+            author: post.author_name || new URL(baseUrl).hostname
+          }))
+          articles.push(...pageArticles)
           
-          // Check if we have more pages
-          if (posts.length < perPage) {
+          // Check if we have more pages (posts are newest first, so known ones mean we're caught up)
+          if (this.reachesKnownContent(pageArticles, hints)) {
+            console.log(`📄 WordPress Agent: Page ${page} reached known posts, stopping pagination`)
+            hasMorePages = false
+          } else if (posts.length < perPage) {
             console.log(`📄 WordPress Agent: Page ${page} returned ${posts.length} < ${perPage} posts, no more pages`)
             hasMorePages = false
           } else {
@@ -246,60 +270,29 @@ export class WordPressAgent extends BaseAgent {
   }
 
   private async collectFromRSSFeed(rssUrl: string): Promise<HistoricalArticle[]> {
-    const articles: HistoricalArticle[] = []
-    
     try {
-      const proxyUrl = this.getAbsoluteUrl(`/api/rss-proxy?url=${encodeURIComponent(rssUrl)}`)
-      const response = await fetch(proxyUrl)
+      const feed = await this.fetchFeed(rssUrl)
       
-      if (!response.ok) throw new Error(`RSS fetch failed: ${response.status}`)
-
-      const rssXml = await response.text()
-      const parser = new XMLParser({
-        ignoreAttributes: false,
-        attributeNamePrefix: '@_',
-        textNodeName: '#text'
-      })
-      
-      const xmlDoc = parser.parse(rssXml)
-      
-      let items: any[] = []
-      if (xmlDoc.rss && xmlDoc.rss.channel && xmlDoc.rss.channel.item) {
-        items = Array.isArray(xmlDoc.rss.channel.item) ? xmlDoc.rss.channel.item : [xmlDoc.rss.channel.item]
-      }
-      
-      for (const item of items) {
-        try {
-          const title = item.title?.['#text'] || item.title
-          const link = item.link?.['#text'] || item.link
-          const pubDate = item.pubDate
-          const description = item.description?.['#text'] || item.description
-          
-          if (title && link) {
-            articles.push({
-              title: typeof title === 'string' ? title.trim() : String(title).trim(),
-              url: typeof link === 'string' ? link.trim() : String(link).trim(),
-              publishedDate: pubDate ? this.parseDate(String(pubDate)) : new Date().toISOString(),
-              description: description ? String(description).replace(/<[^>]+>/g, '').substring(0, 200) : '',
-              author: new URL(rssUrl).hostname
-            })
-          }
-        } catch {
-          // Skip invalid items
-        }
-      }
+      return feed.items
+        .filter(item => item.title && item.link)
+        .map(item => ({
+          title: item.title,
+          url: item.link,
+          ...this.dateFields(PublishDateResolver.fromFeed(item.pubDate)),
+          description: item.description.substring(0, 200),
+          author: new URL(rssUrl).hostname
+        }))
     } catch (error) {
       throw new Error(`RSS collection failed: ${error}`)
     }
-    
-    return articles
   }
 
+
   private async collectFromSitemap(sitemapUrl: string): Promise<HistoricalArticle[]> {
     const articles: HistoricalArticle[] = []
     
     try {
-      const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(sitemapUrl)}`))
+      const response = await this.fetchUrl(sitemapUrl)
       if (!response.ok) throw new Error(`HTTP ${response.status}`)
       
       const xml = await response.text()
@@ -316,7 +309,8 @@ export class WordPressAgent extends BaseAgent {
             articles.push({
               title,
               url: loc,
-              publishedDate: urlElement.lastmod || new Date().toISOString(),
+              ...this.sitemapDateFields(loc, urlElement.lastmod),
+              needsEnrichment: true,
               author: new URL(sitemapUrl).hostname
             })
           }
@@ -358,7 +352,7 @@ export class WordPressAgent extends BaseAgent {
       for (const archiveUrl of archiveUrls) {
         try {
           console.log(`📚 WordPress Agent: Checking archive page ${archiveUrl}`)
-          const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(archiveUrl)}`))
+          const response = await this.fetchUrl(archiveUrl)
           
           if (!response.ok) continue
           
@@ -385,7 +379,7 @@ export class WordPressAgent extends BaseAgent {
             const yearArchiveUrl = `${baseUrl}/${year}/`
             console.log(`📅 WordPress Agent: Checking year archive ${year}`)
             
-            const response = await fetch(this.getAbsoluteUrl(`/api/scrape-content?url=${encodeURIComponent(yearArchiveUrl)}`))
+            const response = await this.fetchUrl(yearArchiveUrl)
             if (!response.ok) continue
             
             const html = await response.text()
@@ -435,33 +429,27 @@ export class WordPressAgent extends BaseAgent {
           const [, url, title] = match
           
           if (url && title && this.looksLikeArticle(url)) {
-            // Extract date if available in surrounding context
-            let publishedDate = new Date().toISOString()
-            
+            const articleUrl = url.startsWith('http') ? url : new URL(url, baseUrl).href
+
             // Look for date patterns near the link
             const contextStart = Math.max(0, match.index - 200)
             const contextEnd = Math.min(cleanHtml.length, match.index + match[0].length + 200)
             const context = cleanHtml.substring(contextStart, contextEnd)
             
+            let contextDate: string | undefined
             const dateMatch = context.match(/(\d{4})[-\/](\d{1,2})[-\/](\d{1,2})|(\w+)\s+(\d{1,2}),?\s+(\d{4})/i)
-            if (dateMatch) {
-              try {
-                if (dateMatch[1]) {
-                  // YYYY-MM-DD format
-                  publishedDate = new Date(`${dateMatch[1]}-${dateMatch[2].padStart(2, '0')}-${dateMatch[3].padStart(2, '0')}`).toISOString()
-                } else if (dateMatch[4]) {
-                  // Month DD, YYYY format
-                  publishedDate = new Date(`${dateMatch[4]} ${dateMatch[5]}, ${dateMatch[6]}`).toISOString()
-                }
-              } catch {
-                // Keep default date
-              }
+            if (dateMatch?.[1]) {
+              // YYYY-MM-DD format
+              contextDate = `${dateMatch[1]}-${dateMatch[2].padStart(2, '0')}-${dateMatch[3].padStart(2, '0')}`
+            } else if (dateMatch?.[4]) {
+              // Month DD, YYYY format
+              contextDate = `${dateMatch[4]} ${dateMatch[5]}, ${dateMatch[6]}`
             }
             
             articles.push({
               title: title.trim(),
-              url: url.startsWith('http') ? url : new URL(url, baseUrl).href,
-              publishedDate,
+              url: articleUrl,
+              ...this.dateFields(PublishDateResolver.resolve(PublishDateResolver.fromText(contextDate), PublishDateResolver.fromUrl(articleUrl))),
               description: `Historical article from ${new URL(baseUrl).hostname}`,
               author: new URL(baseUrl).hostname
             })
@@ -475,4 +463,6 @@ export class WordPressAgent extends BaseAgent {
     
     return articles
   }
-} 
\ No newline at end of file
+}
+
+AgentRegistry.register(WordPressAgent, { priority: 60 })
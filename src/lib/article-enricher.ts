@@ -0,0 +1,143 @@
+import { Article, DatabaseService } from './database'
+import { PageMetadataReader } from './page-metadata'
+import { PublishDateResolver } from './publish-date'
+import { AgentFetcher, agentFetcher } from './agents/agent-fetcher'
+import { createServiceSupabaseClient } from './supabase'
+
+export interface ArticleEnrichmentResult {
+  articleId: number
+  url: string
+  status: 'enriched' | 'unchanged' | 'blocked' | 'error'
+  updatedFields: string[]
+  error?: string
+}
+
+export interface ArticleEnrichmentSummary {
+  processed: number
+  enriched: number
+  failed: number
+  results: ArticleEnrichmentResult[]
+}
+
+export interface ArticleEnrichmentOptions {
+  limit?: number // Max articles per run, keeps a single cron invocation short
+}
+
+type EnrichmentCandidate = Pick<
+  Article,
+  'id' | 'url' | 'title' | 'description' | 'image_url' | 'author' | 'published_at' | 'published_at_confidence'
+>
+
+const DEFAULT_BATCH_SIZE = 25
+
+/**
+ * Background job that visits articles discovered without real metadata (e.g. sitemap entries
+ * titled from their URL slug) once, and fills in title, description, image, author and date
+ */
+export class ArticleEnricher {
+  /**
+   * Enrich the oldest articles still waiting for it
+   */
+  static async enrichPending(options: ArticleEnrichmentOptions = {}): Promise<ArticleEnrichmentSummary> {
+    const db = new DatabaseService(createServiceSupabaseClient())
+    const limit = options.limit || DEFAULT_BATCH_SIZE
+
+    const { data, error } = await db.supabase
+      .from('articles')
+      .select('id, url, title, description, image_url, author, published_at, published_at_confidence')
+      .eq('needs_enrichment', true)
+      .is('enriched_at', null)
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching articles to enrich:', error)
+      throw new Error('Failed to fetch articles to enrich')
+    }
+
+    const articles: EnrichmentCandidate[] = data || []
+    console.log(`🔎 Article enricher: ${articles.length} articles pending`)
+
+    const results: ArticleEnrichmentResult[] = []
+    for (const article of articles) {
+      results.push(await this.enrichArticle(db, article))
+    }
+
+    const summary: ArticleEnrichmentSummary = {
+      processed: results.length,
+      enriched: results.filter(result => result.status === 'enriched').length,
+      failed: results.filter(result => result.status === 'error').length,
+      results
+    }
+
+    console.log(`✅ Article enricher: ${summary.enriched} enriched, ${summary.failed} failed`)
+    return summary
+  }
+
+  /**
+   * Fetch one article page and update whatever its metadata improves. The article is marked
+   * as enriched even when the fetch fails so each page is only ever requested once.
+   */
+  static async enrichArticle(db: DatabaseService, article: EnrichmentCandidate): Promise<ArticleEnrichmentResult> {
+    const updatedFields: string[] = []
+    const updates: Partial<Article> = { enriched_at: new Date().toISOString() }
+
+    try {
+      const response = await agentFetcher.fetch(article.url, {
+        headers: { 'Accept': 'text/html,application/xhtml+xml' },
+        retries: 1,
+        useCache: false
+      })
+
+      if (AgentFetcher.isRobotsBlocked(response)) {
+        await db.updateArticle(article.id, updates)
+        return { articleId: article.id, url: article.url, status: 'blocked', updatedFields }
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`)
+      }
+
+      const metadata = PageMetadataReader.read(await response.text())
+
+      if (metadata.title && metadata.title !== article.title) {
+        updates.title = metadata.title
+        updatedFields.push('title')
+      }
+      if (metadata.description && metadata.description !== article.description) {
+        updates.description = metadata.description
+        updatedFields.push('description')
+      }
+      if (metadata.image && !article.image_url) {
+        updates.image_url = new URL(metadata.image, article.url).toString()
+        updatedFields.push('image_url')
+      }
+      if (metadata.author && metadata.author !== article.author) {
+        updates.author = metadata.author
+        updatedFields.push('author')
+      }
+      if (metadata.publishedDate && (!article.published_at ||
+          PublishDateResolver.compareConfidence(metadata.publishedDate.confidence, article.published_at_confidence) > 0)) {
+        Object.assign(updates, PublishDateResolver.toColumns(metadata.publishedDate))
+        updatedFields.push('published_at')
+      }
+
+      await db.updateArticle(article.id, updates)
+
+      console.log(`✨ Enriched ${article.url}: ${updatedFields.join(', ') || 'nothing new'}`)
+      return { articleId: article.id, url: article.url, status: updatedFields.length > 0 ? 'enriched' : 'unchanged', updatedFields }
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`❌ Enrichment failed for ${article.url}:`, error)
+
+      try {
+        await db.updateArticle(article.id, updates)
+      } catch (updateError) {
+        console.error(`❌ Could not record enrichment for ${article.url}:`, updateError)
+      }
+
+      return { articleId: article.id, url: article.url, status: 'error', updatedFields, error: message }
+    }
+  }
+}
@@ -0,0 +1,86 @@
+const SHINGLE_SIZE = 3
+const MIN_WORDS = 40 // Shorter texts (teasers, boilerplate descriptions) collide too easily
+const BAND_COUNT = 4 // 16-bit bands: selective enough that a band lookup returns few candidates
+const DEFAULT_MAX_DISTANCE = 3 // Bits out of 64; with 4 bands any match within 3 bits shares a band
+
+/**
+ * 64-bit SimHash fingerprints for spotting the same article text published under different URLs.
+ * Fingerprints are 16-char hex strings; `getBands` splits them for indexed candidate lookup.
+ */
+export class ArticleFingerprint {
+  /**
+   * SimHash over word shingles of the text (HTML stripped), or null when there's too little text
+   */
+  static compute(text: string): string | null {
+    const words = text
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&[a-z#0-9]+;/gi, ' ')
+      .toLowerCase()
+      .split(/[^a-z0-9\u00c0-\u024f]+/)
+      .filter(Boolean)
+
+    if (words.length < MIN_WORDS) return null
+
+    const weights = new Array<number>(64).fill(0)
+    for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+      const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ')
+      const halves = [this.hash32(shingle, 0x811c9dc5), this.hash32(shingle, 0x01000193)]
+
+      for (let bit = 0; bit < 64; bit++) {
+        const half = halves[bit >> 5]
+        weights[bit] += (half >>> (31 - (bit & 31))) & 1 ? 1 : -1
+      }
+    }
+
+    let hex = ''
+    for (let nibble = 0; nibble < 16; nibble++) {
+      let value = 0
+      for (let bit = 0; bit < 4; bit++) {
+        value = (value << 1) | (weights[nibble * 4 + bit] > 0 ? 1 : 0)
+      }
+      hex += value.toString(16)
+    }
+    return hex
+  }
+
+  /**
+   * Number of differing bits between two fingerprints
+   */
+  static distance(a: string, b: string): number {
+    let distance = 0
+    for (let i = 0; i < 16; i += 8) {
+      let diff = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0
+      while (diff) {
+        diff &= diff - 1
+        distance++
+      }
+    }
+    return distance
+  }
+
+  static isNearDuplicate(a: string, b: string, maxDistance: number = DEFAULT_MAX_DISTANCE): boolean {
+    return this.distance(a, b) <= maxDistance
+  }
+
+  /**
+   * Band keys like "0:9f3a" - near duplicates always share at least one
+   */
+  static getBands(fingerprint: string): string[] {
+    const width = 16 / BAND_COUNT
+    return Array.from({ length: BAND_COUNT }, (_, i) => `${i}:${fingerprint.slice(i * width, (i + 1) * width)}`)
+  }
+
+  // FNV-1a with a configurable offset basis, so two seeds give independent 32-bit halves
+  private static hash32(value: string, seed: number): number {
+    let hash = seed >>> 0
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193) >>> 0
+    }
+    // Final avalanche so nearby inputs spread across all bits
+    hash ^= hash >>> 16
+    hash = Math.imul(hash, 0x85ebca6b) >>> 0
+    hash ^= hash >>> 13
+    return hash >>> 0
+  }
+}
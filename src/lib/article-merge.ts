@@ -0,0 +1,103 @@
+import type { HistoricalArticle } from './agents/base-agent'
+import type { Article } from './database'
+import { PublishDateResolver, type PublishDateConfidence, type PublishDateSource } from './publish-date'
+
+type ArticleRecord = Omit<Article, 'id' | 'user_id' | 'created_at' | 'updated_at'>
+
+interface DateCandidate {
+  date?: string
+  source?: PublishDateSource | null
+  confidence?: PublishDateConfidence | null
+}
+
+const PLACEHOLDER_TITLE = /^(untitled|no title|home|index|page not found)?$/i
+
+/**
+ * Combines entries that turned out to be the same article (same canonical URL)
+ * into one, keeping the most informative value for each field
+ */
+export class ArticleMerge {
+  static mergeHistorical(a: HistoricalArticle, b: HistoricalArticle): HistoricalArticle {
+    const date = this.pickPublishedDate(
+      { date: a.publishedDate, source: a.publishedDateSource, confidence: a.publishedDateConfidence },
+      { date: b.publishedDate, source: b.publishedDateSource, confidence: b.publishedDateConfidence }
+    )
+    return {
+      ...b,
+      ...a,
+      url: this.pickUrl(a.url, b.url),
+      title: this.pickTitle(a.title, b.title) || a.title,
+      description: this.pickDescription(a.description, b.description),
+      author: a.author || b.author,
+      publishedDate: date.date,
+      publishedDateSource: date.source || undefined,
+      publishedDateConfidence: date.confidence || undefined,
+      // A feed or API copy already carries real metadata
+      needsEnrichment: !!a.needsEnrichment && !!b.needsEnrichment
+    }
+  }
+
+  static mergeRecords<T extends ArticleRecord>(a: T, b: T): T {
+    const content = this.pickDescription(a.content, b.content)
+    const date = this.pickPublishedDate(
+      { date: a.published_at, source: a.published_at_source, confidence: a.published_at_confidence },
+      { date: b.published_at, source: b.published_at_source, confidence: b.published_at_confidence }
+    )
+    return {
+      ...a,
+      url: this.pickUrl(a.url, b.url),
+      title: this.pickTitle(a.title, b.title) || a.title,
+      description: this.pickDescription(a.description, b.description),
+      content,
+      content_length: content ? content.length : a.content_length,
+      read_time: content === b.content ? b.read_time : a.read_time,
+      author: a.author || b.author,
+      image_url: a.image_url || b.image_url,
+      published_at: date.date,
+      published_at_source: date.source,
+      published_at_confidence: date.confidence,
+      needs_enrichment: !!a.needs_enrichment && !!b.needs_enrichment,
+      categories: Array.from(new Set([...(a.categories || []), ...(b.categories || [])]))
+    }
+  }
+
+  /**
+   * Prefer https and the shorter variant (no tracking params, AMP suffixes or trailing junk)
+   */
+  static pickUrl(a: string, b: string): string {
+    const score = (url: string) => (url.startsWith('https:') ? 0 : 1000) + url.length
+    return score(b) < score(a) ? b : a
+  }
+
+  /**
+   * Prefer a real title over a placeholder, then the longer one
+   */
+  static pickTitle(a?: string, b?: string): string | undefined {
+    const score = (title?: string) => {
+      const trimmed = (title || '').trim()
+      return PLACEHOLDER_TITLE.test(trimmed) ? 0 : trimmed.length
+    }
+    return score(b) > score(a) ? b : a
+  }
+
+  /**
+   * The longer text once markup is stripped
+   */
+  static pickDescription(a?: string, b?: string): string | undefined {
+    const length = (text?: string) => (text || '').replace(/<[^>]+>/g, '').trim().length
+    return length(b) > length(a) ? b : a
+  }
+
+  /**
+   * Prefer a date over none, then the more confident one; at equal confidence take the earlier,
+   * since lastmod-style dates only ever move later than publication
+   */
+  static pickPublishedDate(a: DateCandidate, b: DateCandidate): DateCandidate {
+    if (!a.date || !b.date) return a.date ? a : b
+
+    const byConfidence = PublishDateResolver.compareConfidence(a.confidence, b.confidence)
+    if (byConfidence !== 0) return byConfidence > 0 ? a : b
+
+    return new Date(b.date).getTime() < new Date(a.date).getTime() ? b : a
+  }
+}
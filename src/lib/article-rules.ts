@@ -0,0 +1,137 @@
+import type { Article, ArticleRule } from './database'
+
+// The fields rules can look at (new records and stored rows both have them)
+export type ArticleRuleCandidate = Pick<Article, 'source_id' | 'title' | 'url'> &
+  Partial<Pick<Article, 'description' | 'author' | 'categories' | 'is_read' | 'is_bookmarked'>>
+
+export interface ArticleRulesResult<T extends ArticleRuleCandidate> {
+  articles: T[] // Articles to insert, with mark_read/bookmark/tag actions applied
+  skipped: T[] // Articles dropped by a 'skip' rule
+  matchedRuleIds: number[] // Rules that matched at least one article
+}
+
+/**
+ * Evaluates per-user article rules (mute, auto-read, auto-bookmark, tag) against incoming articles.
+ * Pure and isomorphic: DatabaseService.addArticles runs it before every insert.
+ */
+export class ArticleRulesEngine {
+  private static patterns = new Map<string, RegExp | null>()
+
+  /**
+   * Apply enabled rules in position order; a 'skip' match drops the article and stops evaluation
+   */
+  static apply<T extends ArticleRuleCandidate>(rules: ArticleRule[], articles: T[]): ArticleRulesResult<T> {
+    const activeRules = rules
+      .filter(rule => rule.is_enabled)
+      .sort((a, b) => a.position - b.position || a.id - b.id)
+
+    const kept: T[] = []
+    const skipped: T[] = []
+    const matchedRuleIds = new Set<number>()
+
+    if (activeRules.length === 0) {
+      return { articles, skipped, matchedRuleIds: [] }
+    }
+
+    for (const article of articles) {
+      let result: T | null = article
+
+      for (const rule of activeRules) {
+        if (!this.matches(rule, article)) continue
+        matchedRuleIds.add(rule.id)
+
+        if (rule.action === 'skip') {
+          result = null
+          break
+        }
+        result = this.applyAction(rule, result)
+      }
+
+      if (result) {
+        kept.push(result)
+      } else {
+        skipped.push(article)
+      }
+    }
+
+    if (skipped.length > 0 || matchedRuleIds.size > 0) {
+      console.log(`🧹 Article rules: ${skipped.length} skipped, ${matchedRuleIds.size} rules matched`)
+    }
+
+    return { articles: kept, skipped, matchedRuleIds: Array.from(matchedRuleIds) }
+  }
+
+  /**
+   * Whether every condition set on the rule matches the article
+   */
+  static matches(rule: Pick<ArticleRule, 'source_id' | 'conditions'>, article: ArticleRuleCandidate): boolean {
+    const { textPattern, author, categories, urlPattern } = rule.conditions
+    const hasCondition = !!(textPattern || author || categories?.length || urlPattern)
+
+    // A rule without conditions would match everything - treat it as inactive instead
+    if (!hasCondition) return false
+
+    if (rule.source_id && rule.source_id !== article.source_id) return false
+
+    if (textPattern) {
+      const regex = this.getPattern(textPattern)
+      if (!regex || !regex.test(`${article.title}\n${article.description || ''}`)) return false
+    }
+
+    if (author && !(article.author || '').toLowerCase().includes(author.toLowerCase())) return false
+
+    if (categories?.length) {
+      const articleCategories = (article.categories || []).map(category => category.toLowerCase())
+      if (!categories.some(category => articleCategories.includes(category.toLowerCase()))) return false
+    }
+
+    if (urlPattern) {
+      const regex = this.getPattern(urlPattern)
+      if (!regex || !regex.test(article.url)) return false
+    }
+
+    return true
+  }
+
+  /**
+   * Check a user-entered pattern, returning an error message when it isn't a valid regex
+   */
+  static validatePattern(pattern: string): string | null {
+    try {
+      new RegExp(pattern, 'i')
+      return null
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid regular expression'
+    }
+  }
+
+  private static applyAction<T extends ArticleRuleCandidate>(rule: ArticleRule, article: T): T {
+    switch (rule.action) {
+      case 'mark_read':
+        return { ...article, is_read: true }
+      case 'bookmark':
+        return { ...article, is_bookmarked: true }
+      case 'tag': {
+        // Tags are stored as categories so smart feeds and search can use them
+        const tag = rule.action_value?.trim()
+        if (!tag) return article
+        const categories = article.categories || []
+        return categories.includes(tag) ? article : { ...article, categories: [...categories, tag] }
+      }
+      default:
+        return article
+    }
+  }
+
+  private static getPattern(pattern: string): RegExp | null {
+    if (!this.patterns.has(pattern)) {
+      try {
+        this.patterns.set(pattern, new RegExp(pattern, 'i'))
+      } catch {
+        console.warn(`⚠️ Ignoring invalid article rule pattern: ${pattern}`)
+        this.patterns.set(pattern, null)
+      }
+    }
+    return this.patterns.get(pattern) || null
+  }
+}
@@ -0,0 +1,77 @@
+// Known click-tracking parameters (plus utm_*). Generic names like ref or source can select content, so they stay.
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid', 'igshid',
+  'ref_src', 'cmpid', '_hsenc', '_hsmi'
+])
+
+/**
+ * Normalizes article URLs so the same article reached through different feeds,
+ * mirrors or tracking links compares equal
+ */
+export class CanonicalUrl {
+  /**
+   * Canonical form: https, lowercase host without www./amp., no default port, fragment,
+   * tracking params, AMP path variants or trailing slash, and the remaining params sorted.
+   * Returns the trimmed input when it isn't an absolute http(s) URL.
+   */
+  static normalize(url: string): string {
+    const trimmed = url.trim()
+
+    let parsed: URL
+    try {
+      parsed = new URL(trimmed)
+    } catch {
+      return trimmed
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return trimmed
+    }
+
+    parsed.protocol = 'https:'
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^(www|amp)\./, '')
+    parsed.port = ''
+    parsed.hash = ''
+
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !key.toLowerCase().startsWith('utm_') && !TRACKING_PARAMS.has(key.toLowerCase()))
+      .sort(([a], [b]) => a.localeCompare(b))
+    parsed.search = new URLSearchParams(params).toString()
+
+    const path = parsed.pathname
+      .replace(/\/{2,}/g, '/')
+      .replace(/^\/amp(?=\/)/i, '') // /amp/post-slug
+      .replace(/\/amp\/?$/i, '') // /post-slug/amp
+      .replace(/\.amp(\.html?)?$/i, (_, extension) => extension || '') // /post-slug.amp.html
+      .replace(/\/+$/, '')
+    parsed.pathname = path || '/'
+
+    const normalized = parsed.toString()
+    return parsed.pathname === '/' && !parsed.search ? normalized.replace(/\/$/, '') : normalized
+  }
+
+  /**
+   * Normalized target of a page's <link rel="canonical"> (or og:url), resolved against the page URL
+   */
+  static fromHtml(html: string, pageUrl: string): string | null {
+    const patterns = [
+      /<link[^>]+rel=["']canonical["'][^>]*href=["']([^"']+)["']/i,
+      /<link[^>]+href=["']([^"']+)["'][^>]*rel=["']canonical["']/i,
+      /<meta[^>]+property=["']og:url["'][^>]*content=["']([^"']+)["']/i,
+      /<meta[^>]+content=["']([^"']+)["'][^>]*property=["']og:url["']/i
+    ]
+
+    for (const pattern of patterns) {
+      const match = html.match(pattern)
+      if (!match) continue
+
+      try {
+        return this.normalize(new URL(match[1].trim(), pageUrl).toString())
+      } catch {
+        continue
+      }
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,369 @@
+import {
+  CollectionJob,
+  CollectionJobCheckpoint,
+  CollectionJobEvent,
+  CollectionJobResult,
+  CollectionJobStatus,
+  DatabaseService,
+  Source
+} from './database'
+import { createCollectionOrchestrator, type CollectionResume } from './agents'
+import { CollectionProfiles } from './collection-profile'
+import { RefreshService, type RefreshCounts } from './refresh-service'
+import { createServiceSupabaseClient } from './supabase'
+
+export interface CollectionJobRunResult {
+  jobId: number
+  status: CollectionJobStatus // After this run; 'queued' means it will be retried
+  error?: string
+}
+
+export interface CollectionJobSummary {
+  processed: number
+  succeeded: number
+  failed: number
+  retrying: number
+  results: CollectionJobRunResult[]
+}
+
+export interface CollectionJobOptions {
+  limit?: number // Max jobs per run; a collection can take minutes
+}
+
+type JobOutcome =
+  | { status: 'succeeded'; result: CollectionJobResult }
+  | { status: 'failed'; error: string }
+
+const DEFAULT_BATCH_SIZE = 3
+const LEASE_MINUTES = 10 // Longer than a function may run, so a lapsed lease means the worker died
+const MAX_ATTEMPTS = 3
+const STORE_BATCH_SIZE = 50
+const EVENT_FLUSH_INTERVAL_MS = 1000
+
+/**
+ * Buffers a job run's progress events and writes them to collection_job_events in batches,
+ * where the events route streams them from. Progress is best-effort: write errors are only logged.
+ */
+class JobEventLog {
+  private db: DatabaseService
+  private job: CollectionJob
+  private pending: CollectionJobEvent[] = []
+  private timer?: ReturnType<typeof setTimeout>
+  private writes: Promise<void> = Promise.resolve()
+
+  constructor(db: DatabaseService, job: CollectionJob) {
+    this.db = db
+    this.job = job
+  }
+
+  push(event: CollectionJobEvent): void {
+    this.pending.push(event)
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), EVENT_FLUSH_INTERVAL_MS)
+    }
+  }
+
+  /**
+   * Write whatever is buffered; resolves once every earlier write finished too
+   */
+  flush(): Promise<void> {
+    clearTimeout(this.timer)
+    this.timer = undefined
+
+    const events = this.pending
+    this.pending = []
+    if (events.length > 0) {
+      this.writes = this.writes.then(() => this.write(events))
+    }
+    return this.writes
+  }
+
+  private async write(events: CollectionJobEvent[]): Promise<void> {
+    const { error } = await this.db.supabase
+      .from('collection_job_events')
+      .insert(events.map(event => ({ job_id: this.job.id, user_id: this.job.user_id, event })))
+
+    if (error) {
+      console.error('Error saving collection job events:', error)
+    }
+  }
+}
+
+/**
+ * Background worker for collection_jobs: runs historical collections server-side, checkpointing
+ * each finished strategy, the collected articles and storage progress so a job that times out or
+ * crashes resumes where it was. Attempts count consecutive runs that made no progress.
+ */
+export class CollectionJobWorker {
+  /**
+   * Run queued jobs, and running ones whose lease lapsed, oldest first
+   */
+  static async runPending(options: CollectionJobOptions = {}): Promise<CollectionJobSummary> {
+    const db = new DatabaseService(createServiceSupabaseClient())
+    const limit = options.limit || DEFAULT_BATCH_SIZE
+    const now = new Date().toISOString()
+
+    const { data, error } = await db.supabase
+      .from('collection_jobs')
+      .select('id')
+      .or(`status.eq.queued,and(status.eq.running,locked_until.lt.${now})`)
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching pending collection jobs:', error)
+      throw new Error('Failed to fetch pending collection jobs')
+    }
+
+    const jobs: Pick<CollectionJob, 'id'>[] = data || []
+    console.log(`🧰 Collection jobs: ${jobs.length} pending`)
+
+    const results: CollectionJobRunResult[] = []
+    for (const job of jobs) {
+      const result = await this.runJob(job.id, db)
+      if (result) results.push(result)
+    }
+
+    const summary: CollectionJobSummary = {
+      processed: results.length,
+      succeeded: results.filter(result => result.status === 'succeeded').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      retrying: results.filter(result => result.status === 'queued').length,
+      results
+    }
+
+    console.log(`✅ Collection jobs: ${summary.succeeded} succeeded, ${summary.failed} failed, ${summary.retrying} retrying`)
+    return summary
+  }
+
+  /**
+   * Claim and run one job. Null when it's finished or another worker holds it.
+   */
+  static async runJob(
+    jobId: number,
+    db: DatabaseService = new DatabaseService(createServiceSupabaseClient())
+  ): Promise<CollectionJobRunResult | null> {
+    const job = await this.claim(db, jobId)
+    if (!job) return null
+
+    console.log(`🏛️ Collection job ${job.id}: attempt ${job.attempts} for source ${job.source_id}`)
+    const events = new JobEventLog(db, job)
+
+    try {
+      const outcome = await this.process(db, job, events)
+      // Written before the job finishes, so a stream that sees it finished has every event
+      await events.flush()
+
+      if (outcome.status === 'failed') {
+        await this.finish(db, job.id, { status: 'failed', error: outcome.error })
+        return { jobId: job.id, status: 'failed', error: outcome.error }
+      }
+
+      // The collected articles are stored now; keep only the counts
+      await this.finish(db, job.id, {
+        status: 'succeeded',
+        result: outcome.result,
+        error: null,
+        checkpoint: { agentUsed: outcome.result.agentUsed, stored: outcome.result.articlesFound, counts: outcome.result.counts }
+      })
+      console.log(`✅ Collection job ${job.id}: ${outcome.result.counts.inserted} inserted, ${outcome.result.counts.updated} updated`)
+      return { jobId: job.id, status: 'succeeded' }
+
+    } catch (error) {
+      await events.flush()
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      const retry = job.attempts < MAX_ATTEMPTS
+      console.error(`❌ Collection job ${job.id} failed (attempt ${job.attempts}):`, error)
+
+      // The checkpoint is kept, so the retry skips whatever already finished
+      await this.finish(db, job.id, retry
+        ? { status: 'queued', error: message, finished_at: null }
+        : { status: 'failed', error: message })
+      return { jobId: job.id, status: retry ? 'queued' : 'failed', error: message }
+    }
+  }
+
+  /**
+   * Take the job's lease. The status/attempts match makes the update a compare-and-swap, so two
+   * workers picking up the same job can't both run it.
+   */
+  private static async claim(db: DatabaseService, jobId: number): Promise<CollectionJob | null> {
+    const { data, error } = await db.supabase
+      .from('collection_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching collection job:', error)
+      throw new Error('Failed to fetch collection job')
+    }
+
+    const job: CollectionJob | null = data
+    if (!job) return null
+
+    const leaseLapsed = job.status === 'running' && (!job.locked_until || new Date(job.locked_until) < new Date())
+    if (job.status !== 'queued' && !leaseLapsed) return null
+
+    if (job.attempts >= MAX_ATTEMPTS) {
+      await this.finish(db, job.id, { status: 'failed', error: job.error || `Gave up after ${job.attempts} attempts` })
+      return null
+    }
+
+    const { data: claimed, error: claimError } = await db.supabase
+      .from('collection_jobs')
+      .update({
+        status: 'running',
+        attempts: job.attempts + 1,
+        locked_until: this.getLeaseExpiry(),
+        started_at: job.started_at || new Date().toISOString()
+      })
+      .eq('id', job.id)
+      .eq('status', job.status)
+      .eq('attempts', job.attempts)
+      .select()
+      .maybeSingle()
+
+    if (claimError) {
+      console.error('Error claiming collection job:', claimError)
+      throw new Error('Failed to claim collection job')
+    }
+
+    return claimed
+  }
+
+  /**
+   * Collect (unless a previous attempt already did) and store the articles in checkpointed batches
+   */
+  private static async process(
+    db: DatabaseService,
+    job: CollectionJob,
+    events: JobEventLog
+  ): Promise<JobOutcome> {
+    const { data, error } = await db.supabase
+      .from('sources')
+      .select('*')
+      .eq('id', job.source_id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching source for collection job:', error)
+      throw new Error('Failed to fetch source')
+    }
+
+    const source: Source | null = data
+    if (!source) {
+      return { status: 'failed', error: 'Source no longer exists' }
+    }
+    // The service role bypasses RLS, so never collect into a job for someone else's source
+    if (source.user_id !== job.user_id) {
+      return { status: 'failed', error: 'Source belongs to another user' }
+    }
+
+    const checkpoint: CollectionJobCheckpoint = { ...job.checkpoint }
+
+    if (!checkpoint.articles) {
+      const settings = await db.getAgentSettings(job.user_id).catch(error => {
+        console.error('Error loading agent settings:', error)
+        return null
+      })
+      const orchestrator = createCollectionOrchestrator(settings || {})
+      orchestrator.onEvent(event => events.push({ type: 'agent', event }))
+
+      // Strategies an earlier attempt finished are replayed from the checkpoint instead of re-fetched
+      const resume: CollectionResume = {
+        completed: checkpoint.strategies || [],
+        onStrategyComplete: async strategy => {
+          checkpoint.strategies = [...(checkpoint.strategies || []), strategy]
+          await this.saveCheckpoint(db, job, checkpoint)
+        }
+      }
+      const result = await orchestrator.collectHistoricalArticles(source.url, CollectionProfiles.fromSource(source), undefined, resume)
+
+      if (result.profile !== undefined) {
+        await db.updateSource(source.id, CollectionProfiles.toSourceFields(result.profile))
+      }
+
+      // The agents ran to completion, so retrying wouldn't find anything either
+      if (!result.success) {
+        return { status: 'failed', error: result.errors?.join(', ') || 'No articles found' }
+      }
+
+      checkpoint.articles = result.articles
+      checkpoint.agentUsed = result.agentUsed
+      checkpoint.stored = 0
+      delete checkpoint.strategies // Superseded by the articles
+      await this.saveCheckpoint(db, job, checkpoint)
+    }
+
+    const articles = checkpoint.articles
+    const counts: RefreshCounts = { inserted: 0, updated: 0, skipped: 0, ...checkpoint.counts }
+
+    for (let start = checkpoint.stored || 0; start < articles.length; start += STORE_BATCH_SIZE) {
+      const batch = articles.slice(start, start + STORE_BATCH_SIZE)
+      const batchCounts = await RefreshService.persistArticles(source.id, source.name, batch, db, job.user_id)
+      counts.inserted += batchCounts.inserted
+      counts.updated += batchCounts.updated
+      counts.skipped += batchCounts.skipped
+
+      checkpoint.stored = start + batch.length
+      checkpoint.counts = counts
+      await this.saveCheckpoint(db, job, checkpoint)
+      events.push({ type: 'stored', stored: checkpoint.stored, total: articles.length })
+    }
+
+    await db.updateSource(source.id, {
+      status: 'active',
+      last_fetched_at: new Date().toISOString()
+    })
+
+    return {
+      status: 'succeeded',
+      result: {
+        agentUsed: checkpoint.agentUsed || 'Unknown',
+        articlesFound: articles.length,
+        counts
+      }
+    }
+  }
+
+  /**
+   * Persist progress and extend the lease. Progress resets attempts, so a long collection that
+   * keeps getting cut off still finishes while one that fails in the same place gives up.
+   */
+  private static async saveCheckpoint(db: DatabaseService, job: CollectionJob, checkpoint: CollectionJobCheckpoint): Promise<void> {
+    const { error } = await db.supabase
+      .from('collection_jobs')
+      .update({ checkpoint, attempts: 1, locked_until: this.getLeaseExpiry() })
+      .eq('id', job.id)
+
+    if (error) {
+      console.error('Error saving collection job checkpoint:', error)
+      throw new Error('Failed to save collection job checkpoint')
+    }
+    job.attempts = 1
+  }
+
+  /**
+   * Release the lease with the job's new state; terminal states get finished_at
+   */
+  private static async finish(db: DatabaseService, jobId: number, updates: Partial<CollectionJob>): Promise<void> {
+    const { error } = await db.supabase
+      .from('collection_jobs')
+      .update({
+        finished_at: new Date().toISOString(),
+        ...updates,
+        locked_until: null
+      })
+      .eq('id', jobId)
+
+    if (error) {
+      console.error('Error updating collection job:', error)
+      throw new Error('Failed to update collection job')
+    }
+  }
+
+  private static getLeaseExpiry(): string {
+    return new Date(Date.now() + LEASE_MINUTES * 60 * 1000).toISOString()
+  }
+}
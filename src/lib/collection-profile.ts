@@ -0,0 +1,36 @@
+import type { CollectionProfile } from './agents/collection-orchestrator'
+import type { Source } from './database'
+
+type ProfileFields = Pick<Source,
+  'collection_agent' | 'collection_platform' | 'collection_feed_url' | 'collection_strategies' | 'collection_profile_updated_at'
+>
+
+/**
+ * Maps the agent selection cached on a source row to and from the orchestrator's CollectionProfile
+ */
+export class CollectionProfiles {
+  static fromSource(source: Partial<ProfileFields>): CollectionProfile | null {
+    if (!source.collection_agent) return null
+    return {
+      agent: source.collection_agent,
+      platform: source.collection_platform || undefined,
+      feedUrl: source.collection_feed_url || undefined,
+      strategies: source.collection_strategies || []
+    }
+  }
+
+  /**
+   * Source updates for an orchestration result's profile: the new profile, cleared columns
+   * for null (cached agent stopped working), nothing when the run didn't produce one
+   */
+  static toSourceFields(profile: CollectionProfile | null | undefined): Partial<ProfileFields> {
+    if (profile === undefined) return {}
+    return {
+      collection_agent: profile?.agent || null,
+      collection_platform: profile?.platform || null,
+      collection_feed_url: profile?.feedUrl || null,
+      collection_strategies: profile?.strategies || null,
+      collection_profile_updated_at: new Date().toISOString()
+    }
+  }
+}
@@ -0,0 +1,612 @@
+import { parseHTML } from 'linkedom'
+import { CanonicalUrl } from './canonical-url'
+import type { ExtractionRecipe } from './database'
+import { ExtractionRecipes, type SiteRecipe } from './extraction-recipes'
+import { PageMetadataReader } from './page-metadata'
+import { PublishDateResolver, type ResolvedPublishDate } from './publish-date'
+
+export interface ExtractedArticle {
+  title?: string
+  byline?: string
+  publishedDate: ResolvedPublishDate | null
+  leadImage?: string // Absolute URL
+  content: string // Clean HTML of the article body, links and images resolved to absolute URLs
+  textContent: string
+  wordCount: number
+  canonicalUrl?: string
+  nextPageUrl?: string // Next page of a multi-page article (recipe link, rel="next" or pagination)
+  pageCount: number // Pages merged into `content`
+  recipe?: string // Name of the site recipe that extracted the body, if any
+}
+
+export interface ContentExtractionOptions {
+  recipes?: ExtractionRecipe[] // The user's own recipes, consulted before the built-in ones
+}
+
+// Class/id words (split on spaces, dashes and underscores) that mark page furniture rather than article text
+const UNLIKELY_WORDS = new Set([
+  'ad', 'ads', 'advert', 'advertisement', 'banner', 'breadcrumb', 'breadcrumbs', 'combx', 'comment', 'comments',
+  'community', 'cookie', 'cookies', 'disqus', 'footer', 'gdpr', 'header', 'masthead', 'menu', 'modal', 'nav',
+  'navbar', 'newsletter', 'outbrain', 'pager', 'pagination', 'popup', 'promo', 'related', 'remark', 'replies',
+  'rss', 'share', 'sharing', 'shoutbox', 'sidebar', 'skyscraper', 'social', 'sponsor', 'sponsored', 'subscribe',
+  'taboola', 'toolbar', 'widget'
+])
+const MAYBE_WORDS = new Set(['and', 'article', 'body', 'column', 'content', 'main', 'post', 'entry', 'story', 'text'])
+const POSITIVE_WORDS = new Set(['article', 'body', 'content', 'entry', 'main', 'page', 'post', 'text', 'blog', 'story', 'prose'])
+const NEGATIVE_WORDS = new Set([
+  'hidden', 'banner', 'combx', 'comment', 'contact', 'foot', 'footer', 'masthead', 'meta', 'outbrain', 'promo',
+  'related', 'scroll', 'share', 'shoutbox', 'sidebar', 'skyscraper', 'sponsor', 'shopping', 'tags', 'tool',
+  'widget', 'ad', 'ads', 'nav', 'menu'
+])
+
+const REMOVED_TAGS = 'script, style, noscript, template, link, meta, object, embed, form, button, input, select, textarea, svg, canvas, nav, aside, footer, dialog'
+const SCORED_TAGS = 'p, pre, td, blockquote, section, h2, h3, h4, h5, h6'
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DIV', 'DL', 'FIELDSET', 'FIGURE', 'FOOTER', 'FORM', 'H1', 'H2',
+  'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION', 'TABLE', 'UL'
+])
+const CONDITIONALLY_CLEANED = 'div, section, ul, ol, table, header'
+const VIDEO_EMBED = /(?:youtube(?:-nocookie)?\.com|youtu\.be|player\.vimeo\.com)\//i
+
+// Attributes that survive cleaning, everything else (class, style, event handlers, data-*) is dropped
+const KEPT_ATTRIBUTES = new Set(['href', 'src', 'srcset', 'alt', 'title', 'width', 'height', 'colspan', 'rowspan', 'datetime', 'start'])
+
+// Link text of pagination controls: "Next", "Next page ›", "Continue reading", "2", "»"
+const PAGINATION_TEXT = /^(?:(?:next(?: page)?|continue(?: reading)?|continued|read more|page \d+|\d{1,2})\s*[›»→>]*|[›»→>]+)$/i
+const PAGE_PARAMS = ['page', 'pg', 'paged', 'pagenum']
+
+const MIN_PARAGRAPH_LENGTH = 25
+const MIN_CONTENT_LENGTH = 200
+
+/**
+ * DOM-based article extraction in the spirit of Readability: scores block elements by text and
+ * link density to find the article body, then cleans it down to portable HTML. Figures, code
+ * and data tables are kept; relative links and images are resolved against the page URL.
+ */
+export class ContentExtractor {
+  /**
+   * Extract the article from a page. A matching site recipe is tried first, then the generic
+   * heuristics. `content` is empty when no body of at least a couple of paragraphs could be found.
+   */
+  static extract(html: string, url: string, options: ContentExtractionOptions = {}): ExtractedArticle {
+    const metadata = PageMetadataReader.read(html)
+    // linkedom only builds a body for complete documents
+    const { document } = parseHTML(/<body[\s>]/i.test(html) ? html : `<!DOCTYPE html><html><body>${html}</body></html>`)
+    const baseUrl = this.getBaseUrl(document, url)
+
+    const recipe = ExtractionRecipes.find(url, document, options.recipes)
+    const recipeFields = recipe ? this.readRecipeFields(document, recipe, baseUrl) : {}
+    // Pagination controls are stripped along with other link lists, so look for them first
+    const nextPageUrl = recipeFields.nextPageUrl || this.findNextPageUrl(document, url, baseUrl)
+
+    const title = recipeFields.title || this.getTitle(document, metadata.title, metadata.siteName)
+    const byline = metadata.author || recipeFields.author || this.getDomByline(document)
+
+    const recipeBody = recipe ? this.applyRecipe(document, recipe) : null
+    const body = recipeBody || this.findArticleBody(document)
+    if (body) {
+      this.cleanArticle(body, title, baseUrl, !recipeBody)
+    }
+
+    const textContent = this.getText(body)
+    const content = textContent.length >= MIN_CONTENT_LENGTH && body ? body.innerHTML.trim() : ''
+
+    let leadImage = metadata.image ? this.resolveUrl(metadata.image, baseUrl) : undefined
+    if (!leadImage && content && body) {
+      leadImage = body.querySelector('img[src]')?.getAttribute('src') || undefined
+    }
+
+    return {
+      title,
+      byline,
+      publishedDate: PublishDateResolver.resolve(metadata.publishedDate, recipeFields.publishedDate, PublishDateResolver.fromUrl(url)),
+      leadImage,
+      content,
+      textContent: content ? textContent : '',
+      wordCount: content ? textContent.split(/\s+/).filter(Boolean).length : 0,
+      canonicalUrl: CanonicalUrl.fromHtml(html, url) || undefined,
+      nextPageUrl,
+      pageCount: 1,
+      recipe: recipeBody ? recipe?.name : undefined
+    }
+  }
+
+  /**
+   * Combine the extracted pages of one article into a single document. Metadata comes from the
+   * first page; blocks a later page repeats (standfirst, lead image) are dropped.
+   */
+  static mergePages(pages: ExtractedArticle[]): ExtractedArticle {
+    const [first, ...rest] = pages
+    if (rest.length === 0) return first
+
+    const seenBlocks = new Set<string>()
+    const contents: string[] = []
+    const texts: string[] = []
+
+    for (const page of pages) {
+      const { document } = parseHTML(`<!DOCTYPE html><html><body>${page.content}</body></html>`)
+      for (const block of Array.from(document.body.querySelectorAll('p, h2, h3, h4, h5, h6, blockquote, pre, figure'))) {
+        const key = this.getText(block) || block.querySelector('img')?.getAttribute('src') || ''
+        if (!key) continue
+        if (page !== first && seenBlocks.has(key)) {
+          block.remove()
+        } else {
+          seenBlocks.add(key)
+        }
+      }
+      contents.push(document.body.innerHTML.trim())
+      texts.push(this.getText(document.body))
+    }
+
+    const textContent = texts.join(' ')
+    return {
+      ...first,
+      content: contents.join('\n'),
+      textContent,
+      wordCount: textContent.split(/\s+/).filter(Boolean).length,
+      nextPageUrl: pages[pages.length - 1].nextPageUrl,
+      pageCount: pages.length
+    }
+  }
+
+  /**
+   * The next page of this article from <link rel="next">, a rel="next" link or a pagination
+   * control. Only URLs that paginate this page (same path, page number one higher) count, so
+   * "next post" links aren't mistaken for page two.
+   */
+  private static findNextPageUrl(document: Document, url: string, baseUrl: string): string | undefined {
+    const candidates = [
+      ...Array.from(document.querySelectorAll('link[rel~="next"], a[rel~="next"]')),
+      ...Array.from(document.querySelectorAll('a[href]')).filter(link => PAGINATION_TEXT.test(this.getText(link)))
+    ]
+
+    for (const candidate of candidates) {
+      const href = candidate.getAttribute('href')
+      if (!href || href.startsWith('#')) continue
+
+      const next = this.resolveUrl(href, baseUrl)
+      if (this.isNextPage(next, url)) return next
+    }
+    return undefined
+  }
+
+  private static isNextPage(candidateUrl: string, pageUrl: string): boolean {
+    let candidate: URL
+    let page: URL
+    try {
+      candidate = new URL(candidateUrl)
+      page = new URL(pageUrl)
+    } catch {
+      return false
+    }
+
+    if (candidate.origin !== page.origin) return false
+
+    const next = this.getPagePosition(candidate)
+    const current = this.getPagePosition(page)
+    return next.base === current.base && next.page === current.page + 1
+  }
+
+  // Split "/essay/2/" or "/essay?page=2" into the article's base address and the page number
+  private static getPagePosition(url: URL): { base: string; page: number } {
+    const params = new URLSearchParams(url.search)
+    let page = 1
+
+    for (const name of PAGE_PARAMS) {
+      const value = params.get(name)
+      if (value && /^\d+$/.test(value)) {
+        page = parseInt(value, 10)
+        params.delete(name)
+      }
+    }
+
+    let path = url.pathname.replace(/\/+$/, '')
+    const pathPage = path.match(/\/(?:page\/)?(\d{1,2})$/)
+    if (page === 1 && pathPage) {
+      page = parseInt(pathPage[1], 10)
+      path = path.slice(0, -pathPage[0].length)
+    }
+
+    params.sort()
+    return { base: `${path}?${params.toString()}`, page }
+  }
+
+  /**
+   * Title, author, date and next-page link from the recipe's selectors. Read before any
+   * elements are removed, since these often live outside the content container.
+   */
+  private static readRecipeFields(document: Document, recipe: SiteRecipe, baseUrl: string): {
+    title?: string
+    author?: string
+    publishedDate?: ResolvedPublishDate | null
+    nextPageUrl?: string
+  } {
+    const { selectors } = recipe
+    const title = this.getText(this.querySelector(document, selectors.title)) || undefined
+    const author = this.getText(this.querySelector(document, selectors.author)).replace(/^by\s+/i, '') || undefined
+
+    const dateElement = this.querySelector(document, selectors.date)
+    const datetime = dateElement?.getAttribute('datetime')
+    const publishedDate = datetime
+      ? PublishDateResolver.fromTimeElement(datetime)
+      : PublishDateResolver.fromText(this.getText(dateElement))
+
+    const nextHref = this.querySelector(document, selectors.nextPage)?.getAttribute('href')
+    const nextPageUrl = nextHref ? this.resolveUrl(nextHref, baseUrl) : undefined
+
+    return { title, author, publishedDate, nextPageUrl }
+  }
+
+  /**
+   * Strip the recipe's unwanted elements and take its content container, or null when the
+   * container is missing or too short (the page layout changed, or it isn't an article page)
+   */
+  private static applyRecipe(document: Document, recipe: SiteRecipe): Element | null {
+    const { selectors } = recipe
+    for (const selector of selectors.remove || []) {
+      this.querySelectorAll(document, selector).forEach(element => element.remove())
+    }
+
+    const container = this.querySelector(document, selectors.content)
+    if (!container || this.getText(container).length < MIN_CONTENT_LENGTH) {
+      console.log(`⚠️ Recipe "${recipe.name}" found no content, falling back to heuristics`)
+      return null
+    }
+
+    container.querySelectorAll(REMOVED_TAGS).forEach(element => element.remove())
+    container.querySelectorAll('iframe').forEach(element => {
+      if (!VIDEO_EMBED.test(element.getAttribute('src') || '')) element.remove()
+    })
+
+    const article = document.createElement('div')
+    Array.from(container.childNodes).forEach(node => article.appendChild(node))
+    return article
+  }
+
+  // Recipe selectors are user input, an invalid one just doesn't match
+  private static querySelector(document: Document, selector?: string): Element | null {
+    if (!selector) return null
+    try {
+      return document.querySelector(selector)
+    } catch {
+      return null
+    }
+  }
+
+  private static querySelectorAll(document: Document, selector: string): Element[] {
+    try {
+      return Array.from(document.querySelectorAll(selector))
+    } catch {
+      return []
+    }
+  }
+
+  /**
+   * Pick the highest scoring container and gather its siblings that look like part of the
+   * same article into a detached element
+   */
+  private static findArticleBody(document: Document): Element | null {
+    const root = document.body || document.documentElement
+    if (!root) return null
+
+    root.querySelectorAll(REMOVED_TAGS).forEach(element => element.remove())
+    root.querySelectorAll('iframe').forEach(element => {
+      if (!VIDEO_EMBED.test(element.getAttribute('src') || '')) element.remove()
+    })
+    this.removeUnlikelyCandidates(root)
+
+    const scores = new Map<Element, number>()
+
+    const paragraphs = Array.from(root.querySelectorAll(SCORED_TAGS))
+    // Divs used as paragraphs (no block-level children) count as paragraphs too
+    root.querySelectorAll('div').forEach(div => {
+      if (!Array.from(div.children).some(child => BLOCK_TAGS.has(child.tagName))) paragraphs.push(div)
+    })
+
+    for (const paragraph of paragraphs) {
+      const text = this.getText(paragraph)
+      if (text.length < MIN_PARAGRAPH_LENGTH) continue
+
+      const commas = text.split(/[,，、]/).length - 1
+      const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3)
+
+      let ancestor = paragraph.parentElement
+      for (let level = 0; ancestor && level < 3; level++, ancestor = ancestor.parentElement) {
+        if (!scores.has(ancestor)) scores.set(ancestor, this.getInitialScore(ancestor))
+        const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3
+        scores.set(ancestor, scores.get(ancestor)! + score / divider)
+      }
+    }
+
+    let topCandidate: Element | null = null
+    let topScore = 0
+    for (const [candidate, score] of scores) {
+      const adjusted = score * (1 - this.getLinkDensity(candidate))
+      scores.set(candidate, adjusted)
+      if (adjusted > topScore) {
+        topCandidate = candidate
+        topScore = adjusted
+      }
+    }
+
+    if (!topCandidate) {
+      topCandidate = root
+      topScore = 0
+    }
+
+    // A lone wrapper around the best node is the same content with less context
+    while (topCandidate.parentElement && topCandidate.parentElement !== root &&
+        topCandidate.parentElement.children.length === 1) {
+      topCandidate = topCandidate.parentElement
+      topScore = Math.max(topScore, scores.get(topCandidate) || 0)
+    }
+
+    const article = document.createElement('div')
+    const parent = topCandidate.parentElement
+    if (!parent || topCandidate === root) {
+      Array.from(topCandidate.childNodes).forEach(node => article.appendChild(node))
+      return article
+    }
+
+    const threshold = Math.max(10, topScore * 0.2)
+    for (const sibling of Array.from(parent.children)) {
+      if (sibling === topCandidate || this.isRelatedSibling(sibling, topCandidate, scores, threshold)) {
+        article.appendChild(sibling)
+      }
+    }
+    return article
+  }
+
+  private static isRelatedSibling(
+    sibling: Element,
+    topCandidate: Element,
+    scores: Map<Element, number>,
+    threshold: number
+  ): boolean {
+    let score = scores.get(sibling) || 0
+    if (sibling.className && sibling.className === topCandidate.className) score += threshold
+
+    if (score >= threshold) return true
+    if (sibling.tagName !== 'P' && sibling.tagName !== 'FIGURE') return false
+    if (sibling.tagName === 'FIGURE') return !!sibling.querySelector('img')
+
+    const text = this.getText(sibling)
+    const linkDensity = this.getLinkDensity(sibling)
+    return (text.length > 80 && linkDensity < 0.25) ||
+      (text.length > 0 && linkDensity === 0 && /\.( |$)/.test(text))
+  }
+
+  private static removeUnlikelyCandidates(root: Element) {
+    for (const element of Array.from(root.querySelectorAll('*'))) {
+      if (['BODY', 'ARTICLE', 'MAIN', 'A', 'FIGURE', 'PICTURE', 'IMG'].includes(element.tagName)) continue
+      if (element.closest('pre, code, table, figure')) continue
+
+      const words = this.getClassWords(element)
+      const role = element.getAttribute('role')
+      const unlikely = words.some(word => UNLIKELY_WORDS.has(word)) && !words.some(word => MAYBE_WORDS.has(word))
+
+      if (unlikely || role === 'navigation' || role === 'complementary' || role === 'banner' ||
+          element.getAttribute('aria-hidden') === 'true' || element.hasAttribute('hidden')) {
+        element.remove()
+      }
+    }
+  }
+
+  /**
+   * Strip what's left of page furniture from the chosen body and normalize what remains
+   */
+  private static cleanArticle(article: Element, title: string | undefined, baseUrl: string, conditional: boolean = true) {
+    const document = article.ownerDocument
+
+    // Embedded videos become links to the video, iframes don't survive sanitizing on display
+    article.querySelectorAll('iframe').forEach(iframe => {
+      const src = this.resolveUrl(iframe.getAttribute('src') || '', baseUrl)
+      const paragraph = document.createElement('p')
+      const link = document.createElement('a')
+      link.setAttribute('href', src)
+      link.textContent = iframe.getAttribute('title') || 'Embedded video'
+      paragraph.appendChild(link)
+      iframe.replaceWith(paragraph)
+    })
+
+    // The page title repeated as a heading
+    article.querySelectorAll('h1, h2').forEach(heading => {
+      const text = this.getText(heading)
+      if (!text || (title && text === title) || this.getClassWeight(heading) < 0) heading.remove()
+    })
+
+    // Recipe content is trusted as is, the heuristics only second-guess our own choice of body
+    if (conditional) {
+      Array.from(article.querySelectorAll(CONDITIONALLY_CLEANED)).reverse().forEach(element => {
+        if (article.contains(element) && this.shouldRemoveConditionally(element)) element.remove()
+      })
+    }
+
+    article.querySelectorAll('img').forEach(image => {
+      this.fixLazyImage(image)
+      const width = parseInt(image.getAttribute('width') || '0', 10)
+      const height = parseInt(image.getAttribute('height') || '0', 10)
+      if (!image.getAttribute('src') || (width > 0 && height > 0 && (width < 50 || height < 50))) {
+        image.remove() // Tracking pixels, icons and images we couldn't resolve
+      }
+    })
+
+    article.querySelectorAll('a[href^="javascript:"]').forEach(link => {
+      link.replaceWith(...Array.from(link.childNodes))
+    })
+
+    for (const element of Array.from(article.querySelectorAll('*'))) {
+      for (const name of element.getAttributeNames()) {
+        const keep = KEPT_ATTRIBUTES.has(name) ||
+          (name === 'class' && /^(PRE|CODE)$/.test(element.tagName) && /\blang(uage)?-/.test(element.getAttribute(name) || ''))
+        if (!keep) element.removeAttribute(name)
+      }
+
+      for (const name of ['href', 'src']) {
+        const value = element.getAttribute(name)
+        if (value && !value.startsWith('#')) element.setAttribute(name, this.resolveUrl(value, baseUrl))
+      }
+      const srcset = element.getAttribute('srcset')
+      if (srcset) element.setAttribute('srcset', this.resolveSrcset(srcset, baseUrl))
+    }
+
+    // Containers emptied by the steps above
+    Array.from(article.querySelectorAll('p, div, section, span, li')).reverse().forEach(element => {
+      if (!this.getText(element) && !element.querySelector('img, picture, video, audio, pre, table, hr, br')) {
+        element.remove()
+      }
+    })
+  }
+
+  /**
+   * Readability's "clean conditionally": drop blocks that look like link lists, image galleries
+   * or forms rather than prose, but never code, figures or data tables
+   */
+  private static shouldRemoveConditionally(element: Element): boolean {
+    if (element.closest('pre, code, figure')) return false
+    if (element.querySelector('pre, code, figure')) return false
+    if (element.tagName === 'TABLE' && this.isDataTable(element)) return false
+
+    const weight = this.getClassWeight(element)
+    if (weight < 0) return true
+
+    const text = this.getText(element)
+    if (text.split(',').length > 10) return false
+
+    const paragraphCount = element.querySelectorAll('p').length
+    const imageCount = element.querySelectorAll('img').length
+    const listItemCount = element.querySelectorAll('li').length - 100
+    const inputCount = element.querySelectorAll('input').length
+    const linkDensity = this.getLinkDensity(element)
+    const isList = element.tagName === 'UL' || element.tagName === 'OL'
+
+    return (imageCount > 1 && paragraphCount / imageCount < 0.5) ||
+      (!isList && listItemCount > paragraphCount) ||
+      inputCount > Math.floor(paragraphCount / 3) ||
+      (!isList && text.length < MIN_PARAGRAPH_LENGTH && (imageCount === 0 || imageCount > 2)) ||
+      (weight < 25 && linkDensity > 0.2) ||
+      (weight >= 25 && linkDensity > 0.5)
+  }
+
+  private static isDataTable(table: Element): boolean {
+    if (table.getAttribute('role') === 'presentation') return false
+    if (table.querySelector('table')) return false
+    if (table.querySelector('caption, th, thead')) return true
+
+    const rows = table.querySelectorAll('tr')
+    const columns = rows[0]?.querySelectorAll('td').length || 0
+    return rows.length >= 3 && columns >= 2
+  }
+
+  // Lazy-loading libraries keep the real image in data-* attributes and a placeholder in src
+  private static fixLazyImage(image: Element) {
+    const src = image.getAttribute('src') || ''
+    if (src && !src.startsWith('data:')) return
+
+    const lazySrc = ['data-src', 'data-lazy-src', 'data-original', 'data-url']
+      .map(name => image.getAttribute(name))
+      .find(Boolean)
+    const srcset = image.getAttribute('srcset') || image.getAttribute('data-srcset')
+
+    if (lazySrc) {
+      image.setAttribute('src', lazySrc)
+    } else if (srcset) {
+      image.setAttribute('src', srcset.split(',')[0].trim().split(/\s+/)[0])
+    }
+    if (!image.getAttribute('srcset') && image.getAttribute('data-srcset')) {
+      image.setAttribute('srcset', image.getAttribute('data-srcset')!)
+    }
+  }
+
+  private static getInitialScore(element: Element): number {
+    const tagScores: Record<string, number> = {
+      DIV: 5, ARTICLE: 5, PRE: 3, TD: 3, BLOCKQUOTE: 3,
+      ADDRESS: -3, OL: -3, UL: -3, DL: -3, DD: -3, DT: -3, LI: -3, FORM: -3,
+      H1: -5, H2: -5, H3: -5, H4: -5, H5: -5, H6: -5, TH: -5
+    }
+    return (tagScores[element.tagName] || 0) + this.getClassWeight(element)
+  }
+
+  private static getClassWeight(element: Element): number {
+    const words = this.getClassWords(element)
+    let weight = 0
+    if (words.some(word => NEGATIVE_WORDS.has(word))) weight -= 25
+    if (words.some(word => POSITIVE_WORDS.has(word))) weight += 25
+    return weight
+  }
+
+  // Matching whole words keeps "loaded" or "header-image" from reading as "ad"
+  private static getClassWords(element: Element): string[] {
+    return `${element.getAttribute('class') || ''} ${element.getAttribute('id') || ''}`
+      .toLowerCase()
+      .split(/[\s_-]+/)
+      .filter(Boolean)
+  }
+
+  private static getLinkDensity(element: Element): number {
+    const textLength = this.getText(element).length
+    if (textLength === 0) return 0
+
+    let linkLength = 0
+    element.querySelectorAll('a').forEach(link => {
+      // In-page anchors (footnotes, table of contents) are part of the text
+      const weight = (link.getAttribute('href') || '').startsWith('#') ? 0.3 : 1
+      linkLength += this.getText(link).length * weight
+    })
+    return linkLength / textLength
+  }
+
+  private static getTitle(document: Document, metaTitle?: string, siteName?: string): string | undefined {
+    const headings = Array.from(document.querySelectorAll('h1'))
+    const documentTitle = this.getText(document.querySelector('title'))
+    let title = metaTitle || (headings.length === 1 ? this.getText(headings[0]) : '') || documentTitle
+
+    // "Article Title | Site Name"
+    const separator = /\s+[|\-–—·:»]\s+/
+    if (siteName && separator.test(title)) {
+      const parts = title.split(separator).filter(part => part.toLowerCase() !== siteName.toLowerCase())
+      title = parts.join(' - ')
+    } else if (!metaTitle && title === documentTitle && separator.test(title)) {
+      const first = title.split(separator)[0]
+      if (first.split(/\s+/).length >= 3) title = first
+    }
+
+    return title.trim() || undefined
+  }
+
+  private static getDomByline(document: Document): string | undefined {
+    const candidates = document.querySelectorAll('[rel="author"], [itemprop="author"], .byline, .author, .post-author')
+    for (const candidate of Array.from(candidates)) {
+      const text = this.getText(candidate).replace(/^by\s+/i, '')
+      if (text && text.length <= 100) return text
+    }
+    return undefined
+  }
+
+  private static getBaseUrl(document: Document, url: string): string {
+    const base = document.querySelector('base[href]')?.getAttribute('href')
+    return base ? this.resolveUrl(base, url) : url
+  }
+
+  private static resolveUrl(value: string, baseUrl: string): string {
+    try {
+      return new URL(value.trim(), baseUrl).toString()
+    } catch {
+      return value
+    }
+  }
+
+  private static resolveSrcset(srcset: string, baseUrl: string): string {
+    return srcset
+      .split(',')
+      .map(entry => {
+        const [src, ...descriptor] = entry.trim().split(/\s+/)
+        return [this.resolveUrl(src, baseUrl), ...descriptor].join(' ')
+      })
+      .join(', ')
+  }
+
+  private static getText(element: Element | null | undefined): string {
+    return (element?.textContent || '').replace(/\s+/g, ' ').trim()
+  }
+}
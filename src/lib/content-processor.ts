@@ -76,9 +76,10 @@ export class ContentProcessor {
       ALLOWED_TAGS: [
         'p', 'br', 'strong', 'em', 'u', 's', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
         'ul', 'ol', 'li', 'blockquote', 'a', 'img', 'code', 'pre',
-        'table', 'thead', 'tbody', 'tr', 'td', 'th'
+        'table', 'thead', 'tbody', 'tr', 'td', 'th',
+        'figure', 'figcaption', 'caption', 'tfoot', 'hr', 'sup', 'sub', 'dl', 'dt', 'dd'
       ],
-      ALLOWED_ATTR: ['href', 'src', 'alt', 'title', 'class', 'id'],
+      ALLOWED_ATTR: ['href', 'src', 'srcset', 'alt', 'title', 'class', 'id', 'colspan', 'rowspan'],
       ALLOW_DATA_ATTR: false
     })
   }
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+// Vercel Cron (and any other scheduler) must send "Authorization: Bearer $CRON_SECRET". Fails closed:
+// without a configured secret every request is refused. Returns the error response, or null when allowed.
+export const authorizeCronRequest = (request: NextRequest): NextResponse | null => {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    console.error('CRON_SECRET is not set; refusing cron request')
+    return NextResponse.json({ error: 'Cron is not configured' }, { status: 503 })
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  return null
+}
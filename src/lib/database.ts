@@ -1,4 +1,14 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createSupabaseClient } from './supabase'
+import { FolderTree } from './folders'
+import { ArticleRulesEngine } from './article-rules'
+import { ArticleFingerprint } from './article-fingerprint'
+import { CanonicalUrl } from './canonical-url'
+import { ArticleMerge } from './article-merge'
+import type { PublishDateConfidence, PublishDateSource } from './publish-date'
+import type { AgentRegistryConfig } from './agents/agent-registry'
+import type { AgentEvent, HistoricalArticle, KnownArticles, StrategyCheckpoint } from './agents/base-agent'
+import type { RefreshCounts } from './refresh-service'
 
 export interface Author {
   id: number
@@ -45,10 +55,167 @@ export interface Source {
   status: 'active' | 'error' | 'paused'
   last_fetched_at?: string
   articles_count: number
+  etag?: string | null // Conditional GET validators from the last successful poll
+  last_modified?: string | null
+  next_poll_at?: string
+  poll_failures?: number // Consecutive failed polls, drives backoff
+  folder_id?: number | null
+  tags?: string[]
+  collection_agent?: string | null // Agent that last collected this source; reused until it stops finding articles
+  collection_platform?: string | null
+  collection_feed_url?: string | null // Feed that agent collected from, also polled instead of the source URL
+  collection_strategies?: string[] | null
+  collection_profile_updated_at?: string | null
   created_at: string
   updated_at: string
 }
 
+export interface Folder {
+  id: number
+  user_id: string
+  parent_id: number | null
+  name: string
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+export type SmartFeedReadState = 'all' | 'unread' | 'read' | 'bookmarked'
+
+// Every rule is optional; a feed matches articles that satisfy all of the rules it sets
+export interface SmartFeedRules {
+  keywords?: string // Full-text query (websearch syntax) over title, author, description and content
+  author?: string
+  categories?: string[] // Any of
+  themes?: string[] // Any of main_themes
+  folderId?: number // Includes subfolders
+  publishedWithinDays?: number
+  readState?: SmartFeedReadState
+}
+
+export interface SmartFeed {
+  id: number
+  user_id: string
+  name: string
+  rules: SmartFeedRules
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+export type ArticleRuleAction = 'skip' | 'mark_read' | 'bookmark' | 'tag'
+
+// Every condition set must match (regexes are case-insensitive)
+export interface ArticleRuleConditions {
+  textPattern?: string // Regex tested against title and description
+  author?: string // Case-insensitive substring
+  categories?: string[] // Any of
+  urlPattern?: string // Regex tested against the article URL
+}
+
+export interface ArticleRule {
+  id: number
+  user_id: string
+  source_id: number | null // null applies to every source
+  name: string
+  conditions: ArticleRuleConditions
+  action: ArticleRuleAction
+  action_value?: string | null // Tag name for the 'tag' action
+  is_enabled: boolean
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+export type ArticleRulePreviewArticle = Pick<
+  ArticleSummary,
+  'id' | 'source_id' | 'title' | 'description' | 'url' | 'author' | 'categories' | 'published_at' | 'source_name'
+>
+
+export interface ArticleRuleDryRun {
+  scanned: number
+  matches: ArticleRulePreviewArticle[]
+}
+
+export interface ExtractionRecipeSelectors {
+  content: string // Article body container
+  remove?: string[] // Elements stripped before extraction (share bars, signup boxes)
+  title?: string
+  date?: string // Element whose datetime attribute or text holds the publish date
+  author?: string
+  nextPage?: string // Link to the next page of a multi-page article
+}
+
+export interface ExtractionRecipe {
+  id: number
+  user_id: string
+  name: string
+  domain: string // Hostname; "*.example.com" also matches subdomains
+  selectors: ExtractionRecipeSelectors
+  is_enabled: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface AgentSettings extends Required<AgentRegistryConfig> {
+  id: number
+  user_id: string
+  created_at: string
+  updated_at: string
+}
+
+export type CollectionJobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+// Progress a worker saves as it goes; a retried job resumes from here instead of starting over
+export interface CollectionJobCheckpoint {
+  strategies?: StrategyCheckpoint[] // Finished strategies of a collection still in progress
+  articles?: HistoricalArticle[] // Collected and waiting to be stored (present once collection finished)
+  agentUsed?: string
+  stored?: number // How many of the articles have been persisted
+  counts?: RefreshCounts
+}
+
+export interface CollectionJobResult {
+  agentUsed: string
+  articlesFound: number
+  counts: RefreshCounts
+}
+
+export interface CollectionJob {
+  id: number
+  user_id: string
+  source_id: number
+  status: CollectionJobStatus
+  attempts: number
+  checkpoint: CollectionJobCheckpoint
+  result?: CollectionJobResult | null
+  error?: string | null
+  locked_until?: string | null
+  started_at?: string | null
+  finished_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Live progress of a job run: agent events while collecting, then storage batches
+export type CollectionJobEvent =
+  | { type: 'agent'; event: AgentEvent }
+  | { type: 'stored'; stored: number; total: number }
+
+export interface CollectionJobEventRecord {
+  id: number
+  job_id: number
+  user_id: string
+  event: CollectionJobEvent
+  created_at: string
+}
+
+export interface SourceArticleCounts {
+  source_id: number
+  article_count: number
+  unread_count: number
+}
+
 export interface Article {
   id: number
   source_id: number
@@ -59,7 +226,9 @@ export interface Article {
   content?: string
   url: string
   author?: string
-  published_at?: string
+  published_at?: string // Left empty when no trustworthy date was found
+  published_at_source?: PublishDateSource | null // Where published_at was read from
+  published_at_confidence?: PublishDateConfidence | null
   image_url?: string
   categories?: string[]
   read_time?: string
@@ -72,6 +241,12 @@ export interface Article {
   main_themes?: string[]
   contradicts_previous: boolean
   related_article_ids?: number[]
+  canonical_url?: string | null
+  content_fingerprint?: string | null
+  fingerprint_bands?: string[] | null
+  duplicate_of?: number | null // First-seen copy of the same article from another source
+  needs_enrichment?: boolean // Title/metadata were guessed (e.g. from a sitemap URL slug)
+  enriched_at?: string | null // When the enrichment job visited the page; null until it has run
   created_at: string
   updated_at: string
 }
@@ -81,8 +256,101 @@ export interface ArticleWithSource extends Article {
   source_url: string
 }
 
+// Row shape of the articles_summary view (lightweight listing without the full body)
+export interface ArticleSummary extends Omit<
+  Article,
+  'content' | 'ai_analysis' | 'key_quotes' | 'related_article_ids' | 'canonical_url' | 'content_fingerprint' |
+  'fingerprint_bands' | 'needs_enrichment' | 'enriched_at'
+> {
+  content_preview?: string
+  source_name: string
+  source_url: string
+  author_name?: string
+  author_slug?: string
+  author_avatar_url?: string
+}
+
+export interface ArticleListFilters {
+  sourceId?: number
+  sourceIds?: number[] // e.g. every source in a folder
+  keywords?: string // Full-text query (websearch syntax) over title, author, description and content
+  categories?: string[] // Matches articles with any of these categories
+  themes?: string[] // Matches articles with any of these main_themes
+  author?: string
+  isRead?: boolean
+  isBookmarked?: boolean
+  from?: string // ISO date, inclusive
+  to?: string // ISO date, inclusive
+}
+
+// Keyset cursor: the (published_at, id) of the last article on the previous page
+export interface ArticleCursor {
+  published_at: string | null
+  id: number
+}
+
+export interface ArticlePage {
+  articles: ArticleSummary[]
+  nextCursor: ArticleCursor | null
+}
+
+export interface ArticleSearchFilters {
+  sourceId?: number
+  sourceIds?: number[]
+  author?: string
+  from?: string // ISO date, inclusive
+  to?: string // ISO date, inclusive
+  limit?: number
+  offset?: number
+}
+
+export interface ArticleSearchResult extends Pick<
+  ArticleWithSource,
+  'id' | 'source_id' | 'title' | 'description' | 'url' | 'author' | 'published_at' | 'image_url' |
+  'read_time' | 'is_read' | 'is_bookmarked' | 'created_at' | 'source_name' | 'source_url'
+> {
+  rank: number
+  title_highlight: string // Title with matches wrapped in <mark></mark>
+  snippet: string // Plain-text excerpt with matches wrapped in <mark></mark>
+}
+
+// Another copy of an article shown on Discover as "also in"
+export interface ArticleDuplicate extends Pick<ArticleSummary, 'id' | 'source_id' | 'source_name' | 'url'> {
+  duplicate_of: number
+}
+
+type DuplicateCandidate = Pick<Article, 'id' | 'canonical_url' | 'content_fingerprint' | 'duplicate_of'>
+
+const DUPLICATE_LOOKUP_CHUNK = 100
+const URL_LOOKUP_CHUNK = 100
+const DUPLICATE_CANDIDATE_LIMIT = 200 // Per article, oldest first
+const KNOWN_ARTICLE_LIMIT = 500 // Newest stored URLs an incremental collection checks listings against
+
+// Builder returned by .select(); filters keep the same type
+type ArticleFilterQuery = ReturnType<ReturnType<SupabaseClient['from']>['select']>
+
+// articles_summary minus search_vector (only used for filtering)
+const ARTICLE_SUMMARY_COLUMNS = [
+  'id', 'source_id', 'user_id', 'author_id', 'title', 'description', 'content_preview', 'url', 'author',
+  'published_at', 'image_url', 'categories', 'read_time', 'is_read', 'is_bookmarked', 'is_enhanced',
+  'content_length', 'main_themes', 'contradicts_previous', 'duplicate_of', 'published_at_source',
+  'published_at_confidence', 'created_at', 'updated_at',
+  'source_name', 'source_url', 'author_name', 'author_slug', 'author_avatar_url'
+].join(',')
+
+// collection_jobs minus checkpoint, which can hold hundreds of collected articles
+const COLLECTION_JOB_STATUS_COLUMNS = [
+  'id', 'user_id', 'source_id', 'status', 'attempts', 'result', 'error', 'locked_until',
+  'started_at', 'finished_at', 'created_at', 'updated_at'
+].join(',')
+
 export class DatabaseService {
-  public supabase = createSupabaseClient()
+  public supabase: SupabaseClient
+
+  // Server-side jobs pass a service-role client; the UI uses the signed-in user's client
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || createSupabaseClient()
+  }
 
   // Sources CRUD operations
   async getSources(): Promise<Source[]> {
@@ -208,161 +476,1107 @@ export class DatabaseService {
     }
   }
 
-  // Articles CRUD operations
-  async getArticles(limit?: number, sourceId?: number): Promise<ArticleWithSource[]> {
-    let query = this.supabase
-      .from('articles_with_sources')
-      .select('*')
-      .order('published_at', { ascending: false, nullsFirst: false })
-      .order('created_at', { ascending: false })
+  async getSourceArticleCounts(): Promise<SourceArticleCounts[]> {
+    const { data, error } = await this.supabase.rpc('get_source_article_counts')
 
-    if (sourceId) {
-      query = query.eq('source_id', sourceId)
+    if (error) {
+      console.error('Error fetching source article counts:', error)
+      throw new Error('Failed to fetch source article counts')
     }
 
-    if (limit) {
-      query = query.limit(limit)
-    }
+    return data || []
+  }
 
-    const { data, error } = await query
+  async moveSourceToFolder(sourceId: number, folderId: number | null): Promise<Source> {
+    return this.updateSource(sourceId, { folder_id: folderId })
+  }
+
+  async setSourceTags(sourceId: number, tags: string[]): Promise<Source> {
+    // Normalize so "AI", " ai " and "ai" are the same tag
+    const normalized = Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)))
+    return this.updateSource(sourceId, { tags: normalized })
+  }
+
+  // Folders CRUD operations
+  async getFolders(): Promise<Folder[]> {
+    const { data, error } = await this.supabase
+      .from('folders')
+      .select('*')
+      .order('position', { ascending: true })
+      .order('name', { ascending: true })
 
     if (error) {
-      console.error('Error fetching articles:', error)
-      throw new Error('Failed to fetch articles')
+      console.error('Error fetching folders:', error)
+      throw new Error('Failed to fetch folders')
     }
 
     return data || []
   }
 
-  async addArticle(article: Omit<Article, 'id' | 'user_id' | 'created_at' | 'updated_at'>): Promise<Article> {
+  async addFolder(name: string, parentId: number | null = null): Promise<Folder> {
     const { data: { user } } = await this.supabase.auth.getUser()
-    if (!user) throw new Error('User not authenticated')
+    if (!user) {
+      throw new Error('User not authenticated')
+    }
+
+    // Append after existing siblings
+    let siblingsQuery = this.supabase.from('folders').select('id', { count: 'exact', head: true })
+    siblingsQuery = parentId === null ? siblingsQuery.is('parent_id', null) : siblingsQuery.eq('parent_id', parentId)
+    const { count } = await siblingsQuery
 
     const { data, error } = await this.supabase
-      .from('articles')
-      .insert({
-        ...article,
-        user_id: user.id
-      })
+      .from('folders')
+      .insert({ name: name.trim(), parent_id: parentId, position: count || 0, user_id: user.id })
       .select()
       .single()
 
     if (error) {
-      console.error('Error adding article:', error)
-      throw new Error('Failed to add article')
+      console.error('Error adding folder:', error)
+      throw new Error('Failed to add folder')
     }
 
     return data
   }
 
-  async addArticles(articles: Omit<Article, 'id' | 'user_id' | 'created_at' | 'updated_at'>[]): Promise<Article[]> {
-    const { data: { user } } = await this.supabase.auth.getUser()
-    if (!user) throw new Error('User not authenticated')
+  async updateFolder(id: number, updates: Partial<Pick<Folder, 'name' | 'parent_id' | 'position'>>): Promise<Folder> {
+    const { data, error } = await this.supabase
+      .from('folders')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
 
-    const articlesWithUserId = articles.map(article => ({
-      ...article,
-      user_id: user.id
-    }))
+    if (error) {
+      console.error('Error updating folder:', error)
+      throw new Error('Failed to update folder')
+    }
+
+    return data
+  }
 
+  // Subfolders are deleted with their parent; sources inside become unfiled
+  async deleteFolder(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('folders')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting folder:', error)
+      throw new Error('Failed to delete folder')
+    }
+  }
 
+  // Persist a new sibling order (ids in display order)
+  async reorderFolders(orderedIds: number[]): Promise<void> {
+    await Promise.all(orderedIds.map((id, position) => this.updateFolder(id, { position })))
+  }
 
+  // Smart feeds (saved searches) CRUD operations
+  async getSmartFeeds(): Promise<SmartFeed[]> {
     const { data, error } = await this.supabase
-      .from('articles')
-      .upsert(articlesWithUserId, { 
-        onConflict: 'source_id,url',
-        ignoreDuplicates: true 
-      })
-      .select()
+      .from('smart_feeds')
+      .select('*')
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true })
 
     if (error) {
-      console.error('Error adding articles:', error)
-      throw new Error('Failed to add articles')
+      console.error('Error fetching smart feeds:', error)
+      throw new Error('Failed to fetch smart feeds')
     }
 
+    return data || []
+  }
 
+  async addSmartFeed(name: string, rules: SmartFeedRules): Promise<SmartFeed> {
+    const { data: { user } } = await this.supabase.auth.getUser()
+    if (!user) {
+      throw new Error('User not authenticated')
+    }
 
-    return data || []
+    const { count } = await this.supabase
+      .from('smart_feeds')
+      .select('id', { count: 'exact', head: true })
+
+    const { data, error } = await this.supabase
+      .from('smart_feeds')
+      .insert({ name: name.trim(), rules, position: count || 0, user_id: user.id })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error adding smart feed:', error)
+      throw new Error('Failed to add smart feed')
+    }
+
+    return data
   }
 
-  async updateArticle(id: number, updates: Partial<Article>): Promise<Article> {
+  async updateSmartFeed(id: number, updates: Partial<Pick<SmartFeed, 'name' | 'rules' | 'position'>>): Promise<SmartFeed> {
     const { data, error } = await this.supabase
-      .from('articles')
+      .from('smart_feeds')
       .update(updates)
       .eq('id', id)
       .select()
       .single()
 
     if (error) {
-      console.error('Error updating article:', error)
-      throw new Error('Failed to update article')
+      console.error('Error updating smart feed:', error)
+      throw new Error('Failed to update smart feed')
     }
 
     return data
   }
 
-  async updateArticleContent(id: number, content: string): Promise<void> {
+  async deleteSmartFeed(id: number): Promise<void> {
     const { error } = await this.supabase
-      .from('articles')
-      .update({ 
-        content: content,
-        updated_at: new Date().toISOString()
-      })
+      .from('smart_feeds')
+      .delete()
       .eq('id', id)
 
     if (error) {
-      console.error('Error updating article content:', error)
-      throw new Error('Failed to update article content')
+      console.error('Error deleting smart feed:', error)
+      throw new Error('Failed to delete smart feed')
     }
   }
 
-  async markAsRead(id: number): Promise<void> {
-    await this.updateArticle(id, { is_read: true })
+  /**
+   * Translate smart feed rules into listing filters (resolves folders to their source ids)
+   */
+  async getSmartFeedFilters(rules: SmartFeedRules): Promise<ArticleListFilters> {
+    if (!rules.folderId) {
+      return this.smartFeedRulesToFilters(rules, [], [])
+    }
+
+    const [folders, sources] = await Promise.all([this.getFolders(), this.getSources()])
+    return this.smartFeedRulesToFilters(rules, folders, sources)
   }
 
-  async toggleBookmark(id: number, isBookmarked: boolean): Promise<void> {
-    await this.updateArticle(id, { is_bookmarked: isBookmarked })
+  async getSmartFeedArticles(
+    rules: SmartFeedRules,
+    cursor: ArticleCursor | null = null,
+    pageSize: number = 24
+  ): Promise<ArticlePage> {
+    return this.getArticlesPage(await this.getSmartFeedFilters(rules), cursor, pageSize)
   }
 
-  async getBookmarkedArticles(): Promise<ArticleWithSource[]> {
-    const { data, error } = await this.supabase
-      .from('articles_with_sources')
+  // Unread counts keyed by smart feed id
+  async getSmartFeedUnreadCounts(feeds: SmartFeed[]): Promise<Record<number, number>> {
+    const needsFolders = feeds.some(feed => feed.rules.folderId)
+    const [folders, sources] = needsFolders
+      ? await Promise.all([this.getFolders(), this.getSources()])
+      : [[], []]
+
+    const counts = await Promise.all(feeds.map(async (feed) => {
+      // A feed restricted to read articles never has unread ones
+      if (feed.rules.readState === 'read') return [feed.id, 0] as const
+
+      const filters = this.smartFeedRulesToFilters(feed.rules, folders, sources)
+      return [feed.id, await this.countArticles({ ...filters, isRead: false })] as const
+    }))
+
+    return Object.fromEntries(counts)
+  }
+
+  private smartFeedRulesToFilters(rules: SmartFeedRules, folders: Folder[], sources: Source[]): ArticleListFilters {
+    const filters: ArticleListFilters = {}
+
+    if (rules.keywords?.trim()) filters.keywords = rules.keywords.trim()
+    if (rules.author?.trim()) filters.author = rules.author.trim()
+    if (rules.categories?.length) filters.categories = rules.categories
+    if (rules.themes?.length) filters.themes = rules.themes
+    if (rules.folderId) filters.sourceIds = FolderTree.getSourceIds(rules.folderId, folders, sources)
+    if (rules.publishedWithinDays) {
+      filters.from = new Date(Date.now() - rules.publishedWithinDays * 24 * 60 * 60 * 1000).toISOString()
+    }
+    if (rules.readState === 'unread') filters.isRead = false
+    if (rules.readState === 'read') filters.isRead = true
+    if (rules.readState === 'bookmarked') filters.isBookmarked = true
+
+    return filters
+  }
+
+  // Article rules CRUD operations
+  async getArticleRules(userId?: string): Promise<ArticleRule[]> {
+    let query = this.supabase
+      .from('article_rules')
       .select('*')
-      .eq('is_bookmarked', true)
-      .order('updated_at', { ascending: false })
+      .order('position', { ascending: true })
+      .order('id', { ascending: true })
+
+    // Service-role clients see every user's rules, so scope them explicitly
+    if (userId) {
+      query = query.eq('user_id', userId)
+    }
+
+    const { data, error } = await query
 
     if (error) {
-      console.error('Error fetching bookmarked articles:', error)
-      throw new Error('Failed to fetch bookmarked articles')
+      console.error('Error fetching article rules:', error)
+      throw new Error('Failed to fetch article rules')
     }
 
     return data || []
   }
 
-  async getUnreadArticles(): Promise<ArticleWithSource[]> {
+  async addArticleRule(
+    rule: Pick<ArticleRule, 'name' | 'source_id' | 'conditions' | 'action' | 'action_value'>
+  ): Promise<ArticleRule> {
+    const { data: { user } } = await this.supabase.auth.getUser()
+    if (!user) {
+      throw new Error('User not authenticated')
+    }
+
+    const { count } = await this.supabase
+      .from('article_rules')
+      .select('id', { count: 'exact', head: true })
+
     const { data, error } = await this.supabase
-      .from('articles_with_sources')
-      .select('*')
-      .eq('is_read', false)
-      .order('published_at', { ascending: false, nullsFirst: false })
-      .order('created_at', { ascending: false })
+      .from('article_rules')
+      .insert({ ...rule, position: count || 0, user_id: user.id })
+      .select()
+      .single()
 
     if (error) {
-      console.error('Error fetching unread articles:', error)
-      throw new Error('Failed to fetch unread articles')
+      console.error('Error adding article rule:', error)
+      throw new Error('Failed to add article rule')
     }
 
-    return data || []
+    return data
   }
 
-  // Utility functions
-  async refreshSourceArticles(sourceId: number): Promise<void> {
-    // This function would fetch new articles from the RSS feed
-    // and add them to the database
-    const source = await this.getSourceById(sourceId)
-    if (!source) return
+  async updateArticleRule(
+    id: number,
+    updates: Partial<Pick<ArticleRule, 'name' | 'source_id' | 'conditions' | 'action' | 'action_value' | 'is_enabled' | 'position'>>
+  ): Promise<ArticleRule> {
+    const { data, error } = await this.supabase
+      .from('article_rules')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
 
-    // Implementation would use RSSParser to fetch and parse articles
-    // then call addArticles to store them
+    if (error) {
+      console.error('Error updating article rule:', error)
+      throw new Error('Failed to update article rule')
+    }
+
+    return data
+  }
+
+  async deleteArticleRule(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('article_rules')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting article rule:', error)
+      throw new Error('Failed to delete article rule')
+    }
+  }
+
+  // Extraction recipes CRUD operations
+  async getExtractionRecipes(): Promise<ExtractionRecipe[]> {
+    const { data, error } = await this.supabase
+      .from('extraction_recipes')
+      .select('*')
+      .order('domain', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching extraction recipes:', error)
+      throw new Error('Failed to fetch extraction recipes')
+    }
+
+    return data || []
+  }
+
+  async addExtractionRecipe(recipe: Pick<ExtractionRecipe, 'name' | 'domain' | 'selectors'>): Promise<ExtractionRecipe> {
+    const { data: { user } } = await this.supabase.auth.getUser()
+    if (!user) {
+      throw new Error('User not authenticated')
+    }
+
+    const { data, error } = await this.supabase
+      .from('extraction_recipes')
+      .insert({ ...recipe, user_id: user.id })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error adding extraction recipe:', error)
+      throw new Error('Failed to add extraction recipe')
+    }
+
+    return data
+  }
+
+  async updateExtractionRecipe(
+    id: number,
+    updates: Partial<Pick<ExtractionRecipe, 'name' | 'domain' | 'selectors' | 'is_enabled'>>
+  ): Promise<ExtractionRecipe> {
+    const { data, error } = await this.supabase
+      .from('extraction_recipes')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating extraction recipe:', error)
+      throw new Error('Failed to update extraction recipe')
+    }
+
+    return data
+  }
+
+  async deleteExtractionRecipe(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('extraction_recipes')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting extraction recipe:', error)
+      throw new Error('Failed to delete extraction recipe')
+    }
+  }
+
+  // Collection agent settings (one row per user)
+  async getAgentSettings(userId?: string): Promise<AgentSettings | null> {
+    let query = this.supabase
+      .from('agent_settings')
+      .select('*')
+
+    // Service-role clients see every user's settings, so scope them explicitly
+    if (userId) {
+      query = query.eq('user_id', userId)
+    }
+
+    const { data, error } = await query.maybeSingle()
+
+    if (error) {
+      console.error('Error fetching agent settings:', error)
+      throw new Error('Failed to fetch agent settings')
+    }
+
+    return data
+  }
+
+  async saveAgentSettings(settings: Required<AgentRegistryConfig>): Promise<AgentSettings> {
+    const { data: { user } } = await this.supabase.auth.getUser()
+    if (!user) {
+      throw new Error('User not authenticated')
+    }
+
+    const { data, error } = await this.supabase
+      .from('agent_settings')
+      .upsert({ ...settings, user_id: user.id }, { onConflict: 'user_id' })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving agent settings:', error)
+      throw new Error('Failed to save agent settings')
+    }
+
+    return data
+  }
+
+  // Collection jobs - queued here, run server-side by CollectionJobWorker
+  /**
+   * Queue a historical collection for a source, or return the one already queued or running
+   */
+  async addCollectionJob(sourceId: number): Promise<CollectionJob> {
+    const { data: { user } } = await this.supabase.auth.getUser()
+    if (!user) {
+      throw new Error('User not authenticated')
+    }
+
+    const { data: active, error: activeError } = await this.supabase
+      .from('collection_jobs')
+      .select('*')
+      .eq('source_id', sourceId)
+      .in('status', ['queued', 'running'])
+      .limit(1)
+      .maybeSingle()
+
+    if (activeError) {
+      console.error('Error checking for active collection job:', activeError)
+      throw new Error('Failed to queue collection job')
+    }
+    if (active) return active
+
+    const { data, error } = await this.supabase
+      .from('collection_jobs')
+      .insert({ source_id: sourceId, user_id: user.id, status: 'queued' })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error adding collection job:', error)
+      throw new Error('Failed to queue collection job')
+    }
+
+    return data
+  }
+
+  async getCollectionJob(id: number): Promise<CollectionJob | null> {
+    const { data, error } = await this.supabase
+      .from('collection_jobs')
+      .select(COLLECTION_JOB_STATUS_COLUMNS)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching collection job:', error)
+      throw new Error('Failed to fetch collection job')
+    }
+
+    return data ? { ...(data as unknown as Omit<CollectionJob, 'checkpoint'>), checkpoint: {} } : null
+  }
+
+  /**
+   * A job's progress events after the given event id, oldest first
+   */
+  async getCollectionJobEvents(jobId: number, afterId: number = 0, limit: number = 500): Promise<CollectionJobEventRecord[]> {
+    const { data, error } = await this.supabase
+      .from('collection_job_events')
+      .select('*')
+      .eq('job_id', jobId)
+      .gt('id', afterId)
+      .order('id', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching collection job events:', error)
+      throw new Error('Failed to fetch collection job events')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Queued and running jobs, so the Connect page can resume tracking them after a reload
+   */
+  async getActiveCollectionJobs(): Promise<CollectionJob[]> {
+    const { data, error } = await this.supabase
+      .from('collection_jobs')
+      .select(COLLECTION_JOB_STATUS_COLUMNS)
+      .in('status', ['queued', 'running'])
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching active collection jobs:', error)
+      throw new Error('Failed to fetch collection jobs')
+    }
+
+    return ((data || []) as unknown as Omit<CollectionJob, 'checkpoint'>[]).map(job => ({ ...job, checkpoint: {} }))
+  }
+
+  /**
+   * Preview which recent stored articles a rule would match, without changing anything
+   */
+  async dryRunArticleRule(
+    rule: Pick<ArticleRule, 'source_id' | 'conditions'>,
+    sampleSize: number = 500
+  ): Promise<ArticleRuleDryRun> {
+    let query = this.supabase
+      .from('articles_summary')
+      .select('id, source_id, title, description, url, author, categories, published_at, source_name')
+      .order('published_at', { ascending: false, nullsFirst: false })
+      .limit(sampleSize)
+
+    if (rule.source_id) {
+      query = query.eq('source_id', rule.source_id)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error loading articles for rule preview:', error)
+      throw new Error('Failed to preview article rule')
+    }
+
+    const articles: ArticleRulePreviewArticle[] = data || []
+    return {
+      scanned: articles.length,
+      matches: articles.filter(article => ArticleRulesEngine.matches(rule, article))
+    }
+  }
+
+  // Articles CRUD operations
+  async getArticles(limit?: number, sourceId?: number): Promise<ArticleWithSource[]> {
+    let query = this.supabase
+      .from('articles_with_sources')
+      .select('*')
+      .order('published_at', { ascending: false, nullsFirst: false })
+      .order('created_at', { ascending: false })
+
+    if (sourceId) {
+      query = query.eq('source_id', sourceId)
+    }
+
+    if (limit) {
+      query = query.limit(limit)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching articles:', error)
+      throw new Error('Failed to fetch articles')
+    }
+
+    return data || []
+  }
+
+  /**
+   * Cursor-paginated listing ordered by (published_at DESC NULLS LAST, id DESC).
+   * Undated articles come last, so the cursor walks dated rows first and then the NULL tail.
+   */
+  async getArticlesPage(
+    filters: ArticleListFilters = {},
+    cursor: ArticleCursor | null = null,
+    pageSize: number = 24
+  ): Promise<ArticlePage> {
+    let query = this.applyArticleFilters(
+      this.supabase.from('articles_summary').select(ARTICLE_SUMMARY_COLUMNS),
+      filters
+    )
+      .order('published_at', { ascending: false, nullsFirst: false })
+      .order('id', { ascending: false })
+
+    if (cursor) {
+      query = cursor.published_at
+        ? query.or(
+            `published_at.lt."${cursor.published_at}",` +
+            `and(published_at.eq."${cursor.published_at}",id.lt.${cursor.id}),` +
+            'published_at.is.null'
+          )
+        : query.is('published_at', null).lt('id', cursor.id)
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const { data, error } = await query.limit(pageSize + 1)
+
+    if (error) {
+      console.error('Error fetching articles page:', error)
+      throw new Error('Failed to fetch articles')
+    }
+
+    const rows = (data || []) as ArticleSummary[]
+    const articles = rows.slice(0, pageSize)
+    const last = articles[articles.length - 1]
+
+    return {
+      articles,
+      nextCursor: rows.length > pageSize && last
+        ? { published_at: last.published_at || null, id: last.id }
+        : null
+    }
+  }
+
+  async countArticles(filters: ArticleListFilters = {}): Promise<number> {
+    const { count, error } = await this.applyArticleFilters(
+      this.supabase.from('articles').select('id', { count: 'exact', head: true }),
+      filters
+    )
+
+    if (error) {
+      console.error('Error counting articles:', error)
+      throw new Error('Failed to count articles')
+    }
+
+    return count || 0
+  }
+
+  async getArticleById(id: number): Promise<ArticleWithSource | null> {
+    const { data, error } = await this.supabase
+      .from('articles_with_sources')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching article:', error)
+      throw new Error('Failed to fetch article')
+    }
+
+    return data
+  }
+
+  // Distinct article bylines (for author filters)
+  async getArticleAuthors(): Promise<string[]> {
+    const { data, error } = await this.supabase.rpc('get_article_authors')
+
+    if (error) {
+      console.error('Error fetching article authors:', error)
+      throw new Error('Failed to fetch article authors')
+    }
+
+    return (data || []).map((row: { author: string }) => row.author)
+  }
+
+  // Full-text search (ranked, with highlighted snippets) via the search_articles function
+  async searchArticles(query: string, filters: ArticleSearchFilters = {}): Promise<ArticleSearchResult[]> {
+    const { data, error } = await this.supabase.rpc('search_articles', {
+      search_query: query,
+      filter_source_ids: filters.sourceIds || (filters.sourceId !== undefined ? [filters.sourceId] : null),
+      filter_author: filters.author || null,
+      filter_from: filters.from || null,
+      filter_to: filters.to || null,
+      result_limit: filters.limit || 50,
+      result_offset: filters.offset || 0
+    })
+
+    if (error) {
+      console.error('Error searching articles:', error)
+      throw new Error('Failed to search articles')
+    }
+
+    return data || []
+  }
+
+  async addArticle(article: Omit<Article, 'id' | 'user_id' | 'created_at' | 'updated_at'>): Promise<Article> {
+    const { data: { user } } = await this.supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await this.supabase
+      .from('articles')
+      .insert({
+        ...article,
+        user_id: user.id
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error adding article:', error)
+      throw new Error('Failed to add article')
+    }
+
+    return data
+  }
+
+  async addArticles(
+    articles: Omit<Article, 'id' | 'user_id' | 'created_at' | 'updated_at'>[],
+    userId?: string // Required when running without an auth session (service-role client)
+  ): Promise<Article[]> {
+    if (!userId) {
+      const { data: { user } } = await this.supabase.auth.getUser()
+      if (!user) throw new Error('User not authenticated')
+      userId = user.id
+    }
+
+    // Mute / auto-read / auto-bookmark / tag rules run before every insert
+    const rules = await this.getArticleRules(userId)
+    const { articles: filteredArticles } = ArticleRulesEngine.apply(rules, articles)
+    if (filteredArticles.length === 0) {
+      return []
+    }
+
+    const newArticles = await this.mergeUrlVariants(filteredArticles)
+    if (newArticles.length === 0) {
+      return []
+    }
+
+    // Canonical URL and text fingerprint let copies from other sources be clustered
+    const articlesWithUserId = newArticles.map(article => {
+      const fingerprint = ArticleFingerprint.compute(article.content || article.description || '')
+      return {
+        ...article,
+        content_fingerprint: fingerprint,
+        fingerprint_bands: fingerprint ? ArticleFingerprint.getBands(fingerprint) : null,
+        user_id: userId
+      }
+    })
+
+    const { data, error } = await this.supabase
+      .from('articles')
+      .upsert(articlesWithUserId, { 
+        onConflict: 'source_id,url',
+        ignoreDuplicates: true 
+      })
+      .select()
+
+    if (error) {
+      console.error('Error adding articles:', error)
+      throw new Error('Failed to add articles')
+    }
+
+    const stored: Article[] = data || []
+    if (stored.length > 0) {
+      // Dedupe is best effort - never lose an insert over it
+      try {
+        await this.linkDuplicateArticles(stored, userId)
+      } catch (error) {
+        console.error('Error linking duplicate articles:', error)
+      }
+    }
+
+    return stored
+  }
+
+  /**
+   * Collapse URL variants of the same article within the batch, then drop any a source
+   * already stored under another variant (UNIQUE(source_id, url) only catches exact matches)
+   */
+  private async mergeUrlVariants<T extends Omit<Article, 'id' | 'user_id' | 'created_at' | 'updated_at'>>(
+    articles: T[]
+  ): Promise<T[]> {
+    const byKey = new Map<string, T>()
+    for (const article of articles) {
+      const canonicalUrl = article.canonical_url || CanonicalUrl.normalize(article.url)
+      const key = `${article.source_id}|${canonicalUrl}`
+      const existing = byKey.get(key)
+      byKey.set(key, existing
+        ? ArticleMerge.mergeRecords(existing, article)
+        : { ...article, canonical_url: canonicalUrl })
+    }
+
+    const merged = Array.from(byKey.values())
+    const sourceIds = Array.from(new Set(merged.map(article => article.source_id)))
+    const canonicalUrls = merged.map(article => article.canonical_url as string)
+    const stored = new Set<string>()
+
+    for (let i = 0; i < canonicalUrls.length; i += DUPLICATE_LOOKUP_CHUNK) {
+      const { data, error } = await this.supabase
+        .from('articles')
+        .select('source_id, canonical_url')
+        .in('source_id', sourceIds)
+        .in('canonical_url', canonicalUrls.slice(i, i + DUPLICATE_LOOKUP_CHUNK))
+
+      if (error) {
+        console.error('Error checking stored URL variants:', error)
+        throw new Error('Failed to add articles')
+      }
+
+      for (const row of data || []) {
+        if (row.canonical_url) stored.add(`${row.source_id}|${row.canonical_url}`)
+      }
+    }
+
+    return merged.filter(article => !stored.has(`${article.source_id}|${article.canonical_url}`))
+  }
+
+  /**
+   * Other copies of the given (primary) articles, keyed by primary id
+   */
+  async getArticleDuplicates(articleIds: number[]): Promise<Record<number, ArticleDuplicate[]>> {
+    if (articleIds.length === 0) return {}
+
+    const { data, error } = await this.supabase
+      .from('articles_summary')
+      .select('id, source_id, source_name, url, duplicate_of')
+      .in('duplicate_of', articleIds)
+
+    if (error) {
+      console.error('Error fetching article duplicates:', error)
+      throw new Error('Failed to fetch article duplicates')
+    }
+
+    const duplicates: Record<number, ArticleDuplicate[]> = {}
+    for (const duplicate of (data || []) as ArticleDuplicate[]) {
+      duplicates[duplicate.duplicate_of] = [...(duplicates[duplicate.duplicate_of] || []), duplicate]
+    }
+    return duplicates
+  }
+
+  /**
+   * Record the rel=canonical URL found on an article's page and re-check it for duplicates
+   */
+  async setArticleCanonicalUrl(id: number, canonicalUrl: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('articles')
+      .update({ canonical_url: CanonicalUrl.normalize(canonicalUrl) })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating canonical URL:', error)
+      throw new Error('Failed to update canonical URL')
+    }
+
+    const article: Article = data
+    if (article.duplicate_of) return
+
+    const roots = await this.linkDuplicateArticles([article], article.user_id)
+    const root = roots.get(article.id)
+    if (root) {
+      // Anything clustered under this article now belongs to the new primary
+      const { error: reparentError } = await this.supabase
+        .from('articles')
+        .update({ duplicate_of: root })
+        .eq('duplicate_of', article.id)
+
+      if (reparentError) {
+        console.error('Error moving article duplicates:', reparentError)
+        throw new Error('Failed to update canonical URL')
+      }
+    }
+  }
+
+  /**
+   * Point each article at the earliest stored copy with the same canonical URL or a near-identical
+   * fingerprint. Returns the primary chosen for every article that turned out to be a duplicate.
+   */
+  private async linkDuplicateArticles(articles: Article[], userId: string): Promise<Map<number, number>> {
+    const candidates = new Map<number, DuplicateCandidate>()
+    const addCandidates = (rows: DuplicateCandidate[] | null) => {
+      for (const row of rows || []) candidates.set(row.id, row)
+    }
+
+    const canonicalUrls = Array.from(new Set(articles.map(article => article.canonical_url).filter((url): url is string => !!url)))
+    for (let i = 0; i < canonicalUrls.length; i += DUPLICATE_LOOKUP_CHUNK) {
+      const { data, error } = await this.supabase
+        .from('articles')
+        .select('id, canonical_url, content_fingerprint, duplicate_of')
+        .eq('user_id', userId)
+        .in('canonical_url', canonicalUrls.slice(i, i + DUPLICATE_LOOKUP_CHUNK))
+
+      if (error) throw error
+      addCandidates(data)
+    }
+
+    // One lookup per article, oldest first, so a busy band can't crowd out the earliest copies
+    for (const article of articles) {
+      if (!article.fingerprint_bands?.length) continue
+
+      const { data, error } = await this.supabase
+        .from('articles')
+        .select('id, canonical_url, content_fingerprint, duplicate_of')
+        .eq('user_id', userId)
+        .neq('id', article.id)
+        .overlaps('fingerprint_bands', article.fingerprint_bands)
+        .order('id', { ascending: true })
+        .limit(DUPLICATE_CANDIDATE_LIMIT)
+
+      if (error) throw error
+      addCandidates(data)
+    }
+
+    const pending = new Set(articles.map(article => article.id))
+    const roots = new Map<number, number>()
+    const getRoot = (candidate: DuplicateCandidate) => candidate.duplicate_of || roots.get(candidate.id) || candidate.id
+    const ordered = Array.from(candidates.values()).sort((a, b) => a.id - b.id)
+
+    for (const article of [...articles].sort((a, b) => a.id - b.id)) {
+      const match = ordered.find(candidate => {
+        if (candidate.id === article.id || getRoot(candidate) === article.id) return false
+        // Within this batch the earlier article stays primary
+        if (pending.has(candidate.id) && candidate.id > article.id) return false
+        if (article.canonical_url && candidate.canonical_url === article.canonical_url) return true
+        return !!article.content_fingerprint && !!candidate.content_fingerprint &&
+          ArticleFingerprint.isNearDuplicate(article.content_fingerprint, candidate.content_fingerprint)
+      })
+
+      if (match) {
+        roots.set(article.id, getRoot(match))
+      }
+    }
+
+    const idsByRoot = new Map<number, number[]>()
+    for (const [articleId, root] of roots) {
+      idsByRoot.set(root, [...(idsByRoot.get(root) || []), articleId])
+    }
+
+    for (const [root, ids] of idsByRoot) {
+      const { error } = await this.supabase
+        .from('articles')
+        .update({ duplicate_of: root })
+        .in('id', ids)
+
+      if (error) throw error
+    }
+
+    for (const article of articles) {
+      if (roots.has(article.id)) article.duplicate_of = roots.get(article.id)
+    }
+
+    if (roots.size > 0) {
+      console.log(`🔗 Linked ${roots.size} duplicate articles to ${idsByRoot.size} existing copies`)
+    }
+
+    return roots
+  }
+
+  /**
+   * The source's stored articles among the given URLs, with the fields merging needs
+   */
+  async getSourceArticleIndex(
+    sourceId: number,
+    urls: string[]
+  ): Promise<Pick<Article, 'id' | 'url' | 'description' | 'content_length' | 'published_at_confidence'>[]> {
+    const index: Pick<Article, 'id' | 'url' | 'description' | 'content_length' | 'published_at_confidence'>[] = []
+    const uniqueUrls = Array.from(new Set(urls))
+
+    for (let i = 0; i < uniqueUrls.length; i += URL_LOOKUP_CHUNK) {
+      const { data, error } = await this.supabase
+        .from('articles')
+        .select('id, url, description, content_length, published_at_confidence')
+        .eq('source_id', sourceId)
+        .in('url', uniqueUrls.slice(i, i + URL_LOOKUP_CHUNK))
+
+      if (error) {
+        console.error('Error fetching source article index:', error)
+        throw new Error('Failed to fetch existing articles')
+      }
+
+      index.push(...(data || []))
+    }
+
+    return index
+  }
+
+  /**
+   * A source's stored article URLs and newest trusted publish date, for incremental collection
+   */
+  async getKnownArticles(sourceId: number): Promise<KnownArticles> {
+    // Newest-first listings reach the newest stored articles first, so those are the URLs worth matching
+    const { data, error } = await this.supabase
+      .from('articles')
+      .select('url')
+      .eq('source_id', sourceId)
+      .order('published_at', { ascending: false, nullsFirst: false })
+      .order('id', { ascending: false })
+      .limit(KNOWN_ARTICLE_LIMIT)
+
+    // Low-confidence dates (e.g. sitemap lastmod) can run ahead of publication and end collection early
+    const { data: latest, error: latestError } = await this.supabase
+      .from('articles')
+      .select('published_at')
+      .eq('source_id', sourceId)
+      .not('published_at', 'is', null)
+      .or('published_at_confidence.is.null,published_at_confidence.neq.low')
+      .order('published_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error || latestError) {
+      console.error('Error fetching known articles:', error || latestError)
+      throw new Error('Failed to fetch known articles')
+    }
+
+    return {
+      urls: new Set((data || []).map(row => CanonicalUrl.normalize(row.url))),
+      latestPublishedAt: latest?.published_at || undefined
+    }
+  }
+
+  async updateArticle(id: number, updates: Partial<Article>): Promise<Article> {
+    const { data, error } = await this.supabase
+      .from('articles')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating article:', error)
+      throw new Error('Failed to update article')
+    }
+
+    return data
+  }
+
+  async updateArticleContent(id: number, content: string): Promise<void> {
+    const fingerprint = ArticleFingerprint.compute(content)
+    const { error } = await this.supabase
+      .from('articles')
+      .update({ 
+        content: content,
+        content_fingerprint: fingerprint,
+        fingerprint_bands: fingerprint ? ArticleFingerprint.getBands(fingerprint) : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error updating article content:', error)
+      throw new Error('Failed to update article content')
+    }
+  }
+
+  async markAsRead(id: number): Promise<void> {
+    await this.updateArticle(id, { is_read: true })
+
+    // Reading one copy reads every duplicate of it
+    const { error } = await this.supabase
+      .from('articles')
+      .update({ is_read: true })
+      .eq('duplicate_of', id)
+
+    if (error) {
+      console.error('Error marking duplicates as read:', error)
+    }
+  }
+
+  async toggleBookmark(id: number, isBookmarked: boolean): Promise<void> {
+    await this.updateArticle(id, { is_bookmarked: isBookmarked })
+  }
+
+  async getBookmarkedArticles(): Promise<ArticleWithSource[]> {
+    const { data, error } = await this.supabase
+      .from('articles_with_sources')
+      .select('*')
+      .eq('is_bookmarked', true)
+      .order('updated_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching bookmarked articles:', error)
+      throw new Error('Failed to fetch bookmarked articles')
+    }
+
+    return data || []
+  }
+
+  async getUnreadArticles(): Promise<ArticleWithSource[]> {
+    const { data, error } = await this.supabase
+      .from('articles_with_sources')
+      .select('*')
+      .eq('is_read', false)
+      .order('published_at', { ascending: false, nullsFirst: false })
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching unread articles:', error)
+      throw new Error('Failed to fetch unread articles')
+    }
+
+    return data || []
+  }
+
+  // Utility functions
+  async refreshSourceArticles(sourceId: number): Promise<void> {
+    // This function would fetch new articles from the RSS feed
+    // and add them to the database
+    const source = await this.getSourceById(sourceId)
+    if (!source) return
+
+    // Implementation would use RSSParser to fetch and parse articles
+    // then call addArticles to store them
+  }
+
+  // Filters shared by getArticlesPage and countArticles
+  private applyArticleFilters(query: ArticleFilterQuery, filters: ArticleListFilters): ArticleFilterQuery {
+    let filtered = query
+    if (filters.sourceId !== undefined) filtered = filtered.eq('source_id', filters.sourceId)
+    if (filters.sourceIds) filtered = filtered.in('source_id', filters.sourceIds)
+    // Unscoped listings show one card per article; a source's own view still lists its copy
+    if (filters.sourceId === undefined && !filters.sourceIds) filtered = filtered.is('duplicate_of', null)
+    if (filters.author) filtered = filtered.eq('author', filters.author)
+    if (filters.isRead !== undefined) filtered = filtered.eq('is_read', filters.isRead)
+    if (filters.isBookmarked !== undefined) filtered = filtered.eq('is_bookmarked', filters.isBookmarked)
+    if (filters.from) filtered = filtered.gte('published_at', filters.from)
+    if (filters.to) filtered = filtered.lte('published_at', filters.to)
+    if (filters.categories?.length) filtered = filtered.overlaps('categories', filters.categories)
+    if (filters.themes?.length) filtered = filtered.overlaps('main_themes', filters.themes)
+    if (filters.keywords) {
+      filtered = filtered.textSearch('search_vector', filters.keywords, { type: 'websearch', config: 'english' })
+    }
+    return filtered
   }
 
   private async getSourceById(id: number): Promise<Source | null> {
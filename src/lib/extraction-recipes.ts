@@ -0,0 +1,173 @@
+import type { ExtractionRecipe, ExtractionRecipeSelectors } from './database'
+
+export interface SiteRecipe {
+  name: string
+  domains: string[] // Hostnames; "*.example.com" also matches example.com itself
+  detect?: string // Selector that identifies the platform on custom domains
+  selectors: ExtractionRecipeSelectors
+}
+
+// Recipes for the platforms the collection agents support. User recipes take precedence.
+export const BUILT_IN_RECIPES: SiteRecipe[] = [
+  {
+    name: 'Naval',
+    domains: ['nav.al'],
+    selectors: {
+      content: '.entry-content, article .content, article',
+      remove: ['.share', '.sharedaddy', '.post-navigation', '.tweet-this'],
+      title: 'h1.entry-title, article h1',
+      date: 'time, .entry-date',
+      author: '.author'
+    }
+  },
+  {
+    name: 'Aeon',
+    domains: ['aeon.co', 'psyche.co'],
+    selectors: {
+      content: '.article__body, [class*="ArticleBody"], article',
+      remove: ['[class*="Newsletter"]', '[class*="Related"]', '[class*="Share"]', '.article__end-note'],
+      title: 'h1',
+      date: 'time',
+      author: '.article__author-name, [class*="AuthorName"]'
+    }
+  },
+  {
+    name: 'Posthaven',
+    domains: ['*.posthaven.com', 'blog.samaltman.com'],
+    detect: '.posthaven-post-body',
+    selectors: {
+      content: '.posthaven-post-body',
+      remove: ['.posthaven-comments', '.posthaven-upvote', '.posthaven-post-tags'],
+      title: 'article.post header h2, article.post h1, article.post h2',
+      date: '.posthaven-formatted-date, time',
+      author: '.posthaven-byline, .author'
+    }
+  },
+  {
+    name: 'Substack',
+    domains: ['*.substack.com'],
+    detect: 'link[href*="substackcdn.com"], script[src*="substackcdn.com"]',
+    selectors: {
+      content: '.available-content .body.markup, .body.markup',
+      remove: [
+        '.subscription-widget-wrap', '.subscribe-widget', '.button-wrapper', '.captioned-button-wrap',
+        '.share-dialog', '.footnote-anchor-wrapper'
+      ],
+      title: 'h1.post-title',
+      date: '.post-date, time',
+      author: '.byline-names a, .profile-hover-card-target a'
+    }
+  },
+  {
+    name: 'Medium',
+    domains: ['medium.com', '*.medium.com'],
+    detect: 'meta[property="al:android:package"][content="com.medium.reader"]',
+    selectors: {
+      content: 'article section, article',
+      remove: ['[data-testid="headerClapButton"]', '[data-testid="audioPlayButton"]', '.speechify-ignore'],
+      title: 'h1[data-testid="storyTitle"], h1',
+      date: '[data-testid="storyPublishDate"]',
+      author: '[data-testid="authorName"]'
+    }
+  },
+  {
+    name: 'Ghost',
+    domains: ['*.ghost.io'],
+    detect: 'meta[name="generator"][content^="Ghost"]',
+    selectors: {
+      content: '.gh-content, .post-content, .article-content, .post-full-content',
+      remove: ['.gh-post-upgrade-cta', '.kg-signup-card', '.post-full-comments', '.gh-comments'],
+      title: '.article-title, .post-full-title, .gh-article-title',
+      date: 'time.byline-meta-date, time.post-full-meta-date, time',
+      author: '.author-name, .byline-meta-author a, .post-full-byline-meta h4 a'
+    }
+  },
+  {
+    name: 'WordPress',
+    domains: ['*.wordpress.com'],
+    detect: 'meta[name="generator"][content^="WordPress"], link[href*="/wp-content/"]',
+    selectors: {
+      content: '.entry-content, .post-content, .wp-block-post-content',
+      remove: ['.sharedaddy', '.jp-relatedposts', '.post-navigation', '.comments-area', '.entry-footer', '.wpcnt'],
+      title: 'h1.entry-title, .wp-block-post-title',
+      date: 'time.entry-date, .posted-on time, .wp-block-post-date time',
+      author: '.entry-meta .author a, .byline .author, .wp-block-post-author__name',
+      nextPage: '.page-links .current + a.post-page-numbers'
+    }
+  },
+  {
+    name: 'VCCircle',
+    domains: ['vccircle.com'],
+    selectors: {
+      content: '.article-content, .story-content, .content-area article',
+      remove: ['.related-stories', '.social-share', '.newsletter'],
+      title: 'h1',
+      date: 'time, .publish-date',
+      author: '.author-name, .author'
+    }
+  }
+]
+
+/**
+ * Per-site extraction recipes: declarative selectors that /api/extract-content tries before
+ * falling back to the generic heuristics
+ */
+export class ExtractionRecipes {
+  /**
+   * The recipe for a page: an enabled user recipe for the domain, then a built-in one by domain,
+   * then a built-in one whose platform marker the page contains
+   */
+  static find(url: string, document: Document, userRecipes: ExtractionRecipe[] = []): SiteRecipe | null {
+    let hostname: string
+    try {
+      hostname = new URL(url).hostname.toLowerCase().replace(/^www\./, '')
+    } catch {
+      return null
+    }
+
+    const userRecipe = userRecipes.find(recipe => recipe.is_enabled && this.matchesDomain(hostname, recipe.domain))
+    if (userRecipe) return this.fromUserRecipe(userRecipe)
+
+    const byDomain = BUILT_IN_RECIPES.find(recipe => recipe.domains.some(domain => this.matchesDomain(hostname, domain)))
+    if (byDomain) return byDomain
+
+    return BUILT_IN_RECIPES.find(recipe => {
+      if (!recipe.detect) return false
+      try {
+        return !!document.querySelector(recipe.detect)
+      } catch {
+        return false
+      }
+    }) || null
+  }
+
+  static matchesDomain(hostname: string, pattern: string): boolean {
+    const domain = pattern.trim().toLowerCase().replace(/^www\./, '')
+    if (domain.startsWith('*.')) {
+      const base = domain.slice(2)
+      return hostname === base || hostname.endsWith(`.${base}`)
+    }
+    return hostname === domain
+  }
+
+  /**
+   * Normalize what a user typed as the domain ("https://www.Example.com/blog" → "example.com")
+   */
+  static normalizeDomain(value: string): string {
+    const trimmed = value.trim().toLowerCase()
+    const wildcard = trimmed.startsWith('*.')
+    const host = (wildcard ? trimmed.slice(2) : trimmed)
+      .replace(/^[a-z]+:\/\//, '')
+      .split(/[/?#]/)[0]
+      .replace(/^www\./, '')
+    return wildcard ? `*.${host}` : host
+  }
+
+  static fromUserRecipe(recipe: ExtractionRecipe): SiteRecipe {
+    return {
+      name: recipe.name,
+      domains: [recipe.domain],
+      selectors: recipe.selectors
+    }
+  }
+}
@@ -0,0 +1,370 @@
+import { XMLParser } from 'fast-xml-parser'
+
+export interface RSSItem {
+  title: string
+  description: string
+  link: string
+  pubDate: string
+  author?: string
+  categories?: string[]
+  enclosure?: {
+    url: string
+    type: string
+  }
+  content?: string // Full HTML body (content:encoded, Atom <content>, JSON Feed content_html)
+  image?: string // Lead image (media:content, media:thumbnail, image enclosure, or first <img> in content)
+  guid?: string
+}
+
+export interface ParsedFeed {
+  title: string
+  description: string
+  link: string
+  items: RSSItem[]
+  feedUrl?: string // Add the actual feed URL that was discovered
+}
+
+// A parsed XML element: its text, or its children keyed by tag name plus "@_" attributes and "#text"
+type XmlValue = string | XmlNode | XmlValue[]
+interface XmlNode {
+  [name: string]: XmlValue | undefined
+}
+
+interface JSONFeedAuthor {
+  name?: string
+}
+
+interface JSONFeedItem {
+  id?: string | number
+  url?: string
+  external_url?: string
+  title?: string
+  summary?: string
+  content_html?: string
+  content_text?: string
+  image?: string
+  banner_image?: string
+  date_published?: string
+  date_modified?: string
+  author?: JSONFeedAuthor // JSON Feed 1.0
+  authors?: JSONFeedAuthor[] // JSON Feed 1.1
+  tags?: unknown[]
+  attachments?: { url?: string; mime_type?: string }[]
+}
+
+interface JSONFeed {
+  version: string
+  title?: string
+  description?: string
+  home_page_url?: string
+  author?: JSONFeedAuthor
+  authors?: JSONFeedAuthor[]
+  items?: JSONFeedItem[]
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…'
+}
+
+/**
+ * Isomorphic feed parser (RSS 2.0, RSS 1.0/RDF, Atom, JSON Feed) - safe to use in the
+ * browser, API routes, background jobs and agents
+ */
+export class FeedParser {
+  /**
+   * Parse raw feed content (XML or JSON Feed) into a ParsedFeed
+   */
+  static parse(content: string): ParsedFeed {
+    const trimmed = content.trim()
+
+    if (trimmed.startsWith('{')) {
+      const json = JSON.parse(trimmed)
+      if (!this.isJSONFeed(json)) {
+        throw new Error('JSON document is not a JSON Feed')
+      }
+      return this.parseJSONFeed(json)
+    }
+
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      textNodeName: '#text',
+      parseTagValue: false,
+      trimValues: true,
+      htmlEntities: true,
+      // Kept raw: type="xhtml" content is markup, which the parser would split into child elements
+      stopNodes: ['feed.entry.content', 'feed.entry.summary']
+    })
+
+    let xmlDoc: XmlNode
+    try {
+      xmlDoc = parser.parse(trimmed)
+    } catch {
+      throw new Error('Invalid XML format in RSS feed')
+    }
+
+    const feed = this.node(xmlDoc.feed)
+    if (feed) {
+      return this.parseAtom(feed)
+    }
+    const channel = this.node(this.node(xmlDoc.rss)?.channel)
+    if (channel) {
+      return this.parseRSS(channel, this.toNodes(channel.item))
+    }
+    const rdf = this.node(xmlDoc['rdf:RDF'])
+    if (rdf) {
+      // RSS 1.0 keeps <item> elements as siblings of <channel>
+      const rdfChannel = this.node(rdf.channel) || {}
+      return this.parseRSS(rdfChannel, this.toNodes(rdf.item || rdfChannel.item))
+    }
+
+    throw new Error('Invalid RSS feed format - no channel, rdf:RDF or feed element found')
+  }
+
+  static looksLikeFeed(content: string): boolean {
+    const feedIndicators = [
+      'https://jsonfeed.org/version/',
+      '<rss',
+      '<feed',
+      '<channel',
+      '<item',
+      '<entry',
+      'xmlns="http://www.w3.org/2005/Atom"',
+      'xmlns:atom="http://www.w3.org/2005/Atom"'
+    ]
+
+    const lowerContent = content.toLowerCase()
+    return feedIndicators.some(indicator => lowerContent.includes(indicator.toLowerCase()))
+  }
+
+  static isJSONFeed(json: unknown): json is JSONFeed {
+    const version = (json as Partial<JSONFeed> | null)?.version
+    return typeof version === 'string' && version.startsWith('https://jsonfeed.org/version/')
+  }
+
+  /**
+   * Remove HTML tags and decode entities without relying on the DOM
+   */
+  static stripHtml(html: string): string {
+    return this.decodeEntities(
+      html
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<br\s*\/?>/gi, ' ')
+        .replace(/<[^>]+>/g, '')
+    )
+      .replace(/\s+/g, ' ')
+      .trim()
+  }
+
+  static extractFirstImage(html: string): string | null {
+    const match = html.match(/<img[^>]+src=["']([^"']+)["']/i)
+    return match ? this.decodeEntities(match[1]) : null
+  }
+
+  static decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code.startsWith('#')) {
+        const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+        return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity
+    })
+  }
+
+  private static parseRSS(channel: XmlNode, itemNodes: XmlNode[]): ParsedFeed {
+    const items: RSSItem[] = itemNodes.map((item) => {
+      const description = this.text(item.description)
+      const content = this.text(item['content:encoded'])
+      const guid = this.text(item.guid)
+      const link = this.text(item.link) || this.getAtomLink(item['atom:link'])
+
+      const enclosureNode = this.toNodes(item.enclosure)[0]
+      const enclosure = enclosureNode
+        ? { url: this.attr(enclosureNode, 'url'), type: this.attr(enclosureNode, 'type') }
+        : undefined
+
+      return {
+        title: this.stripHtml(this.text(item.title)) || 'Untitled',
+        description: this.stripHtml(description),
+        link: link || (guid.startsWith('http') ? guid : ''),
+        pubDate: this.text(item.pubDate) || this.text(item['dc:date']),
+        author: this.text(item['dc:creator']) || this.text(item.author),
+        categories: [...this.toArray(item.category), ...this.toArray(item['dc:subject'])]
+          .map((category) => this.text(category))
+          .filter(Boolean),
+        enclosure,
+        content: content || undefined,
+        image: this.extractItemImage(item, enclosure, content || description) || undefined,
+        guid: guid || undefined
+      }
+    })
+
+    return {
+      title: this.stripHtml(this.text(channel.title)) || 'Unknown Feed',
+      description: this.stripHtml(this.text(channel.description)),
+      link: this.text(channel.link) || this.getAtomLink(channel['atom:link']),
+      items
+    }
+  }
+
+  private static parseAtom(feed: XmlNode): ParsedFeed {
+    const items: RSSItem[] = this.toNodes(feed.entry).map((entry) => {
+      const summary = this.atomContent(entry.summary)
+      const content = this.atomContent(entry.content)
+      const id = this.text(entry.id)
+
+      return {
+        title: this.stripHtml(this.text(entry.title)) || 'Untitled',
+        description: this.stripHtml(summary || content),
+        link: this.getAtomLink(entry.link),
+        pubDate: this.text(entry.published) || this.text(entry.updated),
+        author: this.toNodes(entry.author).map((author) => this.text(author.name)).filter(Boolean).join(', '),
+        categories: this.toNodes(entry.category).map((category) => this.attr(category, 'term')).filter(Boolean),
+        content: content || undefined,
+        image: this.extractItemImage(entry, undefined, content || summary) || undefined,
+        guid: id || undefined
+      }
+    })
+
+    return {
+      title: this.stripHtml(this.text(feed.title)) || 'Unknown Feed',
+      description: this.stripHtml(this.text(feed.subtitle)),
+      link: this.getAtomLink(feed.link),
+      items
+    }
+  }
+
+  private static parseJSONFeed(json: JSONFeed): ParsedFeed {
+    // JSON Feed 1.1 uses "authors" arrays; 1.0 used a single "author" object
+    const getAuthorNames = (source: JSONFeed | JSONFeedItem): string => {
+      const authors = Array.isArray(source.authors) ? source.authors : source.author ? [source.author] : []
+      return authors.map((author) => author?.name).filter(Boolean).join(', ')
+    }
+    const feedAuthor = getAuthorNames(json)
+
+    const items: RSSItem[] = (Array.isArray(json.items) ? json.items : []).map((item) => {
+      const image = item.image || item.banner_image
+      const attachment = Array.isArray(item.attachments) ? item.attachments[0] : undefined
+
+      let enclosure = undefined
+      if (image) {
+        enclosure = { url: image, type: 'image' }
+      } else if (attachment?.url) {
+        enclosure = { url: attachment.url, type: attachment.mime_type || '' }
+      }
+
+      return {
+        title: this.stripHtml(item.title || '') || 'Untitled',
+        description: this.stripHtml(item.summary || item.content_html || item.content_text || ''),
+        link: item.url || item.external_url || (item.id ? String(item.id) : ''),
+        pubDate: item.date_published || item.date_modified || '',
+        author: getAuthorNames(item) || feedAuthor,
+        categories: Array.isArray(item.tags) ? item.tags.map(String) : [],
+        enclosure,
+        content: item.content_html || undefined,
+        image: image || (item.content_html ? this.extractFirstImage(item.content_html) : null) || undefined,
+        guid: item.id ? String(item.id) : undefined
+      }
+    })
+
+    return {
+      title: this.stripHtml(json.title || '') || 'Unknown Feed',
+      description: this.stripHtml(json.description || ''),
+      link: json.home_page_url || '',
+      items
+    }
+  }
+
+  private static extractItemImage(
+    node: XmlNode,
+    enclosure: RSSItem['enclosure'],
+    html: string
+  ): string | null {
+    // media:content may be wrapped in media:group
+    const mediaContents = [
+      ...this.toNodes(node['media:content']),
+      ...this.toNodes(node['media:group']).flatMap((group) => this.toNodes(group['media:content']))
+    ]
+    const mediaImage = mediaContents.find((media) => {
+      const medium = this.attr(media, 'medium')
+      const type = this.attr(media, 'type')
+      return medium === 'image' || type.startsWith('image/') || (!medium && !type)
+    })
+    if (mediaImage && this.attr(mediaImage, 'url')) return this.attr(mediaImage, 'url')
+
+    const thumbnail = this.toNodes(node['media:thumbnail'])[0]
+    if (thumbnail && this.attr(thumbnail, 'url')) return this.attr(thumbnail, 'url')
+
+    const itunesImage = this.toNodes(node['itunes:image'])[0]
+    if (itunesImage && this.attr(itunesImage, 'href')) return this.attr(itunesImage, 'href')
+
+    if (enclosure?.url && enclosure.type.startsWith('image')) return enclosure.url
+
+    return html ? this.extractFirstImage(html) : null
+  }
+
+  private static getAtomLink(links: XmlValue | undefined): string {
+    const linkNodes = this.toArray(links)
+    const alternate = this.toNodes(links).find((link) => !this.attr(link, 'rel') || this.attr(link, 'rel') === 'alternate')
+    const link = alternate || linkNodes[0]
+    return link ? this.attr(link, 'href') || this.text(link) : ''
+  }
+
+  /**
+   * Text of an Atom text construct (kept raw by the parser): the markup inside the wrapper <div>
+   * for type="xhtml", otherwise the CDATA sections and entity-decoded text
+   */
+  private static atomContent(value: XmlValue | undefined): string {
+    const node = this.toArray(value)[0]
+    const raw = this.text(node)
+    if (!raw) return ''
+
+    if (node && this.attr(node, 'type') === 'xhtml') {
+      return raw.replace(/^<div[^>]*>([\s\S]*)<\/div>$/i, '$1').trim()
+    }
+
+    return raw
+      .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+      .map((part) => part.startsWith('<![CDATA[') ? part.slice(9, -3) : this.decodeEntities(part))
+      .join('')
+      .trim()
+  }
+
+  private static text(value: XmlValue | undefined): string {
+    if (value === undefined || value === null) return ''
+    if (Array.isArray(value)) return this.text(value[0])
+    if (typeof value === 'object') return this.text(value['#text'])
+    return String(value).trim()
+  }
+
+  private static attr(value: XmlValue | undefined, name: string): string {
+    const node = this.node(value)
+    return node ? this.text(node[`@_${name}`]) : ''
+  }
+
+  // The value as an element with children/attributes, or undefined for plain text
+  private static node(value: XmlValue | undefined): XmlNode | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : undefined
+  }
+
+  private static toNodes(value: XmlValue | undefined): XmlNode[] {
+    return this.toArray(value).filter((item): item is XmlNode => !!this.node(item))
+  }
+
+  private static toArray(value: XmlValue | undefined): XmlValue[] {
+    if (value === undefined || value === null || value === '') return []
+    return Array.isArray(value) ? value : [value]
+  }
+}
@@ -0,0 +1,165 @@
+import { DatabaseService, Source } from './database'
+import { FeedParser } from './feed-parser'
+import { QuickRefreshService } from './quick-refresh-service'
+import { createServiceSupabaseClient } from './supabase'
+
+export interface FeedPollResult {
+  sourceId: number
+  sourceName: string
+  status: 'updated' | 'not-modified' | 'skipped' | 'error'
+  articlesAdded: number
+  nextPollAt: string
+  error?: string
+}
+
+export interface FeedPollSummary {
+  polled: number
+  updated: number
+  notModified: number
+  skipped: number // Source URL served a page, not a feed; those sources are refreshed through the agents
+  failed: number
+  results: FeedPollResult[]
+}
+
+export interface FeedPollOptions {
+  limit?: number // Max sources per run, keeps a single cron invocation short
+}
+
+const POLL_INTERVAL_MINUTES = 30
+const MAX_BACKOFF_MINUTES = 24 * 60
+const NO_FEED_RECHECK_MINUTES = 24 * 60
+const DEFAULT_BATCH_SIZE = 50
+
+export class FeedPoller {
+  /**
+   * Poll every active/error source whose next_poll_at has passed. Sources an agent collects
+   * without a feed are left out: they have nothing to poll and are refreshed through the agents.
+   */
+  static async pollDueSources(options: FeedPollOptions = {}): Promise<FeedPollSummary> {
+    const db = new DatabaseService(createServiceSupabaseClient())
+    const limit = options.limit || DEFAULT_BATCH_SIZE
+    const now = new Date().toISOString()
+
+    const { data, error } = await db.supabase
+      .from('sources')
+      .select('*')
+      .in('status', ['active', 'error'])
+      .or(`next_poll_at.is.null,next_poll_at.lte.${now}`)
+      .or('collection_agent.is.null,collection_feed_url.not.is.null')
+      .order('next_poll_at', { ascending: true, nullsFirst: true })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching sources due for polling:', error)
+      throw new Error('Failed to fetch sources due for polling')
+    }
+
+    const sources: Source[] = data || []
+    console.log(`⏰ Feed poller: ${sources.length} sources due`)
+
+    const results: FeedPollResult[] = []
+    for (const source of sources) {
+      results.push(await this.pollSource(db, source))
+    }
+
+    const summary: FeedPollSummary = {
+      polled: results.length,
+      updated: results.filter(result => result.status === 'updated').length,
+      notModified: results.filter(result => result.status === 'not-modified').length,
+      skipped: results.filter(result => result.status === 'skipped').length,
+      failed: results.filter(result => result.status === 'error').length,
+      results
+    }
+
+    console.log(`✅ Feed poller: ${summary.updated} updated, ${summary.notModified} unchanged, ${summary.skipped} without a feed, ${summary.failed} failed`)
+    return summary
+  }
+
+  /**
+   * Poll a single source using ETag/Last-Modified so unchanged feeds cost one 304
+   */
+  static async pollSource(db: DatabaseService, source: Source): Promise<FeedPollResult> {
+    try {
+      const headers: Record<string, string> = {
+        'User-Agent': 'BlogHub RSS Reader/1.0',
+        'Accept': 'application/rss+xml, application/xml, text/xml, application/atom+xml, application/feed+json'
+      }
+      if (source.etag) headers['If-None-Match'] = source.etag
+      if (source.last_modified) headers['If-Modified-Since'] = source.last_modified
+
+      // The feed the collection agents found beats the source URL, which is often the homepage
+      const response = await fetch(source.collection_feed_url || source.url, {
+        headers,
+        signal: AbortSignal.timeout(10000)
+      })
+
+      const nextPollAt = this.getNextPollAt(0)
+
+      if (response.status === 304) {
+        await db.updateSource(source.id, {
+          status: 'active',
+          last_fetched_at: new Date().toISOString(),
+          next_poll_at: nextPollAt,
+          poll_failures: 0
+        })
+
+        console.log(`💤 ${source.name}: not modified`)
+        return { sourceId: source.id, sourceName: source.name, status: 'not-modified', articlesAdded: 0, nextPollAt }
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`)
+      }
+
+      // A homepage added before any feed was discovered: not a failure, just nothing to poll yet
+      if (response.headers.get('content-type')?.includes('text/html')) {
+        const recheckAt = new Date(Date.now() + NO_FEED_RECHECK_MINUTES * 60 * 1000).toISOString()
+        await db.updateSource(source.id, { status: 'active', next_poll_at: recheckAt, poll_failures: 0 })
+
+        console.log(`⏭️ ${source.name}: no feed to poll`)
+        return { sourceId: source.id, sourceName: source.name, status: 'skipped', articlesAdded: 0, nextPollAt: recheckAt }
+      }
+
+      const { items } = FeedParser.parse(await response.text())
+
+      // Same storage path as quick refresh; validators the feed stopped sending are cleared
+      const articlesAdded = await QuickRefreshService.storeFeedItems(source.id, source.name, items, db, source.user_id, {
+        etag: response.headers.get('etag'),
+        last_modified: response.headers.get('last-modified'),
+        next_poll_at: nextPollAt,
+        poll_failures: 0
+      })
+
+      console.log(`📰 ${source.name}: ${articlesAdded} new articles`)
+      return { sourceId: source.id, sourceName: source.name, status: 'updated', articlesAdded, nextPollAt }
+
+    } catch (error) {
+      const failures = (source.poll_failures || 0) + 1
+      const nextPollAt = this.getNextPollAt(failures)
+      const message = error instanceof Error ? error.message : 'Unknown error'
+
+      console.error(`❌ Poll failed for ${source.name} (attempt ${failures}):`, error)
+
+      try {
+        await db.updateSource(source.id, {
+          status: 'error',
+          last_fetched_at: new Date().toISOString(),
+          next_poll_at: nextPollAt,
+          poll_failures: failures
+        })
+      } catch (updateError) {
+        console.error(`❌ Could not record poll failure for ${source.name}:`, updateError)
+      }
+
+      return { sourceId: source.id, sourceName: source.name, status: 'error', articlesAdded: 0, nextPollAt, error: message }
+    }
+  }
+
+  /**
+   * Exponential backoff: 30m, 1h, 2h, 4h ... capped at 24h
+   */
+  static getNextPollAt(failures: number): string {
+    const minutes = Math.min(POLL_INTERVAL_MINUTES * Math.pow(2, failures), MAX_BACKOFF_MINUTES)
+    return new Date(Date.now() + minutes * 60 * 1000).toISOString()
+  }
+}
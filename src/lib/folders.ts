@@ -0,0 +1,102 @@
+import type { Folder, Source } from './database'
+
+export interface FolderNode {
+  folder: Folder
+  children: FolderNode[]
+  sources: Source[]
+}
+
+export interface FolderTreeResult {
+  roots: FolderNode[]
+  unfiled: Source[] // Sources without a (valid) folder
+}
+
+/**
+ * Helpers for working with the flat folders table as a tree
+ */
+export class FolderTree {
+  /**
+   * Nest folders by parent_id (ordered by position, then name) and attach their sources
+   */
+  static build(folders: Folder[], sources: Source[]): FolderTreeResult {
+    const nodes = new Map<number, FolderNode>()
+    for (const folder of folders) {
+      nodes.set(folder.id, { folder, children: [], sources: [] })
+    }
+
+    const roots: FolderNode[] = []
+    for (const node of nodes.values()) {
+      const parent = node.folder.parent_id !== null ? nodes.get(node.folder.parent_id) : undefined
+      if (parent) {
+        parent.children.push(node)
+      } else {
+        roots.push(node)
+      }
+    }
+
+    const unfiled: Source[] = []
+    for (const source of sources) {
+      const node = source.folder_id ? nodes.get(source.folder_id) : undefined
+      if (node) {
+        node.sources.push(source)
+      } else {
+        unfiled.push(source)
+      }
+    }
+
+    const sortNodes = (list: FolderNode[]) => {
+      list.sort((a, b) => a.folder.position - b.folder.position || a.folder.name.localeCompare(b.folder.name))
+      for (const node of list) {
+        sortNodes(node.children)
+        node.sources.sort((a, b) => a.name.localeCompare(b.name))
+      }
+    }
+    sortNodes(roots)
+    unfiled.sort((a, b) => a.name.localeCompare(b.name))
+
+    return { roots, unfiled }
+  }
+
+  /**
+   * The folder itself plus every folder nested under it
+   */
+  static getDescendantIds(folderId: number, folders: Folder[]): number[] {
+    const ids = [folderId]
+    for (let i = 0; i < ids.length; i++) {
+      for (const folder of folders) {
+        if (folder.parent_id === ids[i] && !ids.includes(folder.id)) {
+          ids.push(folder.id)
+        }
+      }
+    }
+    return ids
+  }
+
+  /**
+   * Ids of every source in the folder or any of its subfolders
+   */
+  static getSourceIds(folderId: number, folders: Folder[], sources: Source[]): number[] {
+    const folderIds = new Set(this.getDescendantIds(folderId, folders))
+    return sources
+      .filter(source => source.folder_id && folderIds.has(source.folder_id))
+      .map(source => source.id)
+  }
+
+  /**
+   * Folder names from the top level down to the given folder, e.g. ["Tech", "AI"]
+   */
+  static getPath(folderId: number, folders: Folder[]): string[] {
+    const byId = new Map(folders.map(folder => [folder.id, folder]))
+    const path: string[] = []
+    const visited = new Set<number>()
+
+    let current = byId.get(folderId)
+    while (current && !visited.has(current.id)) {
+      visited.add(current.id)
+      path.unshift(current.name)
+      current = current.parent_id !== null ? byId.get(current.parent_id) : undefined
+    }
+
+    return path
+  }
+}
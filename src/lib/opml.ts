@@ -0,0 +1,252 @@
+import { XMLParser } from 'fast-xml-parser'
+import { DatabaseService, Folder, Source } from './database'
+import { FolderTree, type FolderNode } from './folders'
+import { RSSParser } from './rss-parser'
+
+export interface OPMLOutline {
+  title: string
+  xmlUrl: string
+  htmlUrl?: string
+  folder?: string[] // Names of the parent outlines, outermost first, e.g. ["Tech", "AI"]
+}
+
+export interface OPMLImportResult {
+  outline: OPMLOutline
+  success: boolean
+  source?: Source
+  error?: string
+}
+
+export interface OPMLImportProgress {
+  current: number
+  total: number
+  currentFeed: string
+  results: OPMLImportResult[]
+}
+
+export type OPMLImportProgressCallback = (progress: OPMLImportProgress) => void
+
+// An <outline> element as fast-xml-parser returns it (attributes prefixed with "@_")
+interface OPMLOutlineNode {
+  '@_text'?: string
+  '@_title'?: string
+  '@_xmlUrl'?: string
+  '@_htmlUrl'?: string
+  outline?: OPMLOutlineNode[]
+}
+
+export class OPMLService {
+  private static db = new DatabaseService()
+
+  /**
+   * Parse an OPML 2.0 document into a flat list of feed outlines
+   */
+  static parse(opml: string): OPMLOutline[] {
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      isArray: (name) => name === 'outline'
+    })
+
+    const xmlDoc = parser.parse(opml)
+    const body = xmlDoc?.opml?.body
+
+    if (!body) {
+      throw new Error('Invalid OPML file - no <body> element found')
+    }
+
+    const outlines: OPMLOutline[] = []
+    this.collectOutlines(body.outline || [], [], outlines)
+
+    // Remove duplicate feed URLs (the same feed can appear in several folders)
+    const seen = new Set<string>()
+    return outlines.filter(outline => {
+      if (seen.has(outline.xmlUrl)) return false
+      seen.add(outline.xmlUrl)
+      return true
+    })
+  }
+
+  private static collectOutlines(nodes: OPMLOutlineNode[], path: string[], outlines: OPMLOutline[]): void {
+    for (const node of nodes) {
+      const title = String(node['@_title'] || node['@_text'] || '').trim()
+      const xmlUrl = node['@_xmlUrl'] ? String(node['@_xmlUrl']).trim() : ''
+
+      if (xmlUrl) {
+        outlines.push({
+          title: title || xmlUrl,
+          xmlUrl,
+          htmlUrl: node['@_htmlUrl'] ? String(node['@_htmlUrl']).trim() : undefined,
+          folder: path.length > 0 ? path : undefined
+        })
+      }
+
+      // Outlines without xmlUrl are folders; feed outlines may also nest children
+      if (node.outline) {
+        const childPath = xmlUrl || !title ? path : [...path, title]
+        this.collectOutlines(node.outline, childPath, outlines)
+      }
+    }
+  }
+
+  /**
+   * Build an OPML 2.0 document from a list of sources, nesting them in folder outlines
+   */
+  static generate(sources: Source[], folders: Folder[] = [], title = 'BlogHub Subscriptions'): string {
+    const { roots, unfiled } = FolderTree.build(folders, sources)
+    const outlines = [
+      ...roots.flatMap(node => this.generateFolderOutline(node, 2)),
+      ...unfiled.map(source => this.generateSourceOutline(source, 2))
+    ]
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<opml version="2.0">',
+      '  <head>',
+      `    <title>${this.escapeXml(title)}</title>`,
+      `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+      '  </head>',
+      '  <body>',
+      ...outlines,
+      '  </body>',
+      '</opml>',
+      ''
+    ].join('\n')
+  }
+
+  private static generateFolderOutline(node: FolderNode, depth: number): string[] {
+    const indent = '  '.repeat(depth)
+    const name = this.escapeXml(node.folder.name)
+
+    return [
+      `${indent}<outline text="${name}" title="${name}">`,
+      ...node.children.flatMap(child => this.generateFolderOutline(child, depth + 1)),
+      ...node.sources.map(source => this.generateSourceOutline(source, depth + 1)),
+      `${indent}</outline>`
+    ]
+  }
+
+  private static generateSourceOutline(source: Source, depth: number): string {
+    const attributes = [
+      `type="rss"`,
+      `text="${this.escapeXml(source.name)}"`,
+      `title="${this.escapeXml(source.name)}"`,
+      `xmlUrl="${this.escapeXml(source.url)}"`
+    ]
+
+    if (source.description) {
+      attributes.push(`description="${this.escapeXml(source.description)}"`)
+    }
+
+    return `${'  '.repeat(depth)}<outline ${attributes.join(' ')}/>`
+  }
+
+  /**
+   * Export the current user's sources (and folders) as OPML. Server routes pass a session client.
+   */
+  static async exportOPML(db: DatabaseService = this.db): Promise<string> {
+    const [sources, folders] = await Promise.all([
+      db.getSources(),
+      db.getFolders()
+    ])
+    return this.generate(sources, folders)
+  }
+
+  /**
+   * Import every feed in an OPML document into the folders it was nested in, reporting
+   * per-feed success/failure. Server routes pass a session client.
+   */
+  static async importOPML(
+    opml: string,
+    onProgress?: OPMLImportProgressCallback,
+    db: DatabaseService = this.db
+  ): Promise<OPMLImportResult[]> {
+    const outlines = this.parse(opml)
+    const results: OPMLImportResult[] = []
+    const folders = await db.getFolders()
+
+    for (let i = 0; i < outlines.length; i++) {
+      const outline = outlines[i]
+
+      onProgress?.({
+        current: i + 1,
+        total: outlines.length,
+        currentFeed: outline.title,
+        results: [...results]
+      })
+
+      results.push(await this.importOutline(outline, folders, db))
+    }
+
+    onProgress?.({
+      current: outlines.length,
+      total: outlines.length,
+      currentFeed: '',
+      results: [...results]
+    })
+
+    const imported = results.filter(result => result.success).length
+    console.log(`📥 OPML import: ${imported}/${results.length} feeds imported`)
+
+    return results
+  }
+
+  private static async importOutline(outline: OPMLOutline, folders: Folder[], db: DatabaseService): Promise<OPMLImportResult> {
+    try {
+      const parsedFeed = await RSSParser.fetchAndParse(outline.xmlUrl)
+      const folderId = outline.folder ? await this.resolveFolder(outline.folder, folders, db) : null
+
+      const source = await db.addSource({
+        name: parsedFeed.title || outline.title,
+        url: parsedFeed.feedUrl || outline.xmlUrl,
+        description: parsedFeed.description || 'Imported from OPML',
+        status: 'active',
+        last_fetched_at: new Date().toISOString(),
+        articles_count: 0,
+        folder_id: folderId
+      })
+
+      return { outline, success: true, source }
+    } catch (error) {
+      console.error(`❌ OPML import failed for ${outline.xmlUrl}:`, error)
+      return {
+        outline,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  /**
+   * Find or create the folder for an OPML folder path (folders is updated in place)
+   */
+  private static async resolveFolder(path: string[], folders: Folder[], db: DatabaseService): Promise<number> {
+    let parentId: number | null = null
+
+    for (const name of path) {
+      const existing = folders.find(folder => folder.parent_id === parentId && folder.name === name)
+      if (existing) {
+        parentId = existing.id
+        continue
+      }
+
+      const created = await db.addFolder(name, parentId)
+      folders.push(created)
+      parentId = created.id
+    }
+
+    if (parentId === null) {
+      throw new Error(`Invalid folder path "${path.join('/')}"`)
+    }
+    return parentId
+  }
+
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+  }
+}
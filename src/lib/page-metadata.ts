@@ -0,0 +1,103 @@
+import { FeedParser } from './feed-parser'
+import { PublishDateResolver, type ResolvedPublishDate } from './publish-date'
+
+export interface PageMetadata {
+  title?: string
+  description?: string
+  image?: string // As declared by the page, possibly relative
+  author?: string
+  siteName?: string
+  publishedDate: ResolvedPublishDate | null
+}
+
+/**
+ * Article metadata a page declares about itself in Open Graph / author meta tags and JSON-LD
+ */
+export class PageMetadataReader {
+  /**
+   * Read Open Graph, author meta and JSON-LD from an article page (first match wins per field)
+   */
+  static read(html: string): PageMetadata {
+    const head = html.split(/<\/head>/i)[0]
+    const jsonLd = this.findJsonLdArticle(html)
+
+    const jsonLdAuthor = Array.isArray(jsonLd?.author) ? jsonLd?.author[0] : jsonLd?.author
+    const jsonLdImage = Array.isArray(jsonLd?.image) ? jsonLd?.image[0] : jsonLd?.image
+
+    return {
+      title: this.clean(
+        this.getMeta(head, 'og:title') ||
+        this.getMeta(head, 'twitter:title') ||
+        this.asString(jsonLd?.headline) ||
+        head.match(/<title[^>]*>([^<]+)<\/title>/i)?.[1]
+      ),
+      description: this.clean(
+        this.getMeta(head, 'og:description') ||
+        this.getMeta(head, 'description') ||
+        this.asString(jsonLd?.description)
+      ),
+      image: this.clean(
+        this.getMeta(head, 'og:image') ||
+        this.getMeta(head, 'twitter:image') ||
+        this.asString(jsonLdImage) ||
+        this.asString((jsonLdImage as Record<string, unknown> | undefined)?.url)
+      ),
+      author: this.clean(
+        this.getMeta(head, 'author') ||
+        this.getMeta(head, 'article:author') ||
+        this.asString(jsonLdAuthor) ||
+        this.asString((jsonLdAuthor as Record<string, unknown> | undefined)?.name)
+      ),
+      siteName: this.clean(this.getMeta(head, 'og:site_name')),
+      publishedDate: PublishDateResolver.fromHtml(html)
+    }
+  }
+
+  private static getMeta(html: string, name: string): string | undefined {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    const patterns = [
+      new RegExp(`<meta[^>]+(?:property|name)=["']${escaped}["'][^>]*content=["']([^"']*)["']`, 'i'),
+      new RegExp(`<meta[^>]+content=["']([^"']*)["'][^>]*(?:property|name)=["']${escaped}["']`, 'i')
+    ]
+    for (const pattern of patterns) {
+      const match = html.match(pattern)
+      if (match?.[1]?.trim()) return match[1]
+    }
+    return undefined
+  }
+
+  // First schema.org Article-like node (Article, BlogPosting, NewsArticle, ...) in the page's JSON-LD
+  private static findJsonLdArticle(html: string): Record<string, unknown> | undefined {
+    for (const block of html.matchAll(/<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+      let data: unknown
+      try {
+        data = JSON.parse(block[1].trim())
+      } catch {
+        continue
+      }
+
+      const queue: unknown[] = [data]
+      while (queue.length > 0) {
+        const node = queue.shift()
+        if (Array.isArray(node)) {
+          queue.push(...node)
+        } else if (node && typeof node === 'object') {
+          const record = node as Record<string, unknown>
+          const types = ([] as unknown[]).concat(record['@type'])
+          if (types.some(type => typeof type === 'string' && /Article|Posting|Report/.test(type))) return record
+          if (record['@graph']) queue.push(record['@graph'])
+        }
+      }
+    }
+    return undefined
+  }
+
+  private static asString(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined
+  }
+
+  private static clean(value?: string): string | undefined {
+    const text = value ? FeedParser.decodeEntities(value).replace(/\s+/g, ' ').trim() : ''
+    return text || undefined
+  }
+}
@@ -0,0 +1,182 @@
+// Where a publish date was read from
+export type PublishDateSource =
+  | 'feed' // RSS/Atom/JSON Feed item date
+  | 'api' // Platform API or embedded page data (WordPress REST, Ghost Content API, Next.js props)
+  | 'json-ld' // schema.org datePublished on the article page
+  | 'meta' // article:published_time and similar meta tags
+  | 'time-element' // <time datetime> on the article page
+  | 'page-text' // A date printed near the article on a listing or archive page
+  | 'url' // Date segments in the URL, e.g. /2021/03/14/
+  | 'sitemap-lastmod' // Sitemap <lastmod>, which tracks edits rather than publication
+
+export type PublishDateConfidence = 'high' | 'medium' | 'low'
+
+export interface ResolvedPublishDate {
+  date: string // ISO timestamp
+  source: PublishDateSource
+  confidence: PublishDateConfidence
+}
+
+const CONFIDENCE_RANK: Record<PublishDateConfidence, number> = { high: 3, medium: 2, low: 1 }
+const EARLIEST_PLAUSIBLE = Date.UTC(1990, 0, 1)
+const FUTURE_TOLERANCE = 24 * 60 * 60 * 1000 // Timezone slop on freshly published items
+
+/**
+ * Resolves an article's publish date from the evidence at hand and records where it came from.
+ * Nothing here falls back to the current time: no evidence means no date.
+ */
+export class PublishDateResolver {
+  /**
+   * Parse a date string into ISO form, or null when it's missing, unparseable or implausible
+   */
+  static parse(value?: string | null): string | null {
+    const text = value?.trim()
+    if (!text) return null
+
+    let time = new Date(text).getTime()
+
+    // "Jan 2023" / "January 2023"
+    if (isNaN(time)) {
+      const monthYear = text.match(/^([A-Za-z]+)\.?\s+(\d{4})$/)
+      if (monthYear) time = new Date(`${monthYear[1]} 1, ${monthYear[2]}`).getTime()
+    }
+
+    if (isNaN(time) || time < EARLIEST_PLAUSIBLE || time > Date.now() + FUTURE_TOLERANCE) {
+      return null
+    }
+    return new Date(time).toISOString()
+  }
+
+  static fromFeed(value?: string | null): ResolvedPublishDate | null {
+    return this.build(value, 'feed', 'high')
+  }
+
+  static fromApi(value?: string | null): ResolvedPublishDate | null {
+    return this.build(value, 'api', 'high')
+  }
+
+  static fromSitemap(lastmod?: string | null): ResolvedPublishDate | null {
+    return this.build(lastmod, 'sitemap-lastmod', 'low')
+  }
+
+  static fromText(text?: string | null): ResolvedPublishDate | null {
+    return this.build(text, 'page-text', 'medium')
+  }
+
+  static fromTimeElement(datetime?: string | null): ResolvedPublishDate | null {
+    return this.build(datetime, 'time-element', 'medium')
+  }
+
+  /**
+   * Date segments in the URL path: /2021/03/14/ is medium confidence, /2021/03/ low
+   */
+  static fromUrl(url: string): ResolvedPublishDate | null {
+    let path: string
+    try {
+      path = new URL(url).pathname
+    } catch {
+      path = url
+    }
+
+    const fullDate = path.match(/\/((?:19|20)\d{2})[\/-](0?[1-9]|1[0-2])[\/-](0?[1-9]|[12]\d|3[01])(?=[\/-]|$)/)
+    if (fullDate) {
+      return this.build(`${fullDate[1]}-${fullDate[2].padStart(2, '0')}-${fullDate[3].padStart(2, '0')}T00:00:00Z`, 'url', 'medium')
+    }
+
+    const monthOnly = path.match(/\/((?:19|20)\d{2})\/(0?[1-9]|1[0-2])(?=\/)/)
+    if (monthOnly) {
+      return this.build(`${monthOnly[1]}-${monthOnly[2].padStart(2, '0')}-01T00:00:00Z`, 'url', 'low')
+    }
+
+    return null
+  }
+
+  /**
+   * Publish date declared by an article page: JSON-LD, then meta tags, then <time> elements
+   */
+  static fromHtml(html: string): ResolvedPublishDate | null {
+    for (const block of html.matchAll(/<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+      const date = this.findJsonLdDate(block[1])
+      const resolved = this.build(date, 'json-ld', 'high')
+      if (resolved) return resolved
+    }
+
+    const metaPatterns = [
+      /<meta[^>]+(?:property|name)=["'](?:article:published_time|og:published_time|datePublished|pubdate|publish[_-]date|dc\.date(?:\.issued)?|sailthru\.date|parsely-pub-date)["'][^>]*content=["']([^"']+)["']/i,
+      /<meta[^>]+content=["']([^"']+)["'][^>]*(?:property|name)=["'](?:article:published_time|og:published_time|datePublished|pubdate|publish[_-]date|dc\.date(?:\.issued)?|sailthru\.date|parsely-pub-date)["']/i,
+      /<meta[^>]+itemprop=["']datePublished["'][^>]*content=["']([^"']+)["']/i
+    ]
+    for (const pattern of metaPatterns) {
+      const resolved = this.build(html.match(pattern)?.[1], 'meta', 'high')
+      if (resolved) return resolved
+    }
+
+    const time = html.match(/<time[^>]+datetime=["']([^"']+)["']/i)
+    return this.fromTimeElement(time?.[1])
+  }
+
+  /**
+   * The most confident candidate; ties go to the earlier argument
+   */
+  static resolve(...candidates: (ResolvedPublishDate | null | undefined)[]): ResolvedPublishDate | null {
+    let best: ResolvedPublishDate | null = null
+    for (const candidate of candidates) {
+      if (candidate && (!best || CONFIDENCE_RANK[candidate.confidence] > CONFIDENCE_RANK[best.confidence])) {
+        best = candidate
+      }
+    }
+    return best
+  }
+
+  /**
+   * Article row columns for a resolved date (all left unset when nothing was found)
+   */
+  static toColumns(resolved: ResolvedPublishDate | null): {
+    published_at?: string
+    published_at_source?: PublishDateSource
+    published_at_confidence?: PublishDateConfidence
+  } {
+    if (!resolved) return {}
+    return {
+      published_at: resolved.date,
+      published_at_source: resolved.source,
+      published_at_confidence: resolved.confidence
+    }
+  }
+
+  static compareConfidence(a?: PublishDateConfidence | null, b?: PublishDateConfidence | null): number {
+    return (a ? CONFIDENCE_RANK[a] : 0) - (b ? CONFIDENCE_RANK[b] : 0)
+  }
+
+  private static build(
+    value: string | null | undefined,
+    source: PublishDateSource,
+    confidence: PublishDateConfidence
+  ): ResolvedPublishDate | null {
+    const date = this.parse(value)
+    return date ? { date, source, confidence } : null
+  }
+
+  private static findJsonLdDate(json: string): string | null {
+    let data: unknown
+    try {
+      data = JSON.parse(json.trim())
+    } catch {
+      return null
+    }
+
+    // Walk arrays and @graph nodes looking for the first datePublished
+    const queue: unknown[] = [data]
+    while (queue.length > 0) {
+      const node = queue.shift()
+      if (Array.isArray(node)) {
+        queue.push(...node)
+      } else if (node && typeof node === 'object') {
+        const record = node as Record<string, unknown>
+        if (typeof record.datePublished === 'string') return record.datePublished
+        if (record['@graph']) queue.push(record['@graph'])
+      }
+    }
+    return null
+  }
+}
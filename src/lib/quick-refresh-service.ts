@@ -1,5 +1,7 @@
-import { DatabaseService } from './database'
+import { Article, DatabaseService, Source } from './database'
+import type { RSSItem } from './feed-parser'
 import { RSSParser } from './rss-parser'
+import { PublishDateResolver } from './publish-date'
 
 export interface QuickRefreshProgress {
   current: number
@@ -91,49 +93,10 @@ export class QuickRefreshService {
     try {
       // Parse RSS feed to get latest articles
       const parsedFeed = await RSSParser.fetchAndParse(url)
-      const rssResult = {
-        success: true,
-        articles: parsedFeed.items
-      }
-      
-      if (!rssResult.success || !rssResult.articles || rssResult.articles.length === 0) {
-        throw new Error('No articles found in RSS feed')
-      }
+      const articlesAdded = await this.storeFeedItems(sourceId, sourceName, parsedFeed.items)
 
-      // Convert RSS articles to database format
-      const articles = rssResult.articles.map((article: any) => ({
-        source_id: sourceId,
-        title: article.title || 'Untitled',
-        description: article.description || article.summary || 'No description available',
-        content: article.content || article.description,
-        url: article.link || article.url,
-        author: article.author || sourceName,
-        published_at: article.pubDate ? new Date(article.pubDate).toISOString() : new Date().toISOString(),
-        image_url: article.image || null,
-        categories: article.categories || [],
-        read_time: this.estimateReadTime(article.content || article.description || ''),
-        is_read: false,
-        is_bookmarked: false,
-        is_enhanced: false,
-        content_length: (article.content || article.description || '').length,
-        ai_analysis: {},
-        key_quotes: [],
-        main_themes: [],
-        contradicts_previous: false,
-        related_article_ids: []
-      }))
-
-      // Add articles to database (duplicates will be ignored)
-      const storedArticles = await this.db.addArticles(articles)
-
-      // Update source last_fetched_at
-      await this.db.updateSource(sourceId, {
-        last_fetched_at: new Date().toISOString(),
-        status: 'active'
-      })
-
-      console.log(`✅ Quick refresh ${sourceName}: ${storedArticles.length} new articles added`)
-      return storedArticles.length
+      console.log(`✅ Quick refresh ${sourceName}: ${articlesAdded} new articles added`)
+      return articlesAdded
 
     } catch (error) {
       console.error(`❌ Quick refresh failed for ${sourceName}:`, error)
@@ -148,6 +111,65 @@ export class QuickRefreshService {
     }
   }
 
+  /**
+   * Store a source's freshly fetched feed items (duplicates are ignored) and mark it active.
+   * Shared with the server-side poller, which passes its service client, the source's owner and
+   * its polling fields. Returns how many articles were new.
+   */
+  static async storeFeedItems(
+    sourceId: number,
+    sourceName: string,
+    items: RSSItem[],
+    db: DatabaseService = this.db,
+    userId?: string,
+    sourceUpdates: Partial<Source> = {}
+  ): Promise<number> {
+    if (items.length === 0) {
+      throw new Error('No articles found in RSS feed')
+    }
+
+    const storedArticles = await db.addArticles(this.buildArticleRecords(sourceId, sourceName, items), userId)
+
+    await db.updateSource(sourceId, {
+      status: 'active',
+      last_fetched_at: new Date().toISOString(),
+      ...sourceUpdates
+    })
+
+    return storedArticles.length
+  }
+
+  /**
+   * Convert parsed feed items into article rows for a source
+   */
+  private static buildArticleRecords(
+    sourceId: number,
+    sourceName: string,
+    items: RSSItem[]
+  ): Omit<Article, 'id' | 'user_id' | 'created_at' | 'updated_at'>[] {
+    return items.map((article) => ({
+      source_id: sourceId,
+      title: article.title || 'Untitled',
+      description: article.description || 'No description available',
+      content: article.content || article.description,
+      url: article.link,
+      author: article.author || sourceName,
+      ...PublishDateResolver.toColumns(PublishDateResolver.fromFeed(article.pubDate)),
+      image_url: article.image,
+      categories: article.categories || [],
+      read_time: this.estimateReadTime(article.content || article.description || ''),
+      is_read: false,
+      is_bookmarked: false,
+      is_enhanced: false,
+      content_length: (article.content || article.description || '').length,
+      ai_analysis: {},
+      key_quotes: [],
+      main_themes: [],
+      contradicts_previous: false,
+      related_article_ids: []
+    }))
+  }
+
   /**
    * Estimate reading time for content
    */
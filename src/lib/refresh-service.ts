@@ -1,5 +1,13 @@
-import { DatabaseService } from './database'
-import { createCollectionOrchestrator } from './agents'
+import { Article, DatabaseService, Source } from './database'
+import { createCollectionOrchestrator, type HistoricalArticle } from './agents'
+import { PublishDateResolver } from './publish-date'
+import { CollectionProfiles } from './collection-profile'
+
+export interface RefreshCounts {
+  inserted: number
+  updated: number
+  skipped: number
+}
 
 export interface RefreshProgress {
   current: number
@@ -7,6 +15,7 @@ export interface RefreshProgress {
   currentSource: string
   status: 'collecting' | 'processing' | 'complete' | 'error'
   errors: string[]
+  counts: RefreshCounts // Running totals across all sources refreshed so far
 }
 
 export type RefreshProgressCallback = (progress: RefreshProgress) => void
@@ -19,14 +28,16 @@ export class RefreshService {
    */
   static async refreshAllSources(
     onProgress?: RefreshProgressCallback
-  ): Promise<{ success: boolean; errors: string[] }> {
+  ): Promise<{ success: boolean; errors: string[]; counts: RefreshCounts }> {
+    const counts: RefreshCounts = { inserted: 0, updated: 0, skipped: 0 }
+
     try {
       // Get all sources
       const sources = await this.db.getSources()
       const errors: string[] = []
 
       if (sources.length === 0) {
-        return { success: true, errors: [] }
+        return { success: true, errors: [], counts }
       }
 
       // Initialize progress
@@ -41,7 +52,8 @@ export class RefreshService {
           total: totalSources,
           currentSource,
           status,
-          errors: [...errors]
+          errors: [...errors],
+          counts: { ...counts }
         })
       }
 
@@ -51,7 +63,10 @@ export class RefreshService {
         updateProgress('collecting', source.name)
 
         try {
-          await this.refreshSource(source.url, source.name)
+          const sourceCounts = await this.refreshSource(source)
+          counts.inserted += sourceCounts.inserted
+          counts.updated += sourceCounts.updated
+          counts.skipped += sourceCounts.skipped
           updateProgress('processing', source.name)
         } catch (error) {
           const errorMessage = `Failed to refresh ${source.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -63,7 +78,8 @@ export class RefreshService {
 
       return {
         success: errors.length === 0,
-        errors
+        errors,
+        counts
       }
     } catch (error) {
       const errorMessage = `Failed to refresh sources: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -72,33 +88,180 @@ export class RefreshService {
         total: 0,
         currentSource: '',
         status: 'error',
-        errors: [errorMessage]
+        errors: [errorMessage],
+        counts
       })
 
       return {
         success: false,
-        errors: [errorMessage]
+        errors: [errorMessage],
+        counts
       }
     }
   }
 
   /**
-   * Refresh a single source
+   * Refresh a single source - collects incrementally with the agent system (reusing the source's
+   * cached agent selection, stopping at articles it already has) and persists the results
    */
-  static async refreshSource(url: string, sourceName: string): Promise<void> {
-    const orchestrator = createCollectionOrchestrator()
-    
-    // Collect historical articles for this source
-    const result = await orchestrator.collectHistoricalArticles(url)
-    
-    if (!result.success) {
-      const errorMessage = result.errors && result.errors.length > 0 
-        ? result.errors.join(', ') 
-        : 'Failed to collect articles'
-      throw new Error(errorMessage)
+  static async refreshSource(source: Source): Promise<RefreshCounts> {
+    const { id: sourceId, url, name: sourceName } = source
+    const settings = await this.db.getAgentSettings().catch(error => {
+      console.error('Error loading agent settings:', error)
+      return null
+    })
+    const orchestrator = createCollectionOrchestrator(settings || {})
+    // Without the known articles this is a full collection, which is slower but still correct
+    const known = await this.db.getKnownArticles(source.id).catch(error => {
+      console.error('Error loading known articles:', error)
+      return undefined
+    })
+
+    try {
+      // Collect historical articles for this source
+      const result = await orchestrator.collectHistoricalArticles(url, CollectionProfiles.fromSource(source), known)
+
+      if (!result.success) {
+        // Forget a cached selection that stopped working so the next run starts from detection
+        if (result.profile === null) {
+          await this.db.updateSource(sourceId, CollectionProfiles.toSourceFields(null))
+        }
+
+        const errorMessage = result.errors && result.errors.length > 0
+          ? result.errors.join(', ')
+          : 'Failed to collect articles'
+        throw new Error(errorMessage)
+      }
+
+      const counts = await this.persistArticles(sourceId, sourceName, result.articles || [])
+
+      await this.db.updateSource(sourceId, {
+        status: 'active',
+        last_fetched_at: new Date().toISOString(),
+        ...CollectionProfiles.toSourceFields(result.profile)
+      })
+
+      console.log(`✅ Refreshed ${sourceName}: ${counts.inserted} inserted, ${counts.updated} updated, ${counts.skipped} skipped`)
+      return counts
+
+    } catch (error) {
+      console.error(`❌ Refresh failed for ${sourceName}:`, error)
+
+      await this.db.updateSource(sourceId, {
+        status: 'error',
+        last_fetched_at: new Date().toISOString()
+      })
+
+      throw error
     }
+  }
+
+  /**
+   * Insert new articles and fill in richer descriptions/content for ones we already have.
+   * Background jobs pass their service-role client and the owning user.
+   */
+  static async persistArticles(
+    sourceId: number,
+    sourceName: string,
+    articles: HistoricalArticle[],
+    db: DatabaseService = this.db,
+    userId?: string
+  ): Promise<RefreshCounts> {
+    const counts: RefreshCounts = { inserted: 0, updated: 0, skipped: 0 }
+    if (articles.length === 0) return counts
 
-    console.log(`✅ Refreshed ${sourceName}: ${result.articles?.length || 0} articles processed`)
+    // Only this batch's URLs: jobs store large collections in many small batches
+    const existing = await db.getSourceArticleIndex(sourceId, articles.map(article => article.url))
+    const existingByUrl = new Map(existing.map(article => [article.url, article]))
+
+    const newArticles: Omit<Article, 'id' | 'user_id' | 'created_at' | 'updated_at'>[] = []
+
+    for (const article of articles) {
+      const record = this.toArticleRecord(sourceId, sourceName, article)
+      const current = existingByUrl.get(record.url)
+
+      if (!current) {
+        newArticles.push(record)
+        continue
+      }
+
+      // Only touch existing rows when the collected copy adds something
+      const updates: Partial<Article> = {}
+      if (record.content && record.content.length > current.content_length) {
+        updates.content = record.content
+        updates.read_time = record.read_time
+      }
+      if (article.description && !current.description) {
+        updates.description = article.description
+      }
+      // A more trustworthy date (e.g. from a feed) replaces one guessed from a sitemap or URL
+      if (record.published_at && PublishDateResolver.compareConfidence(record.published_at_confidence, current.published_at_confidence) > 0) {
+        updates.published_at = record.published_at
+        updates.published_at_source = record.published_at_source
+        updates.published_at_confidence = record.published_at_confidence
+      }
+
+      if (Object.keys(updates).length > 0) {
+        await db.updateArticle(current.id, updates)
+        counts.updated++
+      } else {
+        counts.skipped++
+      }
+    }
+
+    if (newArticles.length > 0) {
+      // Duplicates within the batch (or racing inserts) are ignored by the upsert
+      const stored = await db.addArticles(newArticles, userId)
+      counts.inserted = stored.length
+      counts.skipped += newArticles.length - stored.length
+    }
+
+    return counts
+  }
+
+  /**
+   * Map an agent-collected article to an article row
+   */
+  private static toArticleRecord(
+    sourceId: number,
+    sourceName: string,
+    article: HistoricalArticle
+  ): Omit<Article, 'id' | 'user_id' | 'created_at' | 'updated_at'> {
+    const content = article.description || ''
+
+    return {
+      source_id: sourceId,
+      title: article.title || 'Untitled',
+      description: article.description || `Historical article from ${article.author || sourceName}`,
+      content,
+      url: article.url,
+      author: article.author || sourceName,
+      published_at: article.publishedDate,
+      published_at_source: article.publishedDateSource,
+      published_at_confidence: article.publishedDateConfidence,
+      needs_enrichment: !!article.needsEnrichment,
+      categories: [],
+      read_time: this.estimateReadTime(content),
+      is_read: false,
+      is_bookmarked: false,
+      is_enhanced: false,
+      content_length: content.length,
+      ai_analysis: {},
+      key_quotes: [],
+      main_themes: [],
+      contradicts_previous: false,
+      related_article_ids: []
+    }
+  }
+
+  /**
+   * Estimate reading time for content
+   */
+  private static estimateReadTime(content: string): string {
+    const wordsPerMinute = 200
+    const words = content.trim().split(/\s+/).length
+    const minutes = Math.ceil(words / wordsPerMinute)
+    return `${minutes} min read`
   }
 
   /**
@@ -106,7 +269,8 @@ export class RefreshService {
    */
   static formatProgress(progress: RefreshProgress): string {
     if (progress.status === 'complete') {
-      return `Refreshed ${progress.total} sources`
+      const { inserted, updated, skipped } = progress.counts
+      return `Refreshed ${progress.total} sources: ${inserted} new, ${updated} updated, ${skipped} unchanged`
     }
     
     if (progress.status === 'error') {
@@ -1,22 +1,10 @@
-interface RSSItem {
-  title: string
-  description: string
-  link: string
-  pubDate: string
-  author?: string
-  categories?: string[]
-  enclosure?: {
-    url: string
-    type: string
-  }
-}
+import { FeedParser, type RSSItem, type ParsedFeed } from './feed-parser'
 
-interface ParsedFeed {
-  title: string
-  description: string
-  link: string
-  items: RSSItem[]
-  feedUrl?: string // Add the actual feed URL that was discovered
+// What /api/rss-proxy returns for sites it leaves to the collection agents instead of a feed
+interface AgentSupportResponse {
+  success: boolean
+  message: string
+  note: string
 }
 
 export class RSSParser {
@@ -62,18 +50,21 @@ export class RSSParser {
       try {
         console.log(`🧪 Trying feed URL: ${candidateUrl}`)
         
-        const proxyUrl = `/api/rss-proxy?url=${encodeURIComponent(candidateUrl)}`
-        const response = await fetch(proxyUrl)
+        const response = await fetch(this.getProxyUrl(candidateUrl))
         
         console.log(`📡 Response status for ${candidateUrl}: ${response.status}`)
         
         if (response.ok) {
           const content = await response.text()
           
-          // Check if this is a JSON response from our specialized agent handling
+          // Check if this is a JSON Feed or a JSON response from our specialized agent handling
           try {
-            const jsonResponse = JSON.parse(content)
-            if (jsonResponse.success && jsonResponse.message && jsonResponse.note) {
+            const jsonResponse: unknown = JSON.parse(content)
+            if (FeedParser.isJSONFeed(jsonResponse)) {
+              console.log(`✅ Found JSON Feed at: ${candidateUrl}`)
+              return candidateUrl
+            }
+            if (this.isAgentSupportResponse(jsonResponse)) {
               console.log(`✅ Found specialized agent support for: ${candidateUrl}`)
               console.log(`📋 Message: ${jsonResponse.message}`)
               return candidateUrl
@@ -82,7 +73,7 @@ export class RSSParser {
             // Not JSON, continue with normal feed validation
           }
           
-          const isValidFeed = this.looksLikeFeed(content)
+          const isValidFeed = FeedParser.looksLikeFeed(content)
           
           console.log(`📝 Content length: ${content.length}, Is valid feed: ${isValidFeed}`)
           
@@ -132,6 +123,7 @@ export class RSSParser {
       '/atom.xml',
       '/index.xml',
       '/feeds/posts/default',
+      '/feed.json',
       '/?feed=rss',
       '/?feed=rss2',
       '/?feed=atom'
@@ -147,38 +139,39 @@ export class RSSParser {
 
   private static async discoverFeedsFromHTML(url: string): Promise<string[]> {
     try {
-      const proxyUrl = `/api/rss-proxy?url=${encodeURIComponent(url)}`
-      const response = await fetch(proxyUrl)
+      const response = await fetch(this.getProxyUrl(url))
       
       if (!response.ok) return []
       
       const html = await response.text()
       const feeds: string[] = []
       
-      // Create a temporary DOM to parse HTML
-      const parser = new DOMParser()
-      const doc = parser.parseFromString(html, 'text/html')
+      // Look for RSS/Atom/JSON feed <link> tags (regex so this also works without a DOM)
+      const linkTags = html.match(/<link\b[^>]*>/gi) || []
       
-      // Look for RSS/Atom feed links in the HTML head
-      const linkElements = doc.querySelectorAll('link[type*="rss"], link[type*="atom"], link[rel="alternate"]')
-      
-      linkElements.forEach((link) => {
-        const href = link.getAttribute('href')
-        const type = link.getAttribute('type')
+      for (const linkTag of linkTags) {
+        const href = this.getTagAttribute(linkTag, 'href')
+        const type = this.getTagAttribute(linkTag, 'type')
+        const rel = this.getTagAttribute(linkTag, 'rel')
+        
+        const isFeedLink = type?.includes('rss') || type?.includes('atom') || type?.includes('feed+json') ||
+          rel?.toLowerCase().split(/\s+/).includes('alternate')
+        if (!href || !isFeedLink) continue
         
-        if (href && (
+        if (
           type?.includes('rss') || 
           type?.includes('atom') || 
+          type?.includes('feed+json') || 
           href.includes('feed') || 
           href.includes('rss') ||
           href.includes('atom')
-        )) {
+        ) {
           // Convert relative URLs to absolute, but keep external URLs as-is
           const feedUrl = href.startsWith('http') ? href : new URL(href, url).toString()
           feeds.push(feedUrl)
           console.log(`Found RSS feed link: ${feedUrl}`)
         }
-              })
+      }
       
       return feeds
     } catch (error) {
@@ -187,25 +180,33 @@ export class RSSParser {
     }
   }
 
-  private static looksLikeFeed(content: string): boolean {
-    const feedIndicators = [
-      '<rss',
-      '<feed',
-      '<channel',
-      '<item',
-      '<entry',
-      'xmlns="http://www.w3.org/2005/Atom"',
-      'xmlns:atom="http://www.w3.org/2005/Atom"'
-    ]
-    
-    const lowerContent = content.toLowerCase()
-    return feedIndicators.some(indicator => lowerContent.includes(indicator.toLowerCase()))
+  private static getTagAttribute(tag: string, name: string): string | null {
+    const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))
+    if (!match) return null
+    return FeedParser.decodeEntities(match[1] ?? match[2] ?? match[3] ?? '')
+  }
+
+  /**
+   * Relative proxy URLs only resolve in the browser; server-side callers need an absolute URL
+   */
+  private static getProxyUrl(url: string): string {
+    const path = `/api/rss-proxy?url=${encodeURIComponent(url)}`
+    if (typeof window !== 'undefined') return path
+
+    const baseUrl = process.env.VERCEL_URL 
+      ? `https://${process.env.VERCEL_URL}` 
+      : 'http://localhost:3000'
+    return `${baseUrl}${path}`
+  }
+
+  private static isAgentSupportResponse(json: unknown): json is AgentSupportResponse {
+    if (!json || typeof json !== 'object' || FeedParser.isJSONFeed(json)) return false
+    const response = json as Partial<AgentSupportResponse>
+    return !!(response.success && response.message && response.note)
   }
 
   private static async parseDiscoveredFeed(feedUrl: string): Promise<ParsedFeed> {
-    const proxyUrl = `/api/rss-proxy?url=${encodeURIComponent(feedUrl)}`
-    
-    const response = await fetch(proxyUrl)
+    const response = await fetch(this.getProxyUrl(feedUrl))
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}))
       throw new Error(errorData.error || `HTTP error! status: ${response.status}`)
@@ -218,215 +219,28 @@ export class RSSParser {
     }
     
     // Check if this is a JSON response from our specialized agent handling
+    let jsonResponse: unknown = null
     try {
-      const jsonResponse = JSON.parse(xmlText)
-      if (jsonResponse.success && jsonResponse.message && jsonResponse.note) {
-        // This is a specialized agent website - return a placeholder feed structure
-        // The actual content will be handled by the agent system
-        const domain = new URL(feedUrl).hostname
-        return {
-          title: domain.replace('www.', '').replace('.com', '').charAt(0).toUpperCase() + 
-                 domain.replace('www.', '').replace('.com', '').slice(1) + ' (Specialized Agent)',
-          description: jsonResponse.message,
-          link: feedUrl,
-          items: [] // Agent system will populate content later
-        }
-      }
+      jsonResponse = JSON.parse(xmlText)
     } catch {
-      // Not JSON, continue with normal XML parsing
-    }
-    
-    const parser = new DOMParser()
-    const xmlDoc = parser.parseFromString(xmlText, 'text/xml')
-    
-    // Check for parser errors
-    const parserError = xmlDoc.querySelector('parsererror')
-    if (parserError) {
-      throw new Error('Invalid XML format in RSS feed')
-    }
-    
-    // Check if it's RSS or Atom
-    const rootElement = xmlDoc.documentElement
-    const isAtom = rootElement.tagName === 'feed' || rootElement.tagName === 'atom:feed'
-    const isRSS = rootElement.tagName === 'rss' || rootElement.tagName === 'rdf:RDF'
-    
-    if (isAtom) {
-      return this.parseAtom(xmlDoc)
-    } else if (isRSS || rootElement.querySelector('channel')) {
-      return this.parseRSS(xmlDoc)
-    } else {
-      // Try alternative parsing as last resort
-      return this.parseAlternativeRSS(xmlDoc)
-    }
-  }
-
-  private static parseRSS(xmlDoc: Document): ParsedFeed {
-    const channel = xmlDoc.querySelector('channel')
-    if (!channel) {
-      // Try alternative RSS structures
-      const rssElement = xmlDoc.querySelector('rss channel') || 
-                        xmlDoc.querySelector('rdf\\:RDF') ||
-                        xmlDoc.documentElement
-      
-      if (!rssElement) {
-        throw new Error('Invalid RSS feed format - no channel or rss element found')
-      }
-      
-      // Use the root element if no channel found
-      return this.parseAlternativeRSS(xmlDoc)
+      // Not JSON, continue with normal feed parsing
     }
 
-    const title = channel.querySelector('title')?.textContent || 'Unknown Feed'
-    const description = channel.querySelector('description')?.textContent || ''
-    const link = channel.querySelector('link')?.textContent || ''
-
-    const items: RSSItem[] = []
-    const itemElements = channel.querySelectorAll('item')
-
-    itemElements.forEach((item) => {
-      const title = item.querySelector('title')?.textContent || 'Untitled'
-      const description = item.querySelector('description')?.textContent || ''
-      const link = item.querySelector('link')?.textContent || ''
-      const pubDate = item.querySelector('pubDate')?.textContent || ''
-      const author = item.querySelector('author')?.textContent || 
-                    item.querySelector('dc\\:creator')?.textContent || ''
-
-      // Extract categories
-      const categoryElements = item.querySelectorAll('category')
-      const categories: string[] = []
-      categoryElements.forEach((cat) => {
-        const text = cat.textContent
-        if (text) categories.push(text)
-      })
-
-      // Extract enclosure (for images)
-      const enclosureElement = item.querySelector('enclosure')
-      let enclosure = undefined
-      if (enclosureElement) {
-        enclosure = {
-          url: enclosureElement.getAttribute('url') || '',
-          type: enclosureElement.getAttribute('type') || ''
-        }
+    if (this.isAgentSupportResponse(jsonResponse)) {
+      // This is a specialized agent website - return a placeholder feed structure
+      // The actual content will be handled by the agent system
+      const domain = new URL(feedUrl).hostname
+      return {
+        title: domain.replace('www.', '').replace('.com', '').charAt(0).toUpperCase() + 
+               domain.replace('www.', '').replace('.com', '').slice(1) + ' (Specialized Agent)',
+        description: jsonResponse.message,
+        link: feedUrl,
+        items: [] // Agent system will populate content later
       }
-
-      items.push({
-        title: this.cleanText(title),
-        description: this.cleanText(description),
-        link,
-        pubDate,
-        author,
-        categories,
-        enclosure
-      })
-    })
-
-    return {
-      title: this.cleanText(title),
-      description: this.cleanText(description),
-      link,
-      items
     }
-  }
-
-  private static parseAlternativeRSS(xmlDoc: Document): ParsedFeed {
-    // Try to parse feeds that don't follow standard RSS format
-    const root = xmlDoc.documentElement
     
-    const title = root.querySelector('title')?.textContent || 
-                 root.querySelector('channel title')?.textContent || 
-                 'Unknown Feed'
-    const description = root.querySelector('description')?.textContent || 
-                       root.querySelector('channel description')?.textContent || ''
-    const link = root.querySelector('link')?.textContent || 
-                root.querySelector('channel link')?.textContent || ''
-
-    const items: RSSItem[] = []
-    // Try different item selectors
-    const itemElements = root.querySelectorAll('item') || 
-                        root.querySelectorAll('entry') ||
-                        root.querySelectorAll('channel item')
-
-    itemElements.forEach((item) => {
-      const title = item.querySelector('title')?.textContent || 'Untitled'
-      const description = item.querySelector('description')?.textContent || 
-                         item.querySelector('summary')?.textContent || ''
-      const link = item.querySelector('link')?.textContent || 
-                  item.querySelector('link')?.getAttribute('href') || ''
-      const pubDate = item.querySelector('pubDate')?.textContent || 
-                     item.querySelector('published')?.textContent ||
-                     item.querySelector('updated')?.textContent || ''
-
-      items.push({
-        title: this.cleanText(title),
-        description: this.cleanText(description),
-        link,
-        pubDate,
-        author: '',
-        categories: []
-      })
-    })
-
-    return {
-      title: this.cleanText(title),
-      description: this.cleanText(description),
-      link,
-      items
-    }
-  }
-
-  private static parseAtom(xmlDoc: Document): ParsedFeed {
-    const feed = xmlDoc.documentElement
-    
-    const title = feed.querySelector('title')?.textContent || 'Unknown Feed'
-    const subtitle = feed.querySelector('subtitle')?.textContent || ''
-    const linkElement = feed.querySelector('link[rel="alternate"]') || feed.querySelector('link')
-    const link = linkElement?.getAttribute('href') || ''
-
-    const items: RSSItem[] = []
-    const entryElements = feed.querySelectorAll('entry')
-
-    entryElements.forEach((entry) => {
-      const title = entry.querySelector('title')?.textContent || 'Untitled'
-      const summary = entry.querySelector('summary')?.textContent || 
-                     entry.querySelector('content')?.textContent || ''
-      const linkElement = entry.querySelector('link[rel="alternate"]') || entry.querySelector('link')
-      const link = linkElement?.getAttribute('href') || ''
-      const published = entry.querySelector('published')?.textContent || 
-                       entry.querySelector('updated')?.textContent || ''
-      const authorElement = entry.querySelector('author name')
-      const author = authorElement?.textContent || ''
-
-      // Extract categories
-      const categoryElements = entry.querySelectorAll('category')
-      const categories: string[] = []
-      categoryElements.forEach((cat) => {
-        const term = cat.getAttribute('term')
-        if (term) categories.push(term)
-      })
-
-      items.push({
-        title: this.cleanText(title),
-        description: this.cleanText(summary),
-        link,
-        pubDate: published,
-        author,
-        categories
-      })
-    })
-
-    return {
-      title: this.cleanText(title),
-      description: this.cleanText(subtitle),
-      link,
-      items
-    }
-  }
-
-  private static cleanText(text: string): string {
-    // Remove HTML tags and decode HTML entities
-    const div = document.createElement('div')
-    div.innerHTML = text
-    return div.textContent || div.innerText || ''
+    // RSS 2.0, RSS 1.0/RDF, Atom and JSON Feed are all handled by the shared parser
+    return FeedParser.parse(xmlText)
   }
 
   static formatDate(dateString: string): string {
@@ -453,15 +267,12 @@ export class RSSParser {
 
   static extractImageFromContent(content: string): string | null {
     // Try to extract the first image from HTML content
-    const div = document.createElement('div')
-    div.innerHTML = content
-    const img = div.querySelector('img')
-    return img?.src || null
+    return FeedParser.extractFirstImage(content)
   }
 
   static estimateReadingTime(content: string): string {
     const wordsPerMinute = 200
-    const cleanContent = this.cleanText(content)
+    const cleanContent = FeedParser.stripHtml(content)
     const wordCount = cleanContent.split(/\s+/).length
     const minutes = Math.ceil(wordCount / wordsPerMinute)
     return `${minutes} min read`
@@ -469,4 +280,4 @@ export class RSSParser {
 }
 
 // Types for better TypeScript support
-export type { RSSItem, ParsedFeed } 
\ No newline at end of file
+export type { RSSItem, ParsedFeed }
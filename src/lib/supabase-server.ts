@@ -0,0 +1,16 @@
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+
+// Route-handler client signed in as the user whose session cookies came with the request, so
+// queries go through RLS. Kept apart from supabase.ts because next/headers is server-only.
+export const createRouteSupabaseClient = async (): Promise<SupabaseClient> => {
+  const cookieStore = await cookies()
+  return createRouteHandlerClient({ cookies: () => cookieStore as unknown as ReturnType<typeof cookies> })
+}
+
+// The signed-in user making the request, or null for anonymous callers
+export const getRouteUser = async (supabase: SupabaseClient): Promise<User | null> => {
+  const { data: { user } } = await supabase.auth.getUser()
+  return user
+}
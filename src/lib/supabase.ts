@@ -10,4 +10,18 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 export const createSupabaseClient = () => {
   // Use the auth helpers for better RLS compatibility
   return createClientComponentClient()
-} 
\ No newline at end of file
+} 
+
+// Server-only client that bypasses RLS - used by background jobs (cron polling)
+// that run without a signed-in user. Never import this from client components.
+export const createServiceSupabaseClient = () => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured')
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+}
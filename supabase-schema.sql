@@ -26,6 +26,28 @@ CREATE TABLE IF NOT EXISTS authors (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create folders table for organizing sources (nested via parent_id)
+CREATE TABLE IF NOT EXISTS folders (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  parent_id BIGINT REFERENCES folders(id) ON DELETE CASCADE, -- NULL for top-level folders
+  name TEXT NOT NULL,
+  position INTEGER DEFAULT 0, -- Sort order among siblings
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create smart_feeds table for saved searches / rule-based virtual feeds
+CREATE TABLE IF NOT EXISTS smart_feeds (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rules JSONB NOT NULL DEFAULT '{}', -- keywords, author, categories, themes, folderId, publishedWithinDays, readState
+  position INTEGER DEFAULT 0, -- Sort order in the sidebar
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create sources table
 CREATE TABLE IF NOT EXISTS sources (
   id BIGSERIAL PRIMARY KEY,
@@ -37,11 +59,39 @@ CREATE TABLE IF NOT EXISTS sources (
   status TEXT DEFAULT 'active' CHECK (status IN ('active', 'error', 'paused')),
   last_fetched_at TIMESTAMP WITH TIME ZONE,
   articles_count INTEGER DEFAULT 0,
+  etag TEXT, -- Conditional GET validators from the last successful poll
+  last_modified TEXT,
+  next_poll_at TIMESTAMP WITH TIME ZONE, -- When the server-side poller should fetch this source again
+  poll_failures INTEGER DEFAULT 0, -- Consecutive failed polls (drives backoff)
+  folder_id BIGINT REFERENCES folders(id) ON DELETE SET NULL, -- Deleting a folder leaves its sources unfiled
+  tags TEXT[] DEFAULT '{}', -- Free-form labels
+  collection_agent TEXT, -- Agent that last collected this source, reused until it stops finding articles
+  collection_platform TEXT,
+  collection_feed_url TEXT, -- Feed that agent collected from
+  collection_strategies TEXT[], -- Strategies that found articles; the reused agent skips the rest
+  collection_profile_updated_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(user_id, url)
 );
 
+-- Polling columns for databases created before scheduled polling existed
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS etag TEXT;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS last_modified TEXT;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS next_poll_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS poll_failures INTEGER DEFAULT 0;
+
+-- Organization columns for databases created before folders and tags existed
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS folder_id BIGINT REFERENCES folders(id) ON DELETE SET NULL;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}';
+
+-- Cached agent selection for databases created before it was persisted
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS collection_agent TEXT;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS collection_platform TEXT;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS collection_feed_url TEXT;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS collection_strategies TEXT[];
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS collection_profile_updated_at TIMESTAMP WITH TIME ZONE;
+
 -- Create articles table
 CREATE TABLE IF NOT EXISTS articles (
   id BIGSERIAL PRIMARY KEY,
@@ -53,7 +103,9 @@ CREATE TABLE IF NOT EXISTS articles (
   content TEXT, -- Can store up to 1GB of enhanced content
   url TEXT NOT NULL,
   author TEXT, -- Keep original author field for compatibility
-  published_at TIMESTAMP WITH TIME ZONE,
+  published_at TIMESTAMP WITH TIME ZONE, -- NULL when no trustworthy date was found
+  published_at_source TEXT, -- feed, api, json-ld, meta, time-element, page-text, url or sitemap-lastmod
+  published_at_confidence TEXT CHECK (published_at_confidence IN ('high', 'medium', 'low')),
   image_url TEXT,
   categories TEXT[],
   read_time TEXT,
@@ -66,11 +118,109 @@ CREATE TABLE IF NOT EXISTS articles (
   main_themes TEXT[], -- AI-extracted themes from the article
   contradicts_previous BOOLEAN DEFAULT FALSE, -- Flag articles that contradict previous positions
   related_article_ids BIGINT[], -- Articles that discuss similar themes
+  canonical_url TEXT, -- Normalized URL (tracking params, www, trailing slash stripped) for cross-source dedupe
+  content_fingerprint TEXT, -- 64-bit SimHash of the article text (hex)
+  fingerprint_bands TEXT[], -- SimHash split into bands for near-duplicate candidate lookup
+  duplicate_of BIGINT REFERENCES articles(id) ON DELETE SET NULL, -- First-seen copy when this article is a duplicate
+  needs_enrichment BOOLEAN DEFAULT FALSE, -- Title/metadata guessed (e.g. sitemap URL slug); fetch the page once
+  enriched_at TIMESTAMP WITH TIME ZONE, -- When the enrichment job ran; NULL until then
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(author, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(content, '')), 'D')
+  ) STORED, -- Full-text search index (title > author > description > content)
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(source_id, url)
 );
 
+-- Full-text search column for databases created before search existed
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(author, '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'C') ||
+  setweight(to_tsvector('english', COALESCE(content, '')), 'D')
+) STORED;
+
+-- Duplicate detection columns for databases created before dedupe existed
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS canonical_url TEXT;
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS content_fingerprint TEXT;
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS fingerprint_bands TEXT[];
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS duplicate_of BIGINT REFERENCES articles(id) ON DELETE SET NULL;
+
+-- Publish date provenance for databases created before date resolution existed
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS published_at_source TEXT;
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS published_at_confidence TEXT CHECK (published_at_confidence IN ('high', 'medium', 'low'));
+
+-- Metadata enrichment tracking for databases created before the enrichment job existed
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS needs_enrichment BOOLEAN DEFAULT FALSE;
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS enriched_at TIMESTAMP WITH TIME ZONE;
+
+-- Create article_rules table (filters applied when new articles are inserted)
+CREATE TABLE IF NOT EXISTS article_rules (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_id BIGINT REFERENCES sources(id) ON DELETE CASCADE, -- NULL applies the rule to every source
+  name TEXT NOT NULL,
+  conditions JSONB NOT NULL DEFAULT '{}', -- textPattern, author, categories, urlPattern (all must match)
+  action TEXT NOT NULL CHECK (action IN ('skip', 'mark_read', 'bookmark', 'tag')),
+  action_value TEXT, -- Tag name for the 'tag' action
+  is_enabled BOOLEAN DEFAULT TRUE,
+  position INTEGER DEFAULT 0, -- Evaluation order
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create extraction_recipes table (user-defined per-domain content extraction selectors)
+CREATE TABLE IF NOT EXISTS extraction_recipes (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  domain TEXT NOT NULL, -- Hostname, "*.example.com" also matches subdomains
+  selectors JSONB NOT NULL DEFAULT '{}', -- content, remove, title, date, author, nextPage
+  is_enabled BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create agent_settings table (per-user collection agent configuration, one row per user)
+CREATE TABLE IF NOT EXISTS agent_settings (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  disabled_agents TEXT[] NOT NULL DEFAULT '{}', -- Agent names skipped during analysis
+  agent_priorities JSONB NOT NULL DEFAULT '{}', -- Agent name -> priority, replacing the registered default
+  domain_overrides JSONB NOT NULL DEFAULT '{}', -- Domain -> agent name, always used for that domain
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create collection_jobs table (historical collections run server-side by the job worker)
+CREATE TABLE IF NOT EXISTS collection_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_id BIGINT REFERENCES sources(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0, -- Runs since the last checkpoint; a job is retried until MAX_ATTEMPTS
+  checkpoint JSONB NOT NULL DEFAULT '{}', -- Collected articles and how many are stored, so a retry resumes
+  result JSONB, -- Agent used and insert/update counts once succeeded
+  error TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE, -- Lease of the running worker; a lapsed lease means it died
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create collection_job_events table (progress log the job worker writes and the Connect page streams)
+CREATE TABLE IF NOT EXISTS collection_job_events (
+  id BIGSERIAL PRIMARY KEY,
+  job_id BIGINT REFERENCES collection_jobs(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  event JSONB NOT NULL, -- Agent progress (strategy, page, articles, error) or storage progress
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create author evolution tracking table
 CREATE TABLE IF NOT EXISTS author_evolution (
   id BIGSERIAL PRIMARY KEY,
@@ -96,19 +246,48 @@ CREATE INDEX IF NOT EXISTS idx_authors_key_topics ON authors USING GIN(key_topic
 CREATE INDEX IF NOT EXISTS idx_sources_user_id ON sources(user_id);
 CREATE INDEX IF NOT EXISTS idx_sources_author_id ON sources(author_id);
 CREATE INDEX IF NOT EXISTS idx_sources_status ON sources(status);
+CREATE INDEX IF NOT EXISTS idx_sources_next_poll_at ON sources(next_poll_at);
+CREATE INDEX IF NOT EXISTS idx_sources_folder_id ON sources(folder_id);
+CREATE INDEX IF NOT EXISTS idx_sources_tags ON sources USING GIN(tags);
+
+-- Folders indexes
+CREATE INDEX IF NOT EXISTS idx_folders_user_id ON folders(user_id);
+CREATE INDEX IF NOT EXISTS idx_folders_parent_id ON folders(parent_id);
+
+-- Smart feeds indexes
+CREATE INDEX IF NOT EXISTS idx_smart_feeds_user_id ON smart_feeds(user_id);
+
+-- Article rules indexes
+CREATE INDEX IF NOT EXISTS idx_article_rules_user_id ON article_rules(user_id);
+CREATE INDEX IF NOT EXISTS idx_article_rules_source_id ON article_rules(source_id);
+
+-- Extraction recipes indexes
+CREATE INDEX IF NOT EXISTS idx_extraction_recipes_user_id ON extraction_recipes(user_id);
+
+-- Collection jobs indexes
+CREATE INDEX IF NOT EXISTS idx_collection_jobs_user_id ON collection_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_collection_jobs_pending ON collection_jobs(created_at) WHERE status IN ('queued', 'running'); -- Worker queue
+CREATE INDEX IF NOT EXISTS idx_collection_job_events_job_id ON collection_job_events(job_id, id); -- Streamed in id order
 
 -- Articles table indexes
 CREATE INDEX IF NOT EXISTS idx_articles_source_id ON articles(source_id);
 CREATE INDEX IF NOT EXISTS idx_articles_user_id ON articles(user_id);
 CREATE INDEX IF NOT EXISTS idx_articles_author_id ON articles(author_id);
 CREATE INDEX IF NOT EXISTS idx_articles_published_at ON articles(published_at DESC);
+CREATE INDEX IF NOT EXISTS idx_articles_published_at_id ON articles(published_at DESC NULLS LAST, id DESC); -- Cursor pagination
 CREATE INDEX IF NOT EXISTS idx_articles_is_read ON articles(is_read);
 CREATE INDEX IF NOT EXISTS idx_articles_is_bookmarked ON articles(is_bookmarked);
 CREATE INDEX IF NOT EXISTS idx_articles_is_enhanced ON articles(is_enhanced);
 CREATE INDEX IF NOT EXISTS idx_articles_content_length ON articles(content_length);
 CREATE INDEX IF NOT EXISTS idx_articles_main_themes ON articles USING GIN(main_themes);
+CREATE INDEX IF NOT EXISTS idx_articles_categories ON articles USING GIN(categories);
 CREATE INDEX IF NOT EXISTS idx_articles_contradicts_previous ON articles(contradicts_previous);
 CREATE INDEX IF NOT EXISTS idx_articles_ai_analysis ON articles USING GIN(ai_analysis);
+CREATE INDEX IF NOT EXISTS idx_articles_search_vector ON articles USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_articles_canonical_url ON articles(user_id, canonical_url);
+CREATE INDEX IF NOT EXISTS idx_articles_fingerprint_bands ON articles USING GIN(fingerprint_bands);
+CREATE INDEX IF NOT EXISTS idx_articles_duplicate_of ON articles(duplicate_of);
+CREATE INDEX IF NOT EXISTS idx_articles_needs_enrichment ON articles(created_at) WHERE needs_enrichment AND enriched_at IS NULL; -- Enrichment queue
 
 -- Author evolution table indexes
 CREATE INDEX IF NOT EXISTS idx_author_evolution_author_id ON author_evolution(author_id);
@@ -148,6 +327,30 @@ CREATE TRIGGER update_sources_updated_at
     BEFORE UPDATE ON sources 
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_folders_updated_at 
+    BEFORE UPDATE ON folders 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_smart_feeds_updated_at 
+    BEFORE UPDATE ON smart_feeds 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_article_rules_updated_at 
+    BEFORE UPDATE ON article_rules 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_extraction_recipes_updated_at 
+    BEFORE UPDATE ON extraction_recipes 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_agent_settings_updated_at 
+    BEFORE UPDATE ON agent_settings 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_collection_jobs_updated_at 
+    BEFORE UPDATE ON collection_jobs 
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_articles_updated_at 
     BEFORE UPDATE ON articles 
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -160,6 +363,13 @@ CREATE TRIGGER update_articles_content_metadata
 -- Enable Row Level Security
 ALTER TABLE authors ENABLE ROW LEVEL SECURITY;
 ALTER TABLE sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE folders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE smart_feeds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE article_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE extraction_recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_job_events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE articles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE author_evolution ENABLE ROW LEVEL SECURITY;
 
@@ -189,6 +399,91 @@ CREATE POLICY "Users can update their own sources" ON sources
 CREATE POLICY "Users can delete their own sources" ON sources
     FOR DELETE USING (auth.uid() = user_id);
 
+-- Create RLS policies for folders
+CREATE POLICY "Users can view their own folders" ON folders
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own folders" ON folders
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own folders" ON folders
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own folders" ON folders
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Create RLS policies for smart_feeds
+CREATE POLICY "Users can view their own smart feeds" ON smart_feeds
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own smart feeds" ON smart_feeds
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own smart feeds" ON smart_feeds
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own smart feeds" ON smart_feeds
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Create RLS policies for article_rules
+CREATE POLICY "Users can view their own article rules" ON article_rules
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own article rules" ON article_rules
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own article rules" ON article_rules
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own article rules" ON article_rules
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Create RLS policies for extraction_recipes
+CREATE POLICY "Users can view their own extraction recipes" ON extraction_recipes
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own extraction recipes" ON extraction_recipes
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own extraction recipes" ON extraction_recipes
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own extraction recipes" ON extraction_recipes
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Create RLS policies for agent_settings
+CREATE POLICY "Users can view their own agent settings" ON agent_settings
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own agent settings" ON agent_settings
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own agent settings" ON agent_settings
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own agent settings" ON agent_settings
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Create RLS policies for collection_jobs (only the worker, with the service role, updates them)
+CREATE POLICY "Users can view their own collection jobs" ON collection_jobs
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own collection jobs" ON collection_jobs
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM sources WHERE sources.id = source_id AND sources.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can delete their own collection jobs" ON collection_jobs
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Create RLS policies for collection_job_events (only the worker, with the service role, writes them)
+CREATE POLICY "Users can view their own collection job events" ON collection_job_events
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collection job events" ON collection_job_events
+    FOR DELETE USING (auth.uid() = user_id);
+
 -- Create RLS policies for articles
 CREATE POLICY "Users can view their own articles" ON articles
     FOR SELECT USING (auth.uid() = user_id);
@@ -323,7 +618,11 @@ SELECT
     s.url as source_url,
     auth.name as author_name,
     auth.slug as author_slug,
-    auth.avatar_url as author_avatar_url
+    auth.avatar_url as author_avatar_url,
+    a.search_vector, -- For full-text filters only; not selected by listings
+    a.duplicate_of,
+    a.published_at_source,
+    a.published_at_confidence
 FROM articles a
 JOIN sources s ON a.source_id = s.id
 LEFT JOIN authors auth ON a.author_id = auth.id;
@@ -352,9 +651,110 @@ SELECT
     ) as all_themes
 FROM authors a;
 
+-- Full-text search over articles with ranking and highlighted snippets
+-- Runs as the caller (SECURITY INVOKER) so RLS limits results to the user's own articles
+CREATE OR REPLACE FUNCTION search_articles(
+    search_query TEXT,
+    filter_source_ids BIGINT[] DEFAULT NULL, -- A single source or every source in a folder
+    filter_author TEXT DEFAULT NULL,
+    filter_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    filter_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    result_limit INTEGER DEFAULT 50,
+    result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id BIGINT,
+    source_id BIGINT,
+    title TEXT,
+    description TEXT,
+    url TEXT,
+    author TEXT,
+    published_at TIMESTAMP WITH TIME ZONE,
+    image_url TEXT,
+    read_time TEXT,
+    is_read BOOLEAN,
+    is_bookmarked BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE,
+    source_name TEXT,
+    source_url TEXT,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT
+) AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', search_query) AS tsq
+    ),
+    ranked AS (
+        -- Rank and page first so ts_headline only runs on the rows we return
+        SELECT a.*, s.name AS source_name, s.url AS source_url, ts_rank_cd(a.search_vector, query.tsq) AS rank
+        FROM articles a
+        JOIN sources s ON a.source_id = s.id, query
+        WHERE a.search_vector @@ query.tsq
+          AND (filter_source_ids IS NULL OR a.source_id = ANY(filter_source_ids))
+          AND (filter_source_ids IS NOT NULL OR a.duplicate_of IS NULL) -- Collapse cross-source duplicates unless scoped to sources
+          -- Case-insensitive exact match: LIKE wildcards in the author name are escaped
+          AND (filter_author IS NULL OR a.author ILIKE replace(replace(replace(filter_author, '\', '\\'), '%', '\%'), '_', '\_'))
+          AND (filter_from IS NULL OR a.published_at >= filter_from)
+          AND (filter_to IS NULL OR a.published_at <= filter_to)
+        ORDER BY rank DESC, a.published_at DESC NULLS LAST
+        LIMIT result_limit OFFSET result_offset
+    )
+    SELECT
+        r.id,
+        r.source_id,
+        r.title,
+        r.description,
+        r.url,
+        r.author,
+        r.published_at,
+        r.image_url,
+        r.read_time,
+        r.is_read,
+        r.is_bookmarked,
+        r.created_at,
+        r.source_name,
+        r.source_url,
+        r.rank,
+        ts_headline('english', r.title, query.tsq, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+        ts_headline(
+            'english',
+            -- Strip HTML so snippets are plain text with only <mark> highlights
+            regexp_replace(COALESCE(r.description, '') || ' ' || LEFT(COALESCE(r.content, ''), 20000), '<[^>]+>', ' ', 'g'),
+            query.tsq,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+        )
+    FROM ranked r, query
+    ORDER BY r.rank DESC, r.published_at DESC NULLS LAST;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Distinct article bylines for the author filter (RLS applies via SECURITY INVOKER)
+CREATE OR REPLACE FUNCTION get_article_authors()
+RETURNS TABLE (author TEXT, article_count BIGINT) AS $$
+    SELECT a.author, COUNT(*) AS article_count
+    FROM articles a
+    WHERE a.author IS NOT NULL AND a.author <> ''
+    GROUP BY a.author
+    ORDER BY a.author;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Total and unread article counts per source (folder counts are summed client-side)
+CREATE OR REPLACE FUNCTION get_source_article_counts()
+RETURNS TABLE (source_id BIGINT, article_count BIGINT, unread_count BIGINT) AS $$
+    SELECT a.source_id, COUNT(*) AS article_count, COUNT(*) FILTER (WHERE NOT a.is_read) AS unread_count
+    FROM articles a
+    GROUP BY a.source_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
 -- Grant necessary permissions
 GRANT ALL ON authors TO authenticated;
 GRANT ALL ON sources TO authenticated;
+GRANT ALL ON folders TO authenticated;
+GRANT ALL ON smart_feeds TO authenticated;
+GRANT ALL ON article_rules TO authenticated;
+GRANT ALL ON extraction_recipes TO authenticated;
+GRANT ALL ON agent_settings TO authenticated;
+GRANT SELECT, INSERT, DELETE ON collection_jobs TO authenticated;
+GRANT SELECT, DELETE ON collection_job_events TO authenticated;
 GRANT ALL ON articles TO authenticated;
 GRANT ALL ON author_evolution TO authenticated;
 GRANT SELECT ON articles_with_sources TO authenticated;
@@ -362,5 +762,14 @@ GRANT SELECT ON articles_summary TO authenticated;
 GRANT SELECT ON author_profiles TO authenticated;
 GRANT ALL ON SEQUENCE authors_id_seq TO authenticated;
 GRANT ALL ON SEQUENCE sources_id_seq TO authenticated;
+GRANT ALL ON SEQUENCE folders_id_seq TO authenticated;
+GRANT ALL ON SEQUENCE smart_feeds_id_seq TO authenticated;
+GRANT ALL ON SEQUENCE article_rules_id_seq TO authenticated;
+GRANT ALL ON SEQUENCE extraction_recipes_id_seq TO authenticated;
+GRANT ALL ON SEQUENCE agent_settings_id_seq TO authenticated;
+GRANT ALL ON SEQUENCE collection_jobs_id_seq TO authenticated;
 GRANT ALL ON SEQUENCE articles_id_seq TO authenticated;
-GRANT ALL ON SEQUENCE author_evolution_id_seq TO authenticated; 
\ No newline at end of file
+GRANT ALL ON SEQUENCE author_evolution_id_seq TO authenticated;
+GRANT EXECUTE ON FUNCTION search_articles(TEXT, BIGINT[], TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_article_authors() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_source_article_counts() TO authenticated; 
\ No newline at end of file